@@ -6,9 +6,15 @@ import specs from './swagger.js';
 import authRoutes from "./routes/auth.js";
 import workspaceRoutes from "./routes/workspace.js";
 import variablesRoutes from "./routes/variables.js";
+import environmentsRoutes from "./routes/environments.js";
 import collectionsRoutes from "./routes/collections.js";
 import requestsRoutes from "./routes/requests.js";
+import runsRoutes from "./routes/runs.js";
+import monitorsRoutes from "./routes/monitors.js";
+import webhooksRoutes from "./routes/webhooks.js";
 import initDatabase from "./initDb.js";
+import { markInterruptedRuns } from "./services/runHistory.js";
+import { startScheduler } from "./services/scheduler.js";
 
 dotenv.config();
 
@@ -33,7 +39,8 @@ const corsOptions = {
 };
 
 app.use(cors(corsOptions));
-app.use(express.json());
+// Collection imports and binary bodies are well past the 100kb default
+app.use(express.json({ limit: '10mb' }));
 
 // Swagger documentation
 app.use('/api-docs', swaggerUi.serve, swaggerUi.setup(specs));
@@ -61,12 +68,19 @@ app.use("/api/test", async function(req: Request, res: Response) {
 app.use("/api/auth", authRoutes);
 app.use("/api/workspaces", workspaceRoutes);
 app.use("/api/variables", variablesRoutes);
+app.use("/api/environments", environmentsRoutes);
+// Mounted ahead of the collections router so its auth middleware does not run twice
+app.use("/api/collections/:collectionId/monitors", monitorsRoutes);
 app.use("/api/collections", collectionsRoutes);
 app.use("/api/requests", requestsRoutes);
+app.use("/api/runs", runsRoutes);
+app.use("/api/webhooks", webhooksRoutes);
 
 // Initialize database before starting server
-initDatabase().then(() => {
+initDatabase().then(async () => {
+  await markInterruptedRuns();
   app.listen(PORT, () => {
     console.log(`🚀 Server running on http://localhost:${PORT}`);
   });
+  startScheduler();
 });
@@ -71,6 +71,47 @@ const initDatabase = async () => {
       );
     `;
 
+    // Scripts were added after the requests table first shipped
+    const addRequestScriptColumns = `
+      ALTER TABLE requests
+        ADD COLUMN IF NOT EXISTS pre_request_script TEXT,
+        ADD COLUMN IF NOT EXISTS post_request_script TEXT;
+    `;
+
+    // Rules that capture response values into variables during runs
+    const addRequestExtractionsColumn = `
+      ALTER TABLE requests ADD COLUMN IF NOT EXISTS extractions JSONB DEFAULT '[]';
+    `;
+
+    // Structured authorization; requests without their own inherit the collection's
+    const addAuthColumns = `
+      ALTER TABLE collections ADD COLUMN IF NOT EXISTS auth JSONB;
+      ALTER TABLE requests ADD COLUMN IF NOT EXISTS auth JSONB;
+    `;
+
+    // Add body mode to requests; existing bodies are JSON
+    const addRequestBodyModeColumn = `
+      ALTER TABLE requests ADD COLUMN IF NOT EXISTS body_mode VARCHAR(20) NOT NULL DEFAULT 'json';
+    `;
+
+    // Add the folder a request sits in, as a path such as "Users / Admin"
+    const addRequestFolderColumn = `
+      ALTER TABLE requests ADD COLUMN IF NOT EXISTS folder TEXT;
+    `;
+
+    // Track the API specification operation a request was generated from, and
+    // flag requests whose operation disappeared from the specification on re-sync
+    const addRequestSourceColumns = `
+      ALTER TABLE requests ADD COLUMN IF NOT EXISTS source_ref TEXT;
+      ALTER TABLE requests ADD COLUMN IF NOT EXISTS source_removed_at TIMESTAMP;
+    `;
+
+    // Add the GraphQL schema last fetched by introspection for a request
+    const addRequestGraphqlSchemaColumns = `
+      ALTER TABLE requests ADD COLUMN IF NOT EXISTS graphql_schema JSONB;
+      ALTER TABLE requests ADD COLUMN IF NOT EXISTS graphql_schema_fetched_at TIMESTAMP;
+    `;
+
     // Create variables table
     const createVariablesTable = `
       CREATE TABLE IF NOT EXISTS variables (
@@ -85,12 +126,207 @@ const initDatabase = async () => {
       );
     `;
 
+    // Create environments table (named variable sets per workspace)
+    const createEnvironmentsTable = `
+      CREATE TABLE IF NOT EXISTS environments (
+        id SERIAL PRIMARY KEY,
+        name VARCHAR(255) NOT NULL,
+        workspace_id INTEGER REFERENCES workspaces(id) ON DELETE CASCADE,
+        created_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE(workspace_id, name)
+      );
+    `;
+
+    // Environment variables live in the variables table, so a key only has to be
+    // unique within its environment rather than across the workspace
+    const addVariableEnvironmentColumn = `
+      ALTER TABLE variables ADD COLUMN IF NOT EXISTS environment_id INTEGER REFERENCES environments(id) ON DELETE CASCADE;
+      ALTER TABLE variables DROP CONSTRAINT IF EXISTS variables_variable_key_workspace_id_scope_key;
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_variables_unique_key
+        ON variables (variable_key, workspace_id, scope, COALESCE(environment_id, 0));
+    `;
+
+    // Collection-scoped variables; the unique key now also covers the collection
+    const addVariableCollectionColumn = `
+      ALTER TABLE variables ADD COLUMN IF NOT EXISTS collection_id INTEGER REFERENCES collections(id) ON DELETE CASCADE;
+      DROP INDEX IF EXISTS idx_variables_unique_key;
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_variables_unique_scope
+        ON variables (variable_key, workspace_id, scope, COALESCE(environment_id, 0), COALESCE(collection_id, 0));
+    `;
+
+    // Secret variables hold an encrypted value
+    const addVariableSecretColumn = `
+      ALTER TABLE variables ADD COLUMN IF NOT EXISTS is_secret BOOLEAN NOT NULL DEFAULT false;
+    `;
+
+    // Create collection runs table
+    const createCollectionRunsTable = `
+      CREATE TABLE IF NOT EXISTS collection_runs (
+        id UUID PRIMARY KEY,
+        collection_id INTEGER REFERENCES collections(id) ON DELETE CASCADE,
+        workspace_id INTEGER REFERENCES workspaces(id) ON DELETE CASCADE,
+        triggered_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+        environment VARCHAR(50),
+        execution_mode VARCHAR(20) NOT NULL,
+        status VARCHAR(20) NOT NULL,
+        results JSONB DEFAULT '[]',
+        summary JSONB DEFAULT '{}',
+        started_at TIMESTAMP,
+        finished_at TIMESTAMP,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+      CREATE INDEX IF NOT EXISTS idx_collection_runs_collection ON collection_runs (collection_id, started_at DESC);
+    `;
+
+    // Per-iteration summaries were added for data-driven runs
+    const addCollectionRunIterationsColumn = `
+      ALTER TABLE collection_runs ADD COLUMN IF NOT EXISTS iterations JSONB DEFAULT '[]';
+    `;
+
+    // Runs record which stored environment supplied their variables
+    const addCollectionRunEnvironmentColumn = `
+      ALTER TABLE collection_runs ADD COLUMN IF NOT EXISTS environment_id INTEGER REFERENCES environments(id) ON DELETE SET NULL;
+    `;
+
+    // Create monitors table (scheduled collection runs)
+    const createMonitorsTable = `
+      CREATE TABLE IF NOT EXISTS monitors (
+        id SERIAL PRIMARY KEY,
+        name VARCHAR(255) NOT NULL,
+        collection_id INTEGER NOT NULL REFERENCES collections(id) ON DELETE CASCADE,
+        workspace_id INTEGER REFERENCES workspaces(id) ON DELETE CASCADE,
+        cron_expression VARCHAR(100) NOT NULL,
+        timezone VARCHAR(64) NOT NULL DEFAULT 'UTC',
+        environment VARCHAR(50) NOT NULL,
+        variables JSONB DEFAULT '{}',
+        execution_mode VARCHAR(20) NOT NULL DEFAULT 'sequential',
+        enabled BOOLEAN NOT NULL DEFAULT true,
+        max_consecutive_failures INTEGER NOT NULL DEFAULT 3,
+        consecutive_failures INTEGER NOT NULL DEFAULT 0,
+        paused_reason TEXT,
+        last_run_id UUID,
+        last_run_status VARCHAR(20),
+        -- Compared against times computed in Node, so stored with their time zone
+        last_run_at TIMESTAMPTZ,
+        next_run_at TIMESTAMPTZ,
+        created_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+      CREATE INDEX IF NOT EXISTS idx_monitors_due ON monitors (next_run_at) WHERE enabled = true;
+    `;
+
+    // Monitors can run against a stored environment instead of a fixed label
+    const addMonitorEnvironmentColumn = `
+      ALTER TABLE monitors ADD COLUMN IF NOT EXISTS environment_id INTEGER REFERENCES environments(id) ON DELETE SET NULL;
+      ALTER TABLE monitors ALTER COLUMN environment DROP NOT NULL;
+    `;
+
+    // Runs started by a monitor point back to it
+    const addCollectionRunMonitorColumn = `
+      ALTER TABLE collection_runs ADD COLUMN IF NOT EXISTS monitor_id INTEGER REFERENCES monitors(id) ON DELETE SET NULL;
+    `;
+
+    // Environment names may be up to 255 characters, and runs and monitors copy them
+    const widenRunEnvironmentColumns = `
+      ALTER TABLE collection_runs ALTER COLUMN environment TYPE VARCHAR(255);
+      ALTER TABLE monitors ALTER COLUMN environment TYPE VARCHAR(255);
+    `;
+
+    // Create webhooks table (outbound notifications about finished runs)
+    const createWebhooksTable = `
+      CREATE TABLE IF NOT EXISTS webhooks (
+        id SERIAL PRIMARY KEY,
+        name VARCHAR(255) NOT NULL,
+        url TEXT NOT NULL,
+        secret VARCHAR(255) NOT NULL,
+        events JSONB NOT NULL DEFAULT '["run.finished"]',
+        workspace_id INTEGER REFERENCES workspaces(id) ON DELETE CASCADE,
+        -- NULL means every collection in the workspace
+        collection_id INTEGER REFERENCES collections(id) ON DELETE CASCADE,
+        enabled BOOLEAN NOT NULL DEFAULT true,
+        created_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+      CREATE INDEX IF NOT EXISTS idx_webhooks_workspace ON webhooks (workspace_id);
+    `;
+
+    // Create webhook deliveries table (one row per delivery attempt)
+    const createWebhookDeliveriesTable = `
+      CREATE TABLE IF NOT EXISTS webhook_deliveries (
+        id SERIAL PRIMARY KEY,
+        webhook_id INTEGER NOT NULL REFERENCES webhooks(id) ON DELETE CASCADE,
+        delivery_id UUID NOT NULL,
+        run_id UUID,
+        event VARCHAR(50) NOT NULL,
+        attempt INTEGER NOT NULL,
+        status_code INTEGER,
+        success BOOLEAN NOT NULL,
+        error TEXT,
+        duration INTEGER,
+        payload JSONB,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+      CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_webhook ON webhook_deliveries (webhook_id, created_at DESC);
+    `;
+
+    // Create request history table: responses to requests sent one at a time
+    const createRequestHistoryTable = `
+      CREATE TABLE IF NOT EXISTS request_history (
+        id SERIAL PRIMARY KEY,
+        request_id INTEGER NOT NULL REFERENCES requests(id) ON DELETE CASCADE,
+        workspace_id INTEGER REFERENCES workspaces(id) ON DELETE CASCADE,
+        sent_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+        environment_id INTEGER REFERENCES environments(id) ON DELETE SET NULL,
+        method VARCHAR(10) NOT NULL,
+        url TEXT NOT NULL,
+        status VARCHAR(20) NOT NULL,
+        response_status INTEGER,
+        response_status_text VARCHAR(255),
+        response_headers JSONB,
+        response_body JSONB,
+        response_size INTEGER,
+        error TEXT,
+        assertions JSONB DEFAULT '[]',
+        warnings JSONB DEFAULT '[]',
+        script_errors JSONB,
+        duration INTEGER,
+        attempts INTEGER,
+        sent_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+      CREATE INDEX IF NOT EXISTS idx_request_history_request ON request_history (request_id, sent_at DESC);
+    `;
+
     await pool.query(createUsersTable);
     await pool.query(createWorkspacesTable);
     await pool.query(createWorkspaceMembersTable);
     await pool.query(createCollectionsTable);
     await pool.query(createRequestsTable);
+    await pool.query(addRequestScriptColumns);
+    await pool.query(addRequestExtractionsColumn);
+    await pool.query(addAuthColumns);
+    await pool.query(addRequestBodyModeColumn);
+    await pool.query(addRequestGraphqlSchemaColumns);
+    await pool.query(addRequestFolderColumn);
+    await pool.query(addRequestSourceColumns);
     await pool.query(createVariablesTable);
+    await pool.query(createEnvironmentsTable);
+    await pool.query(addVariableEnvironmentColumn);
+    await pool.query(addVariableCollectionColumn);
+    await pool.query(addVariableSecretColumn);
+    await pool.query(createCollectionRunsTable);
+    await pool.query(addCollectionRunIterationsColumn);
+    await pool.query(addCollectionRunEnvironmentColumn);
+    await pool.query(createMonitorsTable);
+    await pool.query(addMonitorEnvironmentColumn);
+    await pool.query(addCollectionRunMonitorColumn);
+    await pool.query(widenRunEnvironmentColumns);
+    await pool.query(createWebhooksTable);
+    await pool.query(createWebhookDeliveriesTable);
+    await pool.query(createRequestHistoryTable);
     console.log('✅ Database schema is up to date.');
   } catch (error) {
     console.error('❌ Table initialization failed:', error);
@@ -1,10 +1,64 @@
 import { Router, Request, Response } from 'express';
+import yaml from 'js-yaml';
 import pool from '../config/database.js';
 import { authMiddleware } from '../middleware/auth.js';
-import { runCollection } from '../services/collectionRunner.js';
+import { loadRunnableRequests, startCollectionRun } from '../services/runManager.js';
+import { parseDataFile } from '../services/dataFile.js';
+import { loadEnvironment } from '../services/environments.js';
+import { validateAuth } from '../services/auth.js';
+import { loadVariableScopes, mergeScopes } from '../services/variableScopes.js';
+import { loadPortableCollection, saveImportedCollection, syncCollectionRequests } from '../services/collectionTransfer.js';
+import { ParsedCollection, PortableCollection } from '../services/formats/types.js';
+import { exportPostmanCollection, parsePostmanCollection } from '../services/formats/postman.js';
+import { exportNativeCollection, parseNativeCollection } from '../services/formats/native.js';
+import { exportOpenApiDocument, parseOpenApiSpec } from '../services/formats/openapi.js';
 
 const router = Router();
 
+const isPositiveInteger = (value: unknown) => Number.isInteger(value) && (value as number) > 0;
+
+// Checks the optional reliability settings of a run request; returns an error message or null
+const validateRunSettings = ({ timeout, retry, maxConcurrency }: Record<string, any>): string | null => {
+  if (timeout !== undefined && !isPositiveInteger(timeout)) {
+    return 'timeout must be a positive number of milliseconds';
+  }
+  if (maxConcurrency !== undefined && !isPositiveInteger(maxConcurrency)) {
+    return 'maxConcurrency must be a positive integer';
+  }
+  if (retry !== undefined) {
+    if (!retry || typeof retry !== 'object' || !Number.isInteger(retry.retries) || retry.retries < 0 || retry.retries > 10) {
+      return 'retry.retries must be an integer between 0 and 10';
+    }
+    if ((retry.backoff !== undefined && !isPositiveInteger(retry.backoff))
+      || (retry.maxBackoff !== undefined && !isPositiveInteger(retry.maxBackoff))) {
+      return 'retry.backoff and retry.maxBackoff must be positive numbers of milliseconds';
+    }
+    if (retry.retryOnStatus !== undefined
+      && (!Array.isArray(retry.retryOnStatus) || !retry.retryOnStatus.every((code: unknown) => isPositiveInteger(code)))) {
+      return 'retry.retryOnStatus must be an array of status codes';
+    }
+  }
+  return null;
+};
+
+// Document formats collections can be imported from and exported to
+const IMPORT_FORMATS: Record<string, (document: any) => ParsedCollection> = {
+  postman: parsePostmanCollection,
+  native: parseNativeCollection,
+  openapi: parseOpenApiSpec,
+};
+
+// Uploaded documents arrive either parsed or as the file's text, JSON or YAML
+// (JSON being a subset of YAML)
+const decodeDocument = (document: unknown) => (typeof document === 'string' ? yaml.load(document) : document);
+
+// withResponses: the format describes responses, so recorded ones are loaded
+const EXPORT_FORMATS: Record<string, { export: (collection: PortableCollection) => object; extension: string; withResponses?: boolean }> = {
+  native: { export: exportNativeCollection, extension: 'getapi.json' },
+  postman: { export: exportPostmanCollection, extension: 'postman_collection.json' },
+  openapi: { export: exportOpenApiDocument, extension: 'openapi.json', withResponses: true },
+};
+
 // Apply auth middleware to all routes
 router.use(authMiddleware);
 
@@ -46,6 +100,7 @@ router.get('/', async (req: Request, res: Response) => {
           c.id,
           c.name,
           c.description,
+          c.auth,
           c.workspace_id,
           c.created_by,
           c.created_at,
@@ -53,7 +108,7 @@ router.get('/', async (req: Request, res: Response) => {
           u.name as created_by_name,
           COALESCE(
               (
-                  SELECT json_agg(r.* ORDER BY r.created_at ASC)
+                  SELECT json_agg(r.* ORDER BY r.created_at ASC, r.id ASC)
                   FROM requests r
                   WHERE r.collection_id = c.id
               ),
@@ -127,7 +182,7 @@ router.get('/:id', async (req: Request, res: Response) => {
        FROM requests r
        LEFT JOIN users u ON r.created_by = u.id
        WHERE r.collection_id = $1
-       ORDER BY r.created_at ASC`,
+       ORDER BY r.created_at ASC, r.id ASC`,
       [id]
     );
 
@@ -162,6 +217,8 @@ router.get('/:id', async (req: Request, res: Response) => {
  *                 type: string
  *               description:
  *                 type: string
+ *               auth:
+ *                 $ref: '#/components/schemas/AuthConfig'
  *     responses:
  *       201:
  *         description: Collection created
@@ -170,7 +227,7 @@ router.get('/:id', async (req: Request, res: Response) => {
  */
 router.post('/', async (req: Request, res: Response) => {
   try {
-    const { name, description } = req.body;
+    const { name, description, auth } = req.body;
     const workspaceId = req.user!.workspace_id;
     const userId = req.user!.id;
 
@@ -178,11 +235,16 @@ router.post('/', async (req: Request, res: Response) => {
       return res.status(400).json({ error: 'Collection name is required' });
     }
 
+    const authError = validateAuth(auth);
+    if (authError) {
+      return res.status(400).json({ error: authError });
+    }
+
     const result = await pool.query(
-      `INSERT INTO collections (name, description, workspace_id, created_by)
-       VALUES ($1, $2, $3, $4)
+      `INSERT INTO collections (name, description, workspace_id, created_by, auth)
+       VALUES ($1, $2, $3, $4, $5)
        RETURNING *`,
-      [name, description || '', workspaceId, userId]
+      [name, description || '', workspaceId, userId, auth || null]
     );
 
     res.status(201).json({
@@ -195,6 +257,235 @@ router.post('/', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * @swagger
+ * /api/collections/import:
+ *   post:
+ *     summary: Import a collection exported from Postman or from GETapi
+ *     description: >
+ *       Creates a collection with its requests and collection variables. A Postman
+ *       Collection v2.1 document is converted: folders become request folder paths,
+ *       request scripts and test scripts become pre-request and post-request scripts,
+ *       and collection and folder scripts are copied into each request below them.
+ *       Anything that could not be carried over is listed in warnings. A native export
+ *       is imported as it is. An OpenAPI 3 or Swagger 2 specification becomes one request
+ *       per operation, grouped into folders by tag, with the server URL in a baseUrl
+ *       collection variable and path parameters as collection variables; request bodies
+ *       and parameter values come from examples or are generated from schemas.
+ *     tags: [Collections]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - document
+ *             properties:
+ *               format:
+ *                 type: string
+ *                 enum: [postman, native, openapi]
+ *                 default: postman
+ *               document:
+ *                 oneOf:
+ *                   - type: object
+ *                   - type: string
+ *                 description: The file to import, parsed or as JSON or YAML text
+ *               name:
+ *                 type: string
+ *                 description: Name for the new collection instead of the one in the document
+ *     responses:
+ *       201:
+ *         description: The new collection, how many requests and variables were imported, and warnings
+ *       400:
+ *         description: Unsupported format, or a document that cannot be imported
+ */
+router.post('/import', async (req: Request, res: Response) => {
+  try {
+    const { format = 'postman', document, name } = req.body;
+    const workspaceId = req.user!.workspace_id;
+    const userId = req.user!.id;
+
+    const parse = IMPORT_FORMATS[format];
+    if (!parse) {
+      return res.status(400).json({ error: `format must be one of ${Object.keys(IMPORT_FORMATS).join(', ')}` });
+    }
+
+    if (!document || (typeof document !== 'object' && typeof document !== 'string')) {
+      return res.status(400).json({ error: 'document is required' });
+    }
+
+    if (name !== undefined && (typeof name !== 'string' || !name.trim() || name.length > 255)) {
+      return res.status(400).json({ error: 'name must be a non-empty string of at most 255 characters' });
+    }
+
+    let parsed;
+    try {
+      parsed = parse(decodeDocument(document));
+    } catch (error: any) {
+      return res.status(400).json({
+        error: 'Invalid collection document',
+        message: error.message
+      });
+    }
+    if (name) parsed.collection.name = name;
+
+    const result = await saveImportedCollection(parsed, workspaceId, userId);
+
+    res.status(201).json({
+      message: 'Collection imported successfully',
+      ...result
+    });
+  } catch (error) {
+    console.error('Import collection error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/collections/{id}/export:
+ *   get:
+ *     summary: Export a collection as a file
+ *     description: >
+ *       Serializes the collection with its requests, scripts and collection variables.
+ *       Secret variables are left out, and auth credentials that are not {{variables}}
+ *       are replaced with variables to define. The native format keeps everything else
+ *       GETapi stores and imports back unchanged; the Postman v2.1 format notes what Postman cannot
+ *       hold, such as extraction rules and file contents, in the request descriptions.
+ *       The openapi format describes the requests as an OpenAPI 3 document: {{variables}}
+ *       in paths become path parameters, request schemas are inferred from the saved
+ *       bodies and response schemas from the latest response of each status code in the
+ *       requests' history.
+ *     tags: [Collections]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Collection ID
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [native, postman, openapi]
+ *           default: native
+ *     responses:
+ *       200:
+ *         description: The exported document, sent as a JSON attachment
+ *       400:
+ *         description: Unsupported format
+ *       404:
+ *         description: Collection not found
+ */
+router.get('/:id/export', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const format = (req.query.format as string) || 'native';
+    const workspaceId = req.user!.workspace_id;
+
+    const exporter = EXPORT_FORMATS[format];
+    if (!exporter) {
+      return res.status(400).json({ error: `format must be one of ${Object.keys(EXPORT_FORMATS).join(', ')}` });
+    }
+
+    const collection = await loadPortableCollection(id, workspaceId, { withResponses: exporter.withResponses });
+    if (!collection) {
+      return res.status(404).json({ error: 'Collection not found' });
+    }
+
+    const fileName = `${collection.name.replace(/[^\w.-]+/g, '_') || 'collection'}.${exporter.extension}`;
+    res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+    res.status(200).json(exporter.export(collection));
+  } catch (error) {
+    console.error('Export collection error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/collections/{id}/sync:
+ *   post:
+ *     summary: Re-sync a collection with a new version of its OpenAPI specification
+ *     description: >
+ *       Matches the collection's generated requests to the specification's operations by
+ *       method and path. Operations without a request are added, requests whose operation
+ *       was removed are flagged with source_removed_at, and requests that still match are
+ *       left unchanged, keeping any edits. Missing collection variables are added.
+ *     tags: [Collections]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Collection ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - document
+ *             properties:
+ *               document:
+ *                 oneOf:
+ *                   - type: object
+ *                   - type: string
+ *                 description: The OpenAPI 3 or Swagger 2 specification, parsed or as JSON or YAML text
+ *     responses:
+ *       200:
+ *         description: Names of the added, removed and restored requests, the variables added, and warnings
+ *       400:
+ *         description: A document that is not a usable specification
+ *       404:
+ *         description: Collection not found
+ */
+router.post('/:id/sync', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { document } = req.body;
+    const workspaceId = req.user!.workspace_id;
+    const userId = req.user!.id;
+
+    if (!document || (typeof document !== 'object' && typeof document !== 'string')) {
+      return res.status(400).json({ error: 'document is required' });
+    }
+
+    let parsed;
+    try {
+      parsed = parseOpenApiSpec(decodeDocument(document));
+    } catch (error: any) {
+      return res.status(400).json({
+        error: 'Invalid API specification',
+        message: error.message
+      });
+    }
+
+    const result = await syncCollectionRequests(id, parsed, workspaceId, userId);
+    if (!result) {
+      return res.status(404).json({ error: 'Collection not found' });
+    }
+
+    res.status(200).json({
+      message: 'Collection synced successfully',
+      ...result
+    });
+  } catch (error) {
+    console.error('Sync collection error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 /**
  * @swagger
  * /api/collections/{id}:
@@ -221,6 +512,8 @@ router.post('/', async (req: Request, res: Response) => {
  *                 type: string
  *               description:
  *                 type: string
+ *               auth:
+ *                 $ref: '#/components/schemas/AuthConfig'
  *     responses:
  *       200:
  *         description: Collection updated
@@ -232,13 +525,18 @@ router.post('/', async (req: Request, res: Response) => {
 router.put('/:id', async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
-    const { name, description } = req.body;
+    const { name, description, auth } = req.body;
     const workspaceId = req.user!.workspace_id;
 
-    if (!name && !description) {
+    if (!name && !description && auth === undefined) {
       return res.status(400).json({ error: 'At least one field to update is required' });
     }
 
+    const authError = validateAuth(auth);
+    if (authError) {
+      return res.status(400).json({ error: authError });
+    }
+
     let query = 'UPDATE collections SET updated_at = CURRENT_TIMESTAMP';
     const values: any[] = [];
     let paramCount = 1;
@@ -255,6 +553,12 @@ router.put('/:id', async (req: Request, res: Response) => {
       paramCount++;
     }
 
+    if (auth !== undefined) {
+      query += `, auth = $${paramCount}`;
+      values.push(auth);
+      paramCount++;
+    }
+
     query += ` WHERE id = $${paramCount} AND workspace_id = $${paramCount + 1} RETURNING *`;
     values.push(id, workspaceId);
 
@@ -342,8 +646,6 @@ router.delete('/:id', async (req: Request, res: Response) => {
  *             type: object
  *             required:
  *               - executionMode
- *               - environment
- *               - variables
  *             properties:
  *               executionMode:
  *                 type: string
@@ -351,35 +653,137 @@ router.delete('/:id', async (req: Request, res: Response) => {
  *               delayBetweenRequests:
  *                 type: integer
  *                 description: Delay in ms between requests for sequential mode
+ *               environmentId:
+ *                 type: integer
+ *                 description: Stored environment whose variables the run uses
  *               environment:
  *                 type: string
- *                 enum: [development, staging, production]
+ *                 description: Free-form label recorded in run history; defaults to the stored environment's name
  *               variables:
  *                 type: object
  *                 additionalProperties: true
+ *                 description: >
+ *                   Variables for this run. They override the stored global, collection and
+ *                   environment variables; iteration data and values set during the run override them.
+ *               data:
+ *                 description: |
+ *                   Iteration data: an array of objects, or the text of a CSV (with a header row)
+ *                   or JSON file. The collection runs once per row with the row's values merged
+ *                   into the variables.
+ *                 oneOf:
+ *                   - type: array
+ *                     items:
+ *                       type: object
+ *                   - type: string
+ *               dataFormat:
+ *                 type: string
+ *                 enum: [csv, json]
+ *                 description: Format of data when it is sent as text; detected when omitted
+ *               timeout:
+ *                 type: integer
+ *                 description: Timeout in ms for each attempt of a request
+ *               retry:
+ *                 type: object
+ *                 description: Retry policy with exponential backoff
+ *                 required:
+ *                   - retries
+ *                 properties:
+ *                   retries:
+ *                     type: integer
+ *                     minimum: 0
+ *                     maximum: 10
+ *                   backoff:
+ *                     type: integer
+ *                     default: 500
+ *                     description: Delay in ms before the first retry, doubled for each later one
+ *                   maxBackoff:
+ *                     type: integer
+ *                     default: 30000
+ *                   retryOnNetworkError:
+ *                     type: boolean
+ *                     default: true
+ *                     description: Retry network errors and timeouts
+ *                   retryOnStatus:
+ *                     type: array
+ *                     items:
+ *                       type: integer
+ *                     description: Response status codes that are retried, e.g. [502, 503, 504]
+ *               maxConcurrency:
+ *                 type: integer
+ *                 description: Maximum number of requests in flight at once in parallel mode
+ *               async:
+ *                 type: boolean
+ *                 default: false
+ *                 description: Start the run in the background and return its runId straight away
  *           example:
  *             executionMode: "sequential"
  *             delayBetweenRequests: 1000
- *             environment: "development"
+ *             environmentId: 1
  *             variables:
- *               baseUrl: "http://localhost:3001"
  *               authToken: "your_token_here"
  *     responses:
  *       200:
- *         description: Collection run results
+ *         description: Collection run results, also saved to the run history
+ *       202:
+ *         description: Run started in the background; poll /api/runs/{runId}/status for progress
  *       400:
  *         description: Invalid request body
  *       404:
- *         description: Collection not found
+ *         description: Collection or environment not found
  */
 router.post('/:collectionId/run', async (req: Request, res: Response) => {
   try {
     const { collectionId } = req.params;
     const workspaceId = req.user!.workspace_id;
-    const { executionMode, delayBetweenRequests, environment, variables } = req.body;
+    const {
+      executionMode,
+      delayBetweenRequests,
+      environmentId,
+      environment,
+      variables = {},
+      data,
+      dataFormat,
+      timeout,
+      retry,
+      maxConcurrency,
+      async: runInBackground,
+    } = req.body;
+
+    if (!executionMode) {
+      return res.status(400).json({ error: 'executionMode is required' });
+    }
+
+    if (!variables || typeof variables !== 'object' || Array.isArray(variables)) {
+      return res.status(400).json({ error: 'variables must be an object' });
+    }
+
+    if (environmentId !== undefined && environmentId !== null && !isPositiveInteger(environmentId)) {
+      return res.status(400).json({ error: 'environmentId must be a positive integer' });
+    }
+
+    if (environment !== undefined && environment !== null && (typeof environment !== 'string' || environment.length > 255)) {
+      return res.status(400).json({ error: 'environment must be a string of at most 255 characters' });
+    }
+
+    const settingsError = validateRunSettings(req.body);
+    if (settingsError) {
+      return res.status(400).json({ error: settingsError });
+    }
 
-    if (!executionMode || !environment || !variables) {
-      return res.status(400).json({ error: 'executionMode, environment, and variables are required' });
+    if (dataFormat !== undefined && dataFormat !== 'csv' && dataFormat !== 'json') {
+      return res.status(400).json({ error: 'dataFormat must be csv or json' });
+    }
+
+    let rows: Record<string, any>[] | undefined;
+    if (data !== undefined) {
+      try {
+        rows = parseDataFile(data, dataFormat);
+      } catch (error: any) {
+        return res.status(400).json({
+          error: 'Invalid iteration data',
+          message: error.message
+        });
+      }
     }
 
     // 1. Fetch collection and its requests
@@ -392,21 +796,47 @@ router.post('/:collectionId/run', async (req: Request, res: Response) => {
       return res.status(404).json({ error: 'Collection not found' });
     }
     
-    const requestsResult = await pool.query(
-      'SELECT id, name, method, url, headers, body, params FROM requests WHERE collection_id = $1 ORDER BY created_at ASC',
-      [collectionId]
+    // 2. Resolve the stored variable scopes; variables sent with the run take precedence
+    const storedEnvironment = environmentId ? await loadEnvironment(environmentId, workspaceId) : null;
+    if (environmentId && !storedEnvironment) {
+      return res.status(404).json({ error: 'Environment not found' });
+    }
+    const environmentName: string | null = environment ?? storedEnvironment?.name ?? null;
+    const { layers, secrets } = await loadVariableScopes(workspaceId, collectionId, storedEnvironment);
+    const runVariables = { ...mergeScopes(layers), ...variables };
+
+    const requests = await loadRunnableRequests(collectionId);
+
+    // 3. Start the run; it is saved to run history as it starts and again when it finishes
+    const { runId, completion } = startCollectionRun(
+      requests,
+      {
+        executionMode,
+        delayBetweenRequests,
+        environment: environmentName,
+        variables: runVariables,
+        secrets,
+        data: rows,
+        timeout,
+        retry,
+        maxConcurrency,
+      },
+      {
+        collectionId: Number(collectionId),
+        workspaceId,
+        triggeredBy: req.user!.id,
+        environment: environmentName,
+        environmentId: environmentId || null,
+        executionMode,
+      }
     );
 
-    const requests = requestsResult.rows;
-
-    // 2. Execute the collection run
-    const runResults = await runCollection(requests, {
-      executionMode,
-      delayBetweenRequests,
-      environment,
-      variables,
-    });
+    if (runInBackground) {
+      completion.catch(error => console.error('Collection run error:', error));
+      return res.status(202).json({ runId, status: 'running' });
+    }
 
+    const runResults = await completion;
     res.status(200).json(runResults);
 
   } catch (error) {
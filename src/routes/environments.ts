@@ -0,0 +1,480 @@
+import { Router, Request, Response } from 'express';
+import pool from '../config/database.js';
+import { authMiddleware } from '../middleware/auth.js';
+import {
+  hasSecretVariables,
+  loadEnvironment,
+  replaceEnvironmentVariables,
+  validateEnvironmentVariables,
+  VariablesRejection,
+} from '../services/environments.js';
+import { MASKED_VALUE, maskVariable, secretsConfigured } from '../services/secrets.js';
+
+const router = Router();
+
+// Apply auth middleware to all routes
+router.use(authMiddleware);
+
+const duplicateName = (res: Response, name: string) =>
+  res.status(409).json({
+    error: 'Environment already exists',
+    message: `An environment named '${name}' already exists in this workspace`
+  });
+
+const secretsUnavailable = (res: Response) =>
+  res.status(503).json({
+    error: 'Secret variables are not available',
+    message: 'Set SECRETS_ENCRYPTION_KEY on the server to store secret variables'
+  });
+
+const variablesRejected = (res: Response, rejection: VariablesRejection) =>
+  rejection.reason === 'no-key'
+    ? secretsUnavailable(res)
+    : res.status(400).json({
+      error: `Variable '${rejection.key}' has no secret value to keep`,
+      message: `Send ${MASKED_VALUE} only for variables that are already secret`
+    });
+
+// An environment's variables as returned by the API, with secret values masked
+const listEnvironmentVariables = async (environmentId: number | string) => {
+  const result = await pool.query(
+    `SELECT id, variable_key, value, is_secret, created_at, updated_at
+     FROM variables WHERE environment_id = $1 ORDER BY variable_key ASC`,
+    [environmentId]
+  );
+  return result.rows.map(maskVariable);
+};
+
+/**
+ * @swagger
+ * tags:
+ *   name: Environments
+ *   description: Named variable sets that collection runs and monitors can use
+ * components:
+ *   schemas:
+ *     EnvironmentVariables:
+ *       type: object
+ *       description: >
+ *         Variable values by key. Send { value, secret: true } to store a value encrypted;
+ *         secret values are masked in responses, and sending the mask back keeps the stored value.
+ *       additionalProperties:
+ *         oneOf:
+ *           - type: string
+ *           - type: object
+ *             properties:
+ *               value:
+ *                 type: string
+ *               secret:
+ *                 type: boolean
+ */
+
+/**
+ * @swagger
+ * /api/environments:
+ *   get:
+ *     summary: Get all environments in the workspace
+ *     tags: [Environments]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: List of environments with their variable counts
+ */
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const workspaceId = req.user!.workspace_id;
+
+    const result = await pool.query(
+      `SELECT e.*, u.name as created_by_name, COUNT(v.id)::int as variables_count
+       FROM environments e
+       LEFT JOIN users u ON e.created_by = u.id
+       LEFT JOIN variables v ON v.environment_id = e.id
+       WHERE e.workspace_id = $1
+       GROUP BY e.id, u.name
+       ORDER BY e.name ASC`,
+      [workspaceId]
+    );
+
+    res.status(200).json({
+      environments: result.rows
+    });
+  } catch (error) {
+    console.error('Get environments error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/environments/{environmentId}:
+ *   get:
+ *     summary: Get an environment with its variables
+ *     tags: [Environments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: environmentId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Environment ID
+ *     responses:
+ *       200:
+ *         description: Environment details and variables
+ *       404:
+ *         description: Environment not found
+ */
+router.get('/:environmentId', async (req: Request, res: Response) => {
+  try {
+    const { environmentId } = req.params;
+    const workspaceId = req.user!.workspace_id;
+
+    const environmentResult = await pool.query(
+      'SELECT * FROM environments WHERE id = $1 AND workspace_id = $2',
+      [environmentId, workspaceId]
+    );
+
+    if (environmentResult.rows.length === 0) {
+      return res.status(404).json({ error: 'Environment not found' });
+    }
+
+    res.status(200).json({
+      environment: {
+        ...environmentResult.rows[0],
+        variables: await listEnvironmentVariables(environmentId)
+      }
+    });
+  } catch (error) {
+    console.error('Get environment error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/environments:
+ *   post:
+ *     summary: Create an environment
+ *     tags: [Environments]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *             properties:
+ *               name:
+ *                 type: string
+ *               variables:
+ *                 $ref: '#/components/schemas/EnvironmentVariables'
+ *           example:
+ *             name: "staging"
+ *             variables:
+ *               baseUrl: "https://staging.example.com"
+ *               apiKey:
+ *                 value: "sk_test_123"
+ *                 secret: true
+ *     responses:
+ *       201:
+ *         description: Environment created
+ *       400:
+ *         description: Invalid environment, or a masked value sent for a variable that is not secret
+ *       503:
+ *         description: Secret variables were sent but no encryption key is configured
+ *       409:
+ *         description: An environment with this name already exists
+ */
+router.post('/', async (req: Request, res: Response) => {
+  try {
+    const { name, variables = {} } = req.body;
+    const workspaceId = req.user!.workspace_id;
+    const userId = req.user!.id;
+
+    if (!name) {
+      return res.status(400).json({ error: 'Environment name is required' });
+    }
+
+    const variablesError = validateEnvironmentVariables(variables);
+    if (variablesError) {
+      return res.status(400).json({ error: variablesError });
+    }
+
+    if (hasSecretVariables(variables) && !secretsConfigured()) {
+      return secretsUnavailable(res);
+    }
+
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      const result = await client.query(
+        `INSERT INTO environments (name, workspace_id, created_by)
+         VALUES ($1, $2, $3)
+         RETURNING *`,
+        [name, workspaceId, userId]
+      );
+      const rejection = await replaceEnvironmentVariables(client, result.rows[0].id, workspaceId, variables);
+      if (rejection) {
+        await client.query('ROLLBACK');
+        return variablesRejected(res, rejection);
+      }
+
+      await client.query('COMMIT');
+
+      res.status(201).json({
+        message: 'Environment created successfully',
+        environment: { ...result.rows[0], variables: await listEnvironmentVariables(result.rows[0].id) }
+      });
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  } catch (error: any) {
+    if (error.code === '23505') {
+      return duplicateName(res, req.body.name);
+    }
+    console.error('Create environment error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/environments/{environmentId}:
+ *   put:
+ *     summary: Rename an environment or replace its variables
+ *     tags: [Environments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: environmentId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Environment ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *               variables:
+ *                 allOf:
+ *                   - $ref: '#/components/schemas/EnvironmentVariables'
+ *                 description: The complete variable set; variables left out are removed
+ *     responses:
+ *       200:
+ *         description: Environment updated
+ *       400:
+ *         description: No field to update, invalid variables, or a masked value sent for a variable that is not secret
+ *       404:
+ *         description: Environment not found
+ *       409:
+ *         description: An environment with this name already exists
+ *       503:
+ *         description: Secret variables were sent or kept but no encryption key is configured
+ */
+router.put('/:environmentId', async (req: Request, res: Response) => {
+  try {
+    const { environmentId } = req.params;
+    const { name, variables } = req.body;
+    const workspaceId = req.user!.workspace_id;
+
+    if (!name && variables === undefined) {
+      return res.status(400).json({ error: 'At least one field to update is required' });
+    }
+
+    if (variables !== undefined) {
+      const variablesError = validateEnvironmentVariables(variables);
+      if (variablesError) {
+        return res.status(400).json({ error: variablesError });
+      }
+      if (hasSecretVariables(variables) && !secretsConfigured()) {
+        return secretsUnavailable(res);
+      }
+    }
+
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      const result = await client.query(
+        `UPDATE environments SET name = COALESCE($1, name), updated_at = CURRENT_TIMESTAMP
+         WHERE id = $2 AND workspace_id = $3
+         RETURNING *`,
+        [name || null, environmentId, workspaceId]
+      );
+
+      if (result.rows.length === 0) {
+        await client.query('ROLLBACK');
+        return res.status(404).json({ error: 'Environment not found' });
+      }
+
+      if (variables !== undefined) {
+        const rejection = await replaceEnvironmentVariables(client, result.rows[0].id, workspaceId, variables);
+        if (rejection) {
+          await client.query('ROLLBACK');
+          return variablesRejected(res, rejection);
+        }
+      }
+
+      await client.query('COMMIT');
+
+      res.status(200).json({
+        message: 'Environment updated successfully',
+        environment: { ...result.rows[0], variables: await listEnvironmentVariables(result.rows[0].id) }
+      });
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  } catch (error: any) {
+    if (error.code === '23505') {
+      return duplicateName(res, req.body.name);
+    }
+    console.error('Update environment error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/environments/{environmentId}/clone:
+ *   post:
+ *     summary: Copy an environment and its variables into a new environment
+ *     tags: [Environments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: environmentId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: ID of the environment to copy
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 description: Name of the copy; defaults to "<name> (copy)"
+ *     responses:
+ *       201:
+ *         description: Environment cloned
+ *       404:
+ *         description: Environment not found
+ *       409:
+ *         description: An environment with this name already exists
+ */
+router.post('/:environmentId/clone', async (req: Request, res: Response) => {
+  try {
+    const { environmentId } = req.params;
+    const workspaceId = req.user!.workspace_id;
+    const userId = req.user!.id;
+
+    const source = await loadEnvironment(environmentId, workspaceId);
+    if (!source) {
+      return res.status(404).json({ error: 'Environment not found' });
+    }
+
+    const name = req.body?.name || `${source.name} (copy)`;
+
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      const result = await client.query(
+        `INSERT INTO environments (name, workspace_id, created_by)
+         VALUES ($1, $2, $3)
+         RETURNING *`,
+        [name, workspaceId, userId]
+      );
+      const rejection = await replaceEnvironmentVariables(client, result.rows[0].id, workspaceId, source.variables, source.secrets);
+      if (rejection) {
+        await client.query('ROLLBACK');
+        return variablesRejected(res, rejection);
+      }
+
+      await client.query('COMMIT');
+
+      res.status(201).json({
+        message: 'Environment cloned successfully',
+        environment: { ...result.rows[0], variables: await listEnvironmentVariables(result.rows[0].id) }
+      });
+    } catch (error: any) {
+      await client.query('ROLLBACK');
+      if (error.code === '23505') {
+        return duplicateName(res, name);
+      }
+      throw error;
+    } finally {
+      client.release();
+    }
+  } catch (error) {
+    console.error('Clone environment error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/environments/{environmentId}:
+ *   delete:
+ *     summary: Delete an environment and its variables
+ *     tags: [Environments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: environmentId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Environment ID
+ *     responses:
+ *       200:
+ *         description: Environment deleted
+ *       404:
+ *         description: Environment not found
+ */
+router.delete('/:environmentId', async (req: Request, res: Response) => {
+  try {
+    const { environmentId } = req.params;
+    const workspaceId = req.user!.workspace_id;
+
+    const result = await pool.query(
+      'DELETE FROM environments WHERE id = $1 AND workspace_id = $2 RETURNING *',
+      [environmentId, workspaceId]
+    );
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({ error: 'Environment not found' });
+    }
+
+    res.status(200).json({
+      message: 'Environment deleted successfully',
+      environment: result.rows[0]
+    });
+  } catch (error) {
+    console.error('Delete environment error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -0,0 +1,459 @@
+import { Router, Request, Response } from 'express';
+import pool from '../config/database.js';
+import { authMiddleware } from '../middleware/auth.js';
+import { getNextRunAt, validateSchedule } from '../services/scheduler.js';
+
+// Mounted under /api/collections/:collectionId/monitors
+const router = Router({ mergeParams: true });
+
+// Apply auth middleware to all routes
+router.use(authMiddleware);
+
+const EXECUTION_MODES = ['sequential', 'parallel'];
+
+// Checks the monitor fields shared by create and update; returns an error message or null
+const validateMonitor = (monitor: Record<string, any>): string | null => {
+  if (!monitor.name) {
+    return 'Monitor name is required';
+  }
+  if (monitor.environment !== null && (typeof monitor.environment !== 'string' || monitor.environment.length > 255)) {
+    return 'environment must be a string of at most 255 characters';
+  }
+  if (monitor.environmentId !== null && (!Number.isInteger(monitor.environmentId) || monitor.environmentId < 1)) {
+    return 'environmentId must be a positive integer';
+  }
+  if (!EXECUTION_MODES.includes(monitor.executionMode)) {
+    return `executionMode must be one of ${EXECUTION_MODES.join(', ')}`;
+  }
+  if (!monitor.variables || typeof monitor.variables !== 'object' || Array.isArray(monitor.variables)) {
+    return 'variables must be an object';
+  }
+  if (!Number.isInteger(monitor.maxConsecutiveFailures) || monitor.maxConsecutiveFailures < 1) {
+    return 'maxConsecutiveFailures must be a positive integer';
+  }
+  return validateSchedule(monitor.cronExpression, monitor.timezone);
+};
+
+const verifyCollection = async (collectionId: string, workspaceId: number) => {
+  const collectionCheck = await pool.query(
+    'SELECT id FROM collections WHERE id = $1 AND workspace_id = $2',
+    [collectionId, workspaceId]
+  );
+  return collectionCheck.rows.length > 0;
+};
+
+const verifyEnvironment = async (environmentId: number | null, workspaceId: number) => {
+  if (environmentId === null) return true;
+  const environmentCheck = await pool.query(
+    'SELECT id FROM environments WHERE id = $1 AND workspace_id = $2',
+    [environmentId, workspaceId]
+  );
+  return environmentCheck.rows.length > 0;
+};
+
+/**
+ * @swagger
+ * tags:
+ *   name: Monitors
+ *   description: Scheduled collection runs
+ * components:
+ *   schemas:
+ *     MonitorInput:
+ *       type: object
+ *       properties:
+ *         name:
+ *           type: string
+ *         cronExpression:
+ *           type: string
+ *           description: Standard cron expression; at most one run per minute
+ *           example: "0 9 * * 1-5"
+ *         timezone:
+ *           type: string
+ *           default: UTC
+ *         environmentId:
+ *           type: integer
+ *           nullable: true
+ *           description: Stored environment whose variables each run uses
+ *         environment:
+ *           type: string
+ *           nullable: true
+ *           description: Label recorded in run history; defaults to the stored environment's name
+ *         variables:
+ *           type: object
+ *           additionalProperties: true
+ *           description: Override the environment's variables
+ *         executionMode:
+ *           type: string
+ *           enum: [sequential, parallel]
+ *           default: sequential
+ *         maxConsecutiveFailures:
+ *           type: integer
+ *           default: 3
+ *           description: The monitor pauses itself after this many failed runs in a row
+ *         enabled:
+ *           type: boolean
+ *           default: true
+ *           description: Re-enabling a paused monitor resets its failure count
+ */
+
+/**
+ * @swagger
+ * /api/collections/{collectionId}/monitors:
+ *   get:
+ *     summary: Get all monitors of a collection
+ *     tags: [Monitors]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: collectionId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Collection ID
+ *     responses:
+ *       200:
+ *         description: List of monitors with their last and next run times
+ *       404:
+ *         description: Collection not found
+ */
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const { collectionId } = req.params;
+    const workspaceId = req.user!.workspace_id;
+
+    if (!await verifyCollection(collectionId, workspaceId)) {
+      return res.status(404).json({ error: 'Collection not found' });
+    }
+
+    const result = await pool.query(
+      'SELECT * FROM monitors WHERE collection_id = $1 ORDER BY created_at ASC',
+      [collectionId]
+    );
+
+    res.status(200).json({
+      monitors: result.rows
+    });
+  } catch (error) {
+    console.error('Get monitors error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/collections/{collectionId}/monitors/{monitorId}:
+ *   get:
+ *     summary: Get a single monitor
+ *     tags: [Monitors]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: collectionId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Collection ID
+ *       - in: path
+ *         name: monitorId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Monitor ID
+ *     responses:
+ *       200:
+ *         description: Monitor details
+ *       404:
+ *         description: Monitor not found
+ */
+router.get('/:monitorId', async (req: Request, res: Response) => {
+  try {
+    const { collectionId, monitorId } = req.params;
+    const workspaceId = req.user!.workspace_id;
+
+    const result = await pool.query(
+      'SELECT * FROM monitors WHERE id = $1 AND collection_id = $2 AND workspace_id = $3',
+      [monitorId, collectionId, workspaceId]
+    );
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({ error: 'Monitor not found' });
+    }
+
+    res.status(200).json({
+      monitor: result.rows[0]
+    });
+  } catch (error) {
+    console.error('Get monitor error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/collections/{collectionId}/monitors:
+ *   post:
+ *     summary: Create a monitor that runs the collection on a schedule
+ *     tags: [Monitors]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: collectionId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Collection ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             allOf:
+ *               - $ref: '#/components/schemas/MonitorInput'
+ *               - required: [name, cronExpression]
+ *     responses:
+ *       201:
+ *         description: Monitor created
+ *       400:
+ *         description: Invalid monitor
+ *       404:
+ *         description: Collection or environment not found
+ */
+router.post('/', async (req: Request, res: Response) => {
+  try {
+    const { collectionId } = req.params;
+    const workspaceId = req.user!.workspace_id;
+    const userId = req.user!.id;
+
+    const monitor = {
+      name: req.body.name,
+      cronExpression: req.body.cronExpression,
+      timezone: req.body.timezone ?? 'UTC',
+      environment: req.body.environment ?? null,
+      environmentId: req.body.environmentId ?? null,
+      variables: req.body.variables ?? {},
+      executionMode: req.body.executionMode ?? 'sequential',
+      maxConsecutiveFailures: req.body.maxConsecutiveFailures ?? 3,
+      enabled: req.body.enabled ?? true,
+    };
+
+    const validationError = validateMonitor(monitor);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    if (!await verifyCollection(collectionId, workspaceId)) {
+      return res.status(404).json({ error: 'Collection not found' });
+    }
+
+    if (!await verifyEnvironment(monitor.environmentId, workspaceId)) {
+      return res.status(404).json({ error: 'Environment not found' });
+    }
+
+    const nextRunAt = monitor.enabled ? getNextRunAt(monitor.cronExpression, monitor.timezone) : null;
+
+    const result = await pool.query(
+      `INSERT INTO monitors
+         (name, collection_id, workspace_id, cron_expression, timezone, environment, environment_id, variables,
+          execution_mode, max_consecutive_failures, enabled, next_run_at, created_by)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
+       RETURNING *`,
+      [
+        monitor.name,
+        collectionId,
+        workspaceId,
+        monitor.cronExpression,
+        monitor.timezone,
+        monitor.environment,
+        monitor.environmentId,
+        monitor.variables,
+        monitor.executionMode,
+        monitor.maxConsecutiveFailures,
+        monitor.enabled,
+        nextRunAt,
+        userId
+      ]
+    );
+
+    res.status(201).json({
+      message: 'Monitor created successfully',
+      monitor: result.rows[0]
+    });
+  } catch (error) {
+    console.error('Create monitor error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/collections/{collectionId}/monitors/{monitorId}:
+ *   put:
+ *     summary: Update a monitor
+ *     tags: [Monitors]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: collectionId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Collection ID
+ *       - in: path
+ *         name: monitorId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Monitor ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/MonitorInput'
+ *     responses:
+ *       200:
+ *         description: Monitor updated; the next run time is recalculated
+ *       400:
+ *         description: Invalid monitor
+ *       404:
+ *         description: Monitor or environment not found
+ */
+router.put('/:monitorId', async (req: Request, res: Response) => {
+  try {
+    const { collectionId, monitorId } = req.params;
+    const workspaceId = req.user!.workspace_id;
+
+    const existingResult = await pool.query(
+      'SELECT * FROM monitors WHERE id = $1 AND collection_id = $2 AND workspace_id = $3',
+      [monitorId, collectionId, workspaceId]
+    );
+
+    if (existingResult.rows.length === 0) {
+      return res.status(404).json({ error: 'Monitor not found' });
+    }
+
+    const existing = existingResult.rows[0];
+    const monitor = {
+      name: req.body.name ?? existing.name,
+      cronExpression: req.body.cronExpression ?? existing.cron_expression,
+      timezone: req.body.timezone ?? existing.timezone,
+      environment: req.body.environment !== undefined ? req.body.environment : existing.environment,
+      environmentId: req.body.environmentId !== undefined ? req.body.environmentId : existing.environment_id,
+      variables: req.body.variables ?? existing.variables,
+      executionMode: req.body.executionMode ?? existing.execution_mode,
+      maxConsecutiveFailures: req.body.maxConsecutiveFailures ?? existing.max_consecutive_failures,
+      enabled: req.body.enabled ?? existing.enabled,
+    };
+
+    const validationError = validateMonitor(monitor);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    if (!await verifyEnvironment(monitor.environmentId, workspaceId)) {
+      return res.status(404).json({ error: 'Environment not found' });
+    }
+
+    // Turning a monitor (back) on gives it a clean slate
+    const resuming = monitor.enabled && !existing.enabled;
+    const nextRunAt = monitor.enabled ? getNextRunAt(monitor.cronExpression, monitor.timezone) : null;
+
+    const result = await pool.query(
+      `UPDATE monitors SET
+         name = $1,
+         cron_expression = $2,
+         timezone = $3,
+         environment = $4,
+         environment_id = $5,
+         variables = $6,
+         execution_mode = $7,
+         max_consecutive_failures = $8,
+         enabled = $9,
+         next_run_at = $10,
+         consecutive_failures = CASE WHEN $11::boolean THEN 0 ELSE consecutive_failures END,
+         paused_reason = CASE WHEN $11::boolean THEN NULL ELSE paused_reason END,
+         updated_at = CURRENT_TIMESTAMP
+       WHERE id = $12
+       RETURNING *`,
+      [
+        monitor.name,
+        monitor.cronExpression,
+        monitor.timezone,
+        monitor.environment,
+        monitor.environmentId,
+        monitor.variables,
+        monitor.executionMode,
+        monitor.maxConsecutiveFailures,
+        monitor.enabled,
+        nextRunAt,
+        resuming,
+        monitorId
+      ]
+    );
+
+    res.status(200).json({
+      message: 'Monitor updated successfully',
+      monitor: result.rows[0]
+    });
+  } catch (error) {
+    console.error('Update monitor error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/collections/{collectionId}/monitors/{monitorId}:
+ *   delete:
+ *     summary: Delete a monitor
+ *     tags: [Monitors]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: collectionId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Collection ID
+ *       - in: path
+ *         name: monitorId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Monitor ID
+ *     responses:
+ *       200:
+ *         description: Monitor deleted
+ *       404:
+ *         description: Monitor not found
+ */
+router.delete('/:monitorId', async (req: Request, res: Response) => {
+  try {
+    const { collectionId, monitorId } = req.params;
+    const workspaceId = req.user!.workspace_id;
+
+    const result = await pool.query(
+      'DELETE FROM monitors WHERE id = $1 AND collection_id = $2 AND workspace_id = $3 RETURNING *',
+      [monitorId, collectionId, workspaceId]
+    );
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({ error: 'Monitor not found' });
+    }
+
+    res.status(200).json({
+      message: 'Monitor deleted successfully',
+      monitor: result.rows[0]
+    });
+  } catch (error) {
+    console.error('Delete monitor error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
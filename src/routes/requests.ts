@@ -1,17 +1,179 @@
 import { Router, Request, Response } from 'express';
 import pool from '../config/database.js';
 import { authMiddleware } from '../middleware/auth.js';
+import { validateExtractions } from '../services/extractor.js';
+import { validateAuth } from '../services/auth.js';
+import { validateBody } from '../services/requestBody.js';
+import { INTROSPECTION_QUERY, validateGraphqlQuery } from '../services/graphql.js';
+import { sendRequest } from '../services/collectionRunner.js';
+import { loadRunnableRequest } from '../services/runManager.js';
+import { loadEnvironment } from '../services/environments.js';
+import { loadVariableScopes, mergeScopes } from '../services/variableScopes.js';
+import { redactSecrets } from '../services/secrets.js';
+import { saveRequestHistory } from '../services/requestHistory.js';
+import { parseCurlCommand } from '../services/formats/curl.js';
+import { generateCodeSnippet, SNIPPET_LANGUAGES, SnippetLanguage } from '../services/codeSnippets.js';
 
 const router = Router();
 
 // Apply auth middleware to all routes
 router.use(authMiddleware);
 
+// Requests sent one at a time give up after this long unless the caller asks otherwise
+const SEND_TIMEOUT = 30000;
+
+const isPositiveInteger = (value: unknown) => Number.isInteger(value) && (value as number) > 0;
+
+const invalidGraphqlQuery = (res: Response, errors: string[]) =>
+  res.status(400).json({
+    error: 'Invalid GraphQL query',
+    message: errors.join('; ')
+  });
+
 /**
  * @swagger
  * tags:
  *   name: Requests
  *   description: Requests management
+ * components:
+ *   schemas:
+ *     ExtractionRules:
+ *       type: array
+ *       description: Values captured from the response into variables for later requests in a run
+ *       items:
+ *         type: object
+ *         required:
+ *           - variable
+ *           - source
+ *           - expression
+ *         properties:
+ *           variable:
+ *             type: string
+ *           source:
+ *             type: string
+ *             enum: [jsonpath, header, regex]
+ *           expression:
+ *             type: string
+ *             description: JSONPath into the body, header name, or regular expression over the body text
+ *           group:
+ *             type: integer
+ *             description: Capture group for regex rules
+ *       example:
+ *         - variable: authToken
+ *           source: jsonpath
+ *           expression: $.data.token
+ *     RequestBody:
+ *       description: >
+ *         The body to send; its shape depends on body_mode (json by default).
+ *         json takes any JSON value. raw takes an object with a content string and an
+ *         optional contentType (text/plain by default), e.g. application/xml or text/html.
+ *         urlencoded takes an array of key/value fields, and formdata the same with
+ *         file parts holding base64 data plus an optional filename and contentType.
+ *         binary takes an object with base64 data and an optional contentType.
+ *         graphql takes an object with a query document, optional variables and an
+ *         optional operationName; it is POSTed as JSON, or sent as query parameters
+ *         when the method is GET, and errors in the response count as failed assertions.
+ *         Fields can be switched off with disabled. Variables are substituted in every
+ *         mode but binary, and not in file contents.
+ *       example:
+ *         - key: name
+ *           value: "{{userName}}"
+ *         - key: avatar
+ *           type: file
+ *           filename: avatar.png
+ *           contentType: image/png
+ *           data: iVBORw0KGgo=
+ *     AuthConfig:
+ *       type: object
+ *       nullable: true
+ *       description: >
+ *         Authorization added when the request is sent. Requests without auth, or with type
+ *         inherit, use their collection's auth. String fields may reference {{variables}}.
+ *       required:
+ *         - type
+ *       properties:
+ *         type:
+ *           type: string
+ *           enum: [none, inherit, basic, bearer, apikey, oauth2, awsv4, hmac, digest]
+ *         username:
+ *           type: string
+ *           description: basic, digest, and oauth2 with the password grant
+ *         password:
+ *           type: string
+ *           description: basic, digest, and oauth2 with the password grant
+ *         token:
+ *           type: string
+ *           description: bearer
+ *         key:
+ *           type: string
+ *           description: apikey header or query parameter name
+ *         value:
+ *           type: string
+ *           description: apikey value
+ *         in:
+ *           type: string
+ *           enum: [header, query]
+ *           default: header
+ *         grantType:
+ *           type: string
+ *           enum: [client_credentials, password]
+ *         tokenUrl:
+ *           type: string
+ *         clientId:
+ *           type: string
+ *         clientSecret:
+ *           type: string
+ *         scope:
+ *           type: string
+ *         clientAuthentication:
+ *           type: string
+ *           enum: [header, body]
+ *           default: header
+ *         service:
+ *           type: string
+ *           description: awsv4 service name, e.g. execute-api or s3
+ *         region:
+ *           type: string
+ *           description: awsv4
+ *         accessKeyId:
+ *           type: string
+ *           description: awsv4, defaults to the AWS_ACCESS_KEY_ID variable
+ *         secretAccessKey:
+ *           type: string
+ *           description: awsv4, defaults to the AWS_SECRET_ACCESS_KEY variable
+ *         sessionToken:
+ *           type: string
+ *           description: awsv4, defaults to the AWS_SESSION_TOKEN variable
+ *         secret:
+ *           type: string
+ *           description: >
+ *             hmac shared secret. The signature covers the method, the path with its
+ *             query string, the timestamp when timestampHeader is set, and the body,
+ *             joined by newlines.
+ *         algorithm:
+ *           type: string
+ *           enum: [sha1, sha256, sha512]
+ *           default: sha256
+ *         encoding:
+ *           type: string
+ *           enum: [hex, base64]
+ *           default: hex
+ *         header:
+ *           type: string
+ *           default: X-Signature
+ *           description: hmac header carrying the signature
+ *         prefix:
+ *           type: string
+ *           description: hmac text put before the signature, e.g. "HMAC "
+ *         timestampHeader:
+ *           type: string
+ *           description: hmac header the signed Unix timestamp is sent in
+ *       example:
+ *         type: oauth2
+ *         grantType: client_credentials
+ *         tokenUrl: https://auth.example.com/oauth/token
+ *         clientId: "{{clientId}}"
+ *         clientSecret: "{{clientSecret}}"
  */
 
 /**
@@ -51,11 +213,11 @@ router.get('/collection/:collectionId', async (req: Request, res: Response) => {
     }
 
     const result = await pool.query(
-      `SELECT r.id, r.name, r.method, r.url, r.headers, r.body, r.params, r.collection_id, r.created_by, r.created_at, r.updated_at, r.pre_request_script, r.post_request_script, u.name as created_by_name
+      `SELECT r.id, r.name, r.method, r.url, r.headers, r.body, r.body_mode, r.params, r.folder, r.collection_id, r.created_by, r.created_at, r.updated_at, r.pre_request_script, r.post_request_script, r.extractions, r.auth, r.graphql_schema_fetched_at, r.source_ref, r.source_removed_at, u.name as created_by_name
        FROM requests r
        LEFT JOIN users u ON r.created_by = u.id
        WHERE r.collection_id = $1
-       ORDER BY r.created_at ASC`,
+       ORDER BY r.created_at ASC, r.id ASC`,
       [collectionId]
     );
 
@@ -95,7 +257,7 @@ router.get('/:id', async (req: Request, res: Response) => {
     const workspaceId = req.user!.workspace_id;
     
     const result = await pool.query(
-      `SELECT r.id, r.name, r.method, r.url, r.headers, r.body, r.params, r.collection_id, r.created_by, r.created_at, r.updated_at, r.pre_request_script, r.post_request_script, u.name as created_by_name
+      `SELECT r.id, r.name, r.method, r.url, r.headers, r.body, r.body_mode, r.params, r.folder, r.collection_id, r.created_by, r.created_at, r.updated_at, r.pre_request_script, r.post_request_script, r.extractions, r.auth, r.graphql_schema_fetched_at, r.source_ref, r.source_removed_at, u.name as created_by_name
        FROM requests r
        LEFT JOIN users u ON r.created_by = u.id
        LEFT JOIN collections c ON r.collection_id = c.id
@@ -145,22 +307,33 @@ router.get('/:id', async (req: Request, res: Response) => {
  *               headers:
  *                 type: object
  *               body:
- *                 type: object
+ *                 $ref: '#/components/schemas/RequestBody'
+ *               body_mode:
+ *                 type: string
+ *                 enum: [none, json, raw, urlencoded, formdata, binary, graphql]
  *               params:
  *                 type: object
  *               collection_id:
  *                 type: integer
+ *               folder:
+ *                 type: string
+ *                 nullable: true
+ *                 description: Folder path inside the collection, e.g. "Users / Admin"
+ *               extractions:
+ *                 $ref: '#/components/schemas/ExtractionRules'
+ *               auth:
+ *                 $ref: '#/components/schemas/AuthConfig'
  *     responses:
  *       201:
  *         description: Request created
  *       400:
- *         description: Required fields missing
+ *         description: Required fields missing, a body that does not fit the body mode, or a GraphQL syntax error
  *       404:
  *         description: Collection not found
  */
 router.post('/', async (req: Request, res: Response) => {
   try {
-    const { name, method, url, headers, body, params, collection_id } = req.body;
+    const { name, method, url, headers, body, body_mode = 'json', params, collection_id, folder, extractions, auth } = req.body;
     const workspaceId = req.user!.workspace_id;
     const userId = req.user!.id;
 
@@ -170,6 +343,34 @@ router.post('/', async (req: Request, res: Response) => {
       });
     }
 
+    if (extractions !== undefined) {
+      const extractionsError = validateExtractions(extractions);
+      if (extractionsError) {
+        return res.status(400).json({ error: extractionsError });
+      }
+    }
+
+    const authError = validateAuth(auth);
+    if (authError) {
+      return res.status(400).json({ error: authError });
+    }
+
+    if (folder !== undefined && folder !== null && typeof folder !== 'string') {
+      return res.status(400).json({ error: 'folder must be a string' });
+    }
+
+    const bodyError = validateBody(body_mode, body);
+    if (bodyError) {
+      return res.status(400).json({ error: bodyError });
+    }
+
+    if (body_mode === 'graphql' && body?.query) {
+      const queryErrors = validateGraphqlQuery(body.query);
+      if (queryErrors.length > 0) {
+        return invalidGraphqlQuery(res, queryErrors);
+      }
+    }
+
     // Verify collection belongs to user's workspace
     const collectionCheck = await pool.query(
       'SELECT id FROM collections WHERE id = $1 AND workspace_id = $2',
@@ -181,18 +382,22 @@ router.post('/', async (req: Request, res: Response) => {
     }
 
     const result = await pool.query(
-      `INSERT INTO requests (name, method, url, headers, body, params, collection_id, created_by)
-       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+      `INSERT INTO requests (name, method, url, headers, body, body_mode, params, collection_id, created_by, extractions, auth, folder)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
        RETURNING *`,
       [
         name, 
         method.toUpperCase(), 
         url, 
         headers || {}, 
-        body || {}, 
+        JSON.stringify(body ?? {}), 
+        body_mode,
         params || {}, 
         collection_id, 
-        userId
+        userId,
+        JSON.stringify(extractions || []),
+        auth || null,
+        folder || null
       ]
     );
 
@@ -206,6 +411,126 @@ router.post('/', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * @swagger
+ * /api/requests/import/curl:
+ *   post:
+ *     summary: Create a request from a cURL command
+ *     description: >
+ *       Parses a pasted cURL command: method, URL and query string, headers, -d and
+ *       --data-* bodies, --json, -F form fields and -u basic auth. JSON and urlencoded
+ *       data become json and urlencoded bodies. With a collection_id the request is
+ *       saved in that collection; without one it is only returned. Anything that could
+ *       not be carried over, such as data read from files, is listed in warnings.
+ *     tags: [Requests]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - command
+ *             properties:
+ *               command:
+ *                 type: string
+ *                 example: "curl -X POST https://api.example.com/users -H 'Content-Type: application/json' -d '{\"name\":\"Ada\"}'"
+ *               collection_id:
+ *                 type: integer
+ *                 description: Collection to save the request in
+ *               name:
+ *                 type: string
+ *                 description: Name instead of the method and path
+ *               folder:
+ *                 type: string
+ *                 nullable: true
+ *     responses:
+ *       200:
+ *         description: The parsed request, not saved, and warnings
+ *       201:
+ *         description: The saved request and warnings
+ *       400:
+ *         description: A command that cannot be parsed, or invalid fields
+ *       404:
+ *         description: Collection not found
+ */
+router.post('/import/curl', async (req: Request, res: Response) => {
+  try {
+    const { command, collection_id, name, folder } = req.body;
+    const workspaceId = req.user!.workspace_id;
+    const userId = req.user!.id;
+
+    if (typeof command !== 'string' || !command.trim()) {
+      return res.status(400).json({ error: 'command is required' });
+    }
+
+    if (name !== undefined && (typeof name !== 'string' || !name.trim() || name.length > 255)) {
+      return res.status(400).json({ error: 'name must be a non-empty string of at most 255 characters' });
+    }
+
+    if (folder !== undefined && folder !== null && typeof folder !== 'string') {
+      return res.status(400).json({ error: 'folder must be a string' });
+    }
+
+    let parsed;
+    try {
+      parsed = parseCurlCommand(command);
+    } catch (error: any) {
+      return res.status(400).json({
+        error: 'Invalid cURL command',
+        message: error.message
+      });
+    }
+    const { request, warnings } = parsed;
+    if (name) request.name = name;
+    request.folder = folder || null;
+
+    if (collection_id === undefined || collection_id === null) {
+      return res.status(200).json({ request, warnings });
+    }
+
+    // Verify collection belongs to user's workspace
+    const collectionCheck = await pool.query(
+      'SELECT id FROM collections WHERE id = $1 AND workspace_id = $2',
+      [collection_id, workspaceId]
+    );
+
+    if (collectionCheck.rows.length === 0) {
+      return res.status(404).json({ error: 'Collection not found' });
+    }
+
+    const result = await pool.query(
+      `INSERT INTO requests (name, method, url, headers, body, body_mode, params, collection_id, created_by, auth, folder)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+       RETURNING *`,
+      [
+        request.name,
+        request.method,
+        request.url,
+        request.headers,
+        JSON.stringify(request.body ?? {}),
+        request.body_mode,
+        request.params,
+        collection_id,
+        userId,
+        request.auth,
+        request.folder
+      ]
+    );
+
+    res.status(201).json({
+      message: 'Request created successfully',
+      request: result.rows[0],
+      warnings
+    });
+  } catch (error) {
+    console.error('Import cURL command error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 /**
  * @swagger
  * /api/requests/{id}:
@@ -237,29 +562,88 @@ router.post('/', async (req: Request, res: Response) => {
  *               headers:
  *                 type: object
  *               body:
- *                 type: object
+ *                 $ref: '#/components/schemas/RequestBody'
+ *               body_mode:
+ *                 type: string
+ *                 enum: [none, json, raw, urlencoded, formdata, binary, graphql]
  *               params:
  *                 type: object
  *               collection_id:
  *                 type: integer
+ *               folder:
+ *                 type: string
+ *                 nullable: true
+ *                 description: Folder path inside the collection, e.g. "Users / Admin"
+ *               extractions:
+ *                 $ref: '#/components/schemas/ExtractionRules'
+ *               auth:
+ *                 $ref: '#/components/schemas/AuthConfig'
  *     responses:
  *       200:
  *         description: Request updated
  *       400:
- *         description: At least one field to update is required
+ *         description: >
+ *           No field to update, a body that does not fit the body mode, or a GraphQL
+ *           query that fails validation
  *       404:
  *         description: Request or target collection not found
  */
 router.put('/:id', async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
-    const { name, method, url, headers, body, params, collection_id } = req.body;
+    const { name, method, url, headers, body, body_mode, params, collection_id, folder, extractions, auth } = req.body;
     const workspaceId = req.user!.workspace_id;
 
-    if (!name && !method && !url && headers === undefined && body === undefined && params === undefined && collection_id === undefined) {
+    if (!name && !method && !url && headers === undefined && body === undefined && body_mode === undefined && params === undefined && collection_id === undefined && folder === undefined && extractions === undefined && auth === undefined) {
       return res.status(400).json({ error: 'At least one field to update is required' });
     }
 
+    if (extractions !== undefined) {
+      const extractionsError = validateExtractions(extractions);
+      if (extractionsError) {
+        return res.status(400).json({ error: extractionsError });
+      }
+    }
+
+    const authError = validateAuth(auth);
+    if (authError) {
+      return res.status(400).json({ error: authError });
+    }
+
+    if (folder !== undefined && folder !== null && typeof folder !== 'string') {
+      return res.status(400).json({ error: 'folder must be a string' });
+    }
+
+    // The body has to fit the mode, so when only one of them changes the other is read back.
+    // GraphQL queries are also checked against the schema cached by introspection,
+    // unless the URL changes too, which drops the cached schema.
+    if (body !== undefined || body_mode !== undefined) {
+      const existingResult = await pool.query(
+        `SELECT r.body, r.body_mode, r.graphql_schema FROM requests r
+         JOIN collections c ON r.collection_id = c.id
+         WHERE r.id = $1 AND c.workspace_id = $2`,
+        [id, workspaceId]
+      );
+      if (existingResult.rows.length === 0) {
+        return res.status(404).json({ error: 'Request not found' });
+      }
+
+      const existing = existingResult.rows[0];
+      const mode = body_mode ?? existing.body_mode;
+      const currentBody = body ?? existing.body;
+      const bodyError = validateBody(mode, currentBody);
+      if (bodyError) {
+        return res.status(400).json({ error: bodyError });
+      }
+
+      if (mode === 'graphql' && currentBody?.query) {
+        const queryErrors = validateGraphqlQuery(currentBody.query, url ? null : existing.graphql_schema);
+        if (queryErrors.length > 0) {
+          return invalidGraphqlQuery(res, queryErrors);
+        }
+      }
+    }
+
     // If moving collections, verify the target collection belongs to the user's workspace
     if (collection_id) {
       const collectionCheck = await pool.query(
@@ -288,7 +672,8 @@ router.put('/:id', async (req: Request, res: Response) => {
     }
 
     if (url) {
-      query += `, url = $${paramCount}`;
+      // A schema fetched from the old URL says nothing about the new one
+      query += `, url = $${paramCount}, graphql_schema = NULL, graphql_schema_fetched_at = NULL`;
       values.push(url);
       paramCount++;
     }
@@ -301,7 +686,13 @@ router.put('/:id', async (req: Request, res: Response) => {
 
     if (body !== undefined) {
       query += `, body = $${paramCount}`;
-      values.push(body);
+      values.push(JSON.stringify(body ?? {}));
+      paramCount++;
+    }
+
+    if (body_mode !== undefined) {
+      query += `, body_mode = $${paramCount}`;
+      values.push(body_mode);
       paramCount++;
     }
 
@@ -317,6 +708,25 @@ router.put('/:id', async (req: Request, res: Response) => {
       paramCount++;
     }
 
+    if (folder !== undefined) {
+      query += `, folder = $${paramCount}`;
+      values.push(folder || null);
+      paramCount++;
+    }
+
+    if (extractions !== undefined) {
+      // Arrays must be serialized explicitly, pg would otherwise send them as Postgres arrays
+      query += `, extractions = $${paramCount}`;
+      values.push(JSON.stringify(extractions));
+      paramCount++;
+    }
+
+    if (auth !== undefined) {
+      query += `, auth = $${paramCount}`;
+      values.push(auth);
+      paramCount++;
+    }
+
     query += ` WHERE id = $${paramCount} AND collection_id IN (
       SELECT id FROM collections WHERE workspace_id = $${paramCount + 1}
     ) RETURNING *`;
@@ -408,6 +818,543 @@ router.post('/scripts', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * @swagger
+ * /api/requests/{id}/graphql/introspect:
+ *   post:
+ *     summary: Fetch and cache the GraphQL schema behind a request's URL
+ *     description: >
+ *       Sends an introspection query to the request's URL with its headers, params and
+ *       auth, caches the schema on the request, and validates the request's stored
+ *       query against it. Later saves of the query are validated against the cached schema.
+ *     tags: [Requests]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Request ID
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               environmentId:
+ *                 type: integer
+ *                 description: Environment whose variables are used to build the request
+ *     responses:
+ *       200:
+ *         description: >
+ *           The schema, when it was fetched, and the problems found in the stored query
+ *           (empty when it is valid or the request is not in graphql mode)
+ *       400:
+ *         description: environmentId is not a positive integer
+ *       404:
+ *         description: Request or environment not found
+ *       502:
+ *         description: The server could not be reached or did not answer the introspection query
+ */
+router.post('/:id/graphql/introspect', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { environmentId } = req.body || {};
+    const workspaceId = req.user!.workspace_id;
+
+    if (environmentId !== undefined && environmentId !== null && !isPositiveInteger(environmentId)) {
+      return res.status(400).json({ error: 'environmentId must be a positive integer' });
+    }
+
+    const request = await loadRunnableRequest(id, workspaceId);
+    if (!request) {
+      return res.status(404).json({ error: 'Request not found' });
+    }
+
+    const environment = environmentId ? await loadEnvironment(environmentId, workspaceId) : null;
+    if (environmentId && !environment) {
+      return res.status(404).json({ error: 'Environment not found' });
+    }
+
+    const { layers, secrets } = await loadVariableScopes(workspaceId, request.collection_id, environment);
+
+    // Introspection is always POSTed without the request's own body and scripts
+    const { result } = await sendRequest({
+      id: request.id,
+      name: request.name,
+      method: 'POST',
+      url: request.url,
+      headers: request.headers,
+      params: request.params,
+      body_mode: 'graphql',
+      body: { query: INTROSPECTION_QUERY },
+      auth: request.auth,
+    }, mergeScopes(layers), { timeout: SEND_TIMEOUT, secrets });
+
+    if (!result.response) {
+      return res.status(502).json({
+        error: 'Introspection request failed',
+        message: result.error
+      });
+    }
+
+    const schema = result.response.data?.data;
+    if (!schema?.__schema) {
+      const reasons = Array.isArray(result.response.data?.errors)
+        ? result.response.data.errors.map((error: any) => error?.message).filter(Boolean).join('; ')
+        : `status ${result.response.status}`;
+      return res.status(502).json({
+        error: 'The server did not return a GraphQL schema',
+        message: redactSecrets(reasons, secrets)
+      });
+    }
+
+    const updateResult = await pool.query(
+      `UPDATE requests SET graphql_schema = $1, graphql_schema_fetched_at = CURRENT_TIMESTAMP
+       WHERE id = $2
+       RETURNING graphql_schema_fetched_at`,
+      [JSON.stringify(schema), request.id]
+    );
+
+    const validationErrors = request.body_mode === 'graphql' && request.body?.query
+      ? validateGraphqlQuery(request.body.query, schema)
+      : [];
+
+    res.status(200).json({
+      message: 'Schema fetched successfully',
+      fetchedAt: updateResult.rows[0].graphql_schema_fetched_at,
+      validationErrors,
+      schema
+    });
+  } catch (error) {
+    console.error('Introspect GraphQL schema error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/requests/{id}/graphql/schema:
+ *   get:
+ *     summary: Get the GraphQL schema cached for a request
+ *     tags: [Requests]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Request ID
+ *     responses:
+ *       200:
+ *         description: The introspection result and when it was fetched
+ *       404:
+ *         description: Request not found, or no schema has been fetched for it
+ */
+router.get('/:id/graphql/schema', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const workspaceId = req.user!.workspace_id;
+
+    const result = await pool.query(
+      `SELECT r.graphql_schema, r.graphql_schema_fetched_at
+       FROM requests r
+       JOIN collections c ON r.collection_id = c.id
+       WHERE r.id = $1 AND c.workspace_id = $2`,
+      [id, workspaceId]
+    );
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({ error: 'Request not found' });
+    }
+
+    if (!result.rows[0].graphql_schema) {
+      return res.status(404).json({
+        error: 'No schema cached',
+        message: 'Fetch the schema with POST /api/requests/{id}/graphql/introspect first'
+      });
+    }
+
+    res.status(200).json({
+      fetchedAt: result.rows[0].graphql_schema_fetched_at,
+      schema: result.rows[0].graphql_schema
+    });
+  } catch (error) {
+    console.error('Get GraphQL schema error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/requests/{id}/send:
+ *   post:
+ *     summary: Send a single saved request
+ *     description: >
+ *       Sends the request the way a collection run would: variables are resolved from the
+ *       global, collection and environment scopes with the variables sent here on top, the
+ *       pre-request script runs first, then the request is sent with its body mode and auth,
+ *       and its extraction rules and post-request script run on the response. The outcome
+ *       is saved to the request's history.
+ *     tags: [Requests]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Request ID
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               environmentId:
+ *                 type: integer
+ *                 description: Stored environment to take variables from
+ *               variables:
+ *                 type: object
+ *                 description: Values that override the stored variables for this send
+ *               timeout:
+ *                 type: integer
+ *                 default: 30000
+ *                 description: Timeout in milliseconds
+ *     responses:
+ *       200:
+ *         description: >
+ *           The result, shaped like a run result, with the id of its history entry,
+ *           or a null historyId when it could not be saved. A request that got no
+ *           response has status failed and an error.
+ *       400:
+ *         description: Invalid variables, environmentId or timeout
+ *       404:
+ *         description: Request or environment not found
+ */
+router.post('/:id/send', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { environmentId, variables = {}, timeout = SEND_TIMEOUT } = req.body || {};
+    const workspaceId = req.user!.workspace_id;
+
+    if (!variables || typeof variables !== 'object' || Array.isArray(variables)) {
+      return res.status(400).json({ error: 'variables must be an object' });
+    }
+
+    if (environmentId !== undefined && environmentId !== null && !isPositiveInteger(environmentId)) {
+      return res.status(400).json({ error: 'environmentId must be a positive integer' });
+    }
+
+    if (!isPositiveInteger(timeout)) {
+      return res.status(400).json({ error: 'timeout must be a positive number of milliseconds' });
+    }
+
+    const request = await loadRunnableRequest(id, workspaceId);
+    if (!request) {
+      return res.status(404).json({ error: 'Request not found' });
+    }
+
+    const environment = environmentId ? await loadEnvironment(environmentId, workspaceId) : null;
+    if (environmentId && !environment) {
+      return res.status(404).json({ error: 'Environment not found' });
+    }
+
+    const { layers, secrets } = await loadVariableScopes(workspaceId, request.collection_id, environment);
+
+    // Stop waiting on the target when the client goes away
+    const controller = new AbortController();
+    res.on('close', () => {
+      if (!res.writableEnded) controller.abort();
+    });
+
+    const { result } = await sendRequest(request, { ...mergeScopes(layers), ...variables }, {
+      timeout,
+      secrets,
+      signal: controller.signal,
+    });
+
+    // The request has been sent by now, so a history that cannot be saved must not hide its result
+    let historyId: number | null = null;
+    try {
+      historyId = await saveRequestHistory(result, {
+        requestId: request.id,
+        workspaceId,
+        sentBy: req.user!.id,
+        environmentId: environmentId || null,
+      });
+    } catch (error) {
+      console.error('Save request history error:', error);
+    }
+
+    res.status(200).json({
+      historyId,
+      result
+    });
+  } catch (error) {
+    console.error('Send request error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/requests/{id}/history:
+ *   get:
+ *     summary: List the responses a request got when sent on its own, newest first
+ *     tags: [Requests]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Request ID
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *       - in: query
+ *         name: offset
+ *         schema:
+ *           type: integer
+ *           default: 0
+ *     responses:
+ *       200:
+ *         description: >
+ *           History entries without response headers and bodies; only the most
+ *           recent 50 entries of each request are kept
+ *       400:
+ *         description: limit or offset is not a non-negative integer
+ *       404:
+ *         description: Request not found
+ */
+router.get('/:id/history', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const workspaceId = req.user!.workspace_id;
+    const limit = req.query.limit === undefined ? 20 : Number(req.query.limit);
+    const offset = req.query.offset === undefined ? 0 : Number(req.query.offset);
+
+    if (!Number.isInteger(limit) || limit < 0 || !Number.isInteger(offset) || offset < 0) {
+      return res.status(400).json({ error: 'limit and offset must be non-negative integers' });
+    }
+
+    const requestCheck = await pool.query(
+      `SELECT r.id FROM requests r
+       JOIN collections c ON r.collection_id = c.id
+       WHERE r.id = $1 AND c.workspace_id = $2`,
+      [id, workspaceId]
+    );
+
+    if (requestCheck.rows.length === 0) {
+      return res.status(404).json({ error: 'Request not found' });
+    }
+
+    const result = await pool.query(
+      `SELECT h.id, h.request_id, h.environment_id, h.method, h.url, h.status, h.response_status, h.response_status_text,
+              h.response_size, h.error, h.duration, h.attempts, h.sent_at, h.sent_by, u.name as sent_by_name
+       FROM request_history h
+       LEFT JOIN users u ON h.sent_by = u.id
+       WHERE h.request_id = $1
+       ORDER BY h.sent_at DESC, h.id DESC
+       LIMIT $2 OFFSET $3`,
+      [id, Math.min(limit, 100), offset]
+    );
+
+    res.status(200).json({
+      history: result.rows
+    });
+  } catch (error) {
+    console.error('Get request history error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/requests/{id}/history/{historyId}:
+ *   get:
+ *     summary: Get a history entry with its full response
+ *     tags: [Requests]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Request ID
+ *       - in: path
+ *         name: historyId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: History entry ID
+ *     responses:
+ *       200:
+ *         description: The history entry, including response headers, body, assertions and warnings
+ *       404:
+ *         description: History entry not found
+ */
+router.get('/:id/history/:historyId', async (req: Request, res: Response) => {
+  try {
+    const { id, historyId } = req.params;
+    const workspaceId = req.user!.workspace_id;
+
+    const result = await pool.query(
+      `SELECT h.*, u.name as sent_by_name
+       FROM request_history h
+       LEFT JOIN users u ON h.sent_by = u.id
+       WHERE h.id = $1 AND h.request_id = $2 AND h.workspace_id = $3`,
+      [historyId, id, workspaceId]
+    );
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({ error: 'History entry not found' });
+    }
+
+    res.status(200).json({
+      entry: result.rows[0]
+    });
+  } catch (error) {
+    console.error('Get request history entry error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/requests/{id}/history:
+ *   delete:
+ *     summary: Clear a request's history
+ *     tags: [Requests]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Request ID
+ *     responses:
+ *       200:
+ *         description: Number of entries deleted
+ */
+router.delete('/:id/history', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const workspaceId = req.user!.workspace_id;
+
+    const result = await pool.query(
+      'DELETE FROM request_history WHERE request_id = $1 AND workspace_id = $2',
+      [id, workspaceId]
+    );
+
+    res.status(200).json({
+      message: 'Request history cleared successfully',
+      deleted: result.rowCount
+    });
+  } catch (error) {
+    console.error('Clear request history error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/requests/{id}/code:
+ *   get:
+ *     summary: Generate code that sends the request
+ *     description: >
+ *       Writes the request as a cURL command or as JavaScript fetch, Node axios, Python
+ *       requests or Go net/http code. With an environmentId, variables are resolved from
+ *       the global, collection and environment values, except secrets, which stay
+ *       placeholders like every variable does without one. Auth the language cannot do
+ *       on its own, such as request signing, is explained in a comment.
+ *     tags: [Requests]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Request ID
+ *       - in: query
+ *         name: lang
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [curl, fetch, axios, python, go]
+ *       - in: query
+ *         name: environmentId
+ *         schema:
+ *           type: integer
+ *         description: Environment to resolve variables against
+ *     responses:
+ *       200:
+ *         description: The snippet, and the variables left unresolved as warnings
+ *       400:
+ *         description: Unsupported language or invalid environmentId
+ *       404:
+ *         description: Request or environment not found
+ */
+router.get('/:id/code', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const lang = req.query.lang as SnippetLanguage;
+    const environmentId = req.query.environmentId !== undefined ? Number(req.query.environmentId) : null;
+    const workspaceId = req.user!.workspace_id;
+
+    if (!SNIPPET_LANGUAGES.includes(lang)) {
+      return res.status(400).json({ error: `lang must be one of ${SNIPPET_LANGUAGES.join(', ')}` });
+    }
+
+    if (environmentId !== null && !isPositiveInteger(environmentId)) {
+      return res.status(400).json({ error: 'environmentId must be a positive integer' });
+    }
+
+    const request = await loadRunnableRequest(id, workspaceId);
+    if (!request) {
+      return res.status(404).json({ error: 'Request not found' });
+    }
+
+    let variables: Record<string, any> | null = null;
+    if (environmentId) {
+      const environment = await loadEnvironment(environmentId, workspaceId);
+      if (!environment) {
+        return res.status(404).json({ error: 'Environment not found' });
+      }
+      const { layers, secrets } = await loadVariableScopes(workspaceId, request.collection_id, environment);
+      // Secrets are not written into code that ends up in bug reports
+      variables = Object.fromEntries(Object.entries(mergeScopes(layers)).filter(([, value]) => !secrets.includes(value)));
+    }
+
+    const { snippet, warnings } = generateCodeSnippet(request, lang, variables);
+
+    res.status(200).json({
+      lang,
+      snippet,
+      warnings
+    });
+  } catch (error) {
+    console.error('Generate code snippet error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 /**
  * @swagger
  * /api/requests/{id}:
@@ -0,0 +1,638 @@
+import { Router, Request, Response } from 'express';
+import { validate as isUuid } from 'uuid';
+import pool from '../config/database.js';
+import { authMiddleware } from '../middleware/auth.js';
+import { getActiveRun, cancelRun, subscribeToRun } from '../services/runManager.js';
+import { RunEvent } from '../services/collectionRunner.js';
+import {
+  REPORT_FORMATS,
+  ReportFormat,
+  RunReportInput,
+  buildJsonReport,
+  renderHtmlReport,
+  renderJUnitReport,
+} from '../services/runReport.js';
+
+const router = Router();
+
+// Apply auth middleware to all routes
+router.use(authMiddleware);
+
+/**
+ * @swagger
+ * tags:
+ *   name: Runs
+ *   description: Collection run history
+ */
+
+/**
+ * @swagger
+ * /api/runs/collection/{collectionId}:
+ *   get:
+ *     summary: List the runs of a collection, newest first
+ *     tags: [Runs]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: collectionId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Collection ID
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *       - in: query
+ *         name: offset
+ *         schema:
+ *           type: integer
+ *           default: 0
+ *     responses:
+ *       200:
+ *         description: List of runs without their per-request results
+ *       400:
+ *         description: limit or offset is not a non-negative integer
+ *       404:
+ *         description: Collection not found
+ */
+router.get('/collection/:collectionId', async (req: Request, res: Response) => {
+  try {
+    const { collectionId } = req.params;
+    const workspaceId = req.user!.workspace_id;
+    const limit = req.query.limit === undefined ? 20 : Number(req.query.limit);
+    const offset = req.query.offset === undefined ? 0 : Number(req.query.offset);
+
+    if (!Number.isInteger(limit) || limit < 0 || !Number.isInteger(offset) || offset < 0) {
+      return res.status(400).json({ error: 'limit and offset must be non-negative integers' });
+    }
+
+    // Verify collection belongs to user's workspace
+    const collectionCheck = await pool.query(
+      'SELECT id FROM collections WHERE id = $1 AND workspace_id = $2',
+      [collectionId, workspaceId]
+    );
+
+    if (collectionCheck.rows.length === 0) {
+      return res.status(404).json({ error: 'Collection not found' });
+    }
+
+    const result = await pool.query(
+      `SELECT cr.id, cr.collection_id, cr.environment, cr.environment_id, cr.execution_mode, cr.status, cr.summary,
+              cr.started_at, cr.finished_at, cr.triggered_by, u.name as triggered_by_name
+       FROM collection_runs cr
+       LEFT JOIN users u ON cr.triggered_by = u.id
+       WHERE cr.collection_id = $1
+       ORDER BY cr.started_at DESC
+       LIMIT $2 OFFSET $3`,
+      [collectionId, Math.min(limit, 100), offset]
+    );
+
+    res.status(200).json({
+      runs: result.rows
+    });
+  } catch (error) {
+    console.error('Get runs error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/runs/collection/{collectionId}:
+ *   delete:
+ *     summary: Delete old runs of a collection
+ *     description: Runs that are still in progress are never deleted.
+ *     tags: [Runs]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: collectionId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Collection ID
+ *       - in: query
+ *         name: before
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Delete runs started before this time
+ *       - in: query
+ *         name: keep
+ *         schema:
+ *           type: integer
+ *         description: Keep only this many of the most recent runs
+ *     responses:
+ *       200:
+ *         description: Number of runs deleted
+ *       400:
+ *         description: Either before or keep is required
+ *       404:
+ *         description: Collection not found
+ */
+router.delete('/collection/:collectionId', async (req: Request, res: Response) => {
+  try {
+    const { collectionId } = req.params;
+    const { before, keep } = req.query;
+    const workspaceId = req.user!.workspace_id;
+
+    const beforeDate = before ? new Date(String(before)) : null;
+    const keepCount = keep !== undefined ? Number(keep) : null;
+
+    if ((!beforeDate && keepCount === null)
+      || (beforeDate && isNaN(beforeDate.getTime()))
+      || (keepCount !== null && (!Number.isInteger(keepCount) || keepCount < 0))) {
+      return res.status(400).json({ error: 'A valid before date or keep count is required' });
+    }
+
+    const collectionCheck = await pool.query(
+      'SELECT id FROM collections WHERE id = $1 AND workspace_id = $2',
+      [collectionId, workspaceId]
+    );
+
+    if (collectionCheck.rows.length === 0) {
+      return res.status(404).json({ error: 'Collection not found' });
+    }
+
+    // Runs still in progress are left alone; their runner writes the result when it finishes
+    let query = `DELETE FROM collection_runs WHERE collection_id = $1 AND status <> 'running'`;
+    const values: any[] = [collectionId];
+    let paramCount = 2;
+
+    if (beforeDate) {
+      query += ` AND started_at < $${paramCount}`;
+      values.push(beforeDate.toISOString());
+      paramCount++;
+    }
+
+    if (keepCount !== null) {
+      query += ` AND id NOT IN (
+        SELECT id FROM collection_runs WHERE collection_id = $1 ORDER BY started_at DESC LIMIT $${paramCount}
+      )`;
+      values.push(keepCount);
+      paramCount++;
+    }
+
+    const result = await pool.query(query, values);
+
+    res.status(200).json({
+      message: 'Runs deleted successfully',
+      deleted: result.rowCount
+    });
+  } catch (error) {
+    console.error('Delete runs error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/runs/{runId}:
+ *   get:
+ *     summary: Get a single run with its per-request results
+ *     tags: [Runs]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: runId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Run ID
+ *     responses:
+ *       200:
+ *         description: Run details
+ *       404:
+ *         description: Run not found
+ */
+router.get('/:runId', async (req: Request, res: Response) => {
+  try {
+    const { runId } = req.params;
+    const workspaceId = req.user!.workspace_id;
+
+    if (!isUuid(runId)) {
+      return res.status(404).json({ error: 'Run not found' });
+    }
+
+    const result = await pool.query(
+      `SELECT cr.*, u.name as triggered_by_name
+       FROM collection_runs cr
+       LEFT JOIN users u ON cr.triggered_by = u.id
+       WHERE cr.id = $1 AND cr.workspace_id = $2`,
+      [runId, workspaceId]
+    );
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({ error: 'Run not found' });
+    }
+
+    res.status(200).json({
+      run: result.rows[0]
+    });
+  } catch (error) {
+    console.error('Get run error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/runs/{runId}/report:
+ *   get:
+ *     summary: Export a finished run as a report
+ *     tags: [Runs]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: runId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Run ID
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [junit, json, html]
+ *           default: json
+ *         description: JUnit XML (requests as test cases, failed assertions as failures), versioned JSON, or a standalone HTML page
+ *     responses:
+ *       200:
+ *         description: The report
+ *         content:
+ *           application/xml:
+ *             schema:
+ *               type: string
+ *           application/json:
+ *             schema:
+ *               type: object
+ *           text/html:
+ *             schema:
+ *               type: string
+ *       400:
+ *         description: Unknown report format
+ *       404:
+ *         description: Run not found
+ *       409:
+ *         description: Run is still in progress
+ */
+router.get('/:runId/report', async (req: Request, res: Response) => {
+  try {
+    const { runId } = req.params;
+    const workspaceId = req.user!.workspace_id;
+    const format = String(req.query.format || 'json') as ReportFormat;
+
+    if (!REPORT_FORMATS.includes(format)) {
+      return res.status(400).json({ error: `format must be one of ${REPORT_FORMATS.join(', ')}` });
+    }
+
+    if (!isUuid(runId)) {
+      return res.status(404).json({ error: 'Run not found' });
+    }
+
+    const result = await pool.query(
+      `SELECT cr.*, c.name as collection_name
+       FROM collection_runs cr
+       JOIN collections c ON cr.collection_id = c.id
+       WHERE cr.id = $1 AND cr.workspace_id = $2`,
+      [runId, workspaceId]
+    );
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({ error: 'Run not found' });
+    }
+
+    const row = result.rows[0];
+    if (row.status === 'running') {
+      return res.status(409).json({ error: 'Run is still in progress' });
+    }
+
+    const input: RunReportInput = {
+      run: {
+        runId: row.id,
+        status: row.status,
+        results: row.results,
+        iterations: row.iterations || [],
+        summary: row.summary,
+        startedAt: new Date(row.started_at).toISOString(),
+        finishedAt: row.finished_at ? new Date(row.finished_at).toISOString() : undefined,
+      },
+      collection: { id: row.collection_id, name: row.collection_name },
+      environment: row.environment,
+    };
+
+    if (format === 'junit') {
+      return res.status(200).type('application/xml').send(renderJUnitReport(input));
+    }
+    if (format === 'html') {
+      return res.status(200).type('text/html').send(renderHtmlReport(input));
+    }
+    res.status(200).json(buildJsonReport(input));
+  } catch (error) {
+    console.error('Get run report error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/runs/{runId}/status:
+ *   get:
+ *     summary: Get the status and progress of a run
+ *     tags: [Runs]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: runId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Run ID
+ *     responses:
+ *       200:
+ *         description: Run status; progress counts requests finished so far
+ *       404:
+ *         description: Run not found
+ */
+router.get('/:runId/status', async (req: Request, res: Response) => {
+  try {
+    const { runId } = req.params;
+    const workspaceId = req.user!.workspace_id;
+
+    const activeRun = getActiveRun(runId, workspaceId);
+    if (activeRun) {
+      return res.status(200).json({
+        runId,
+        status: activeRun.controller.signal.aborted ? 'cancelling' : 'running',
+        progress: {
+          completed: activeRun.results.length,
+          total: activeRun.total,
+        },
+        startedAt: activeRun.startedAt,
+      });
+    }
+
+    if (!isUuid(runId)) {
+      return res.status(404).json({ error: 'Run not found' });
+    }
+
+    const result = await pool.query(
+      `SELECT id, status, summary, started_at, finished_at
+       FROM collection_runs
+       WHERE id = $1 AND workspace_id = $2`,
+      [runId, workspaceId]
+    );
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({ error: 'Run not found' });
+    }
+
+    const run = result.rows[0];
+    res.status(200).json({
+      runId: run.id,
+      status: run.status,
+      progress: {
+        completed: (run.summary.completed || 0) + (run.summary.failed || 0),
+        total: run.summary.total || 0,
+      },
+      summary: run.summary,
+      startedAt: run.started_at,
+      finishedAt: run.finished_at,
+    });
+  } catch (error) {
+    console.error('Get run status error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/runs/{runId}/events:
+ *   get:
+ *     summary: Stream a run's progress as Server-Sent Events
+ *     description: |
+ *       Emits run:start, request:start, request:finish (with the RequestResult, including
+ *       status, duration and assertions) and run:finish (with the RunSummary), then closes.
+ *       Events already emitted are replayed on connect. For a run that has already
+ *       finished, only run:finish is sent.
+ *     tags: [Runs]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: runId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Run ID
+ *     responses:
+ *       200:
+ *         description: Event stream
+ *         content:
+ *           text/event-stream:
+ *             schema:
+ *               type: string
+ *       404:
+ *         description: Run not found
+ */
+router.get('/:runId/events', async (req: Request, res: Response) => {
+  try {
+    const { runId } = req.params;
+    const workspaceId = req.user!.workspace_id;
+
+    const openStream = () => {
+      res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive',
+      });
+    };
+    const send = (event: RunEvent) => {
+      res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+    };
+
+    if (getActiveRun(runId, workspaceId)) {
+      openStream();
+
+      // Comment lines keep proxies from closing an idle stream between slow requests
+      const heartbeat = setInterval(() => res.write(': keep-alive\n\n'), 15000);
+      let unsubscribe: (() => void) | undefined;
+      const close = () => {
+        clearInterval(heartbeat);
+        unsubscribe?.();
+        res.end();
+      };
+
+      unsubscribe = subscribeToRun(runId, workspaceId, event => {
+        send(event);
+        if (event.type === 'run:finish') {
+          // Defer so the replay loop in subscribeToRun is not interrupted
+          setImmediate(close);
+        }
+      });
+      req.on('close', close);
+      return;
+    }
+
+    if (!isUuid(runId)) {
+      return res.status(404).json({ error: 'Run not found' });
+    }
+
+    const result = await pool.query(
+      'SELECT id, status, summary, finished_at FROM collection_runs WHERE id = $1 AND workspace_id = $2',
+      [runId, workspaceId]
+    );
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({ error: 'Run not found' });
+    }
+
+    const run = result.rows[0];
+    openStream();
+    send({
+      type: 'run:finish',
+      runId: run.id,
+      status: run.status,
+      summary: run.summary,
+      finishedAt: run.finished_at,
+    });
+    res.end();
+  } catch (error) {
+    console.error('Stream run events error:', error);
+    if (res.headersSent) {
+      res.end();
+    } else {
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+});
+
+/**
+ * @swagger
+ * /api/runs/{runId}/cancel:
+ *   post:
+ *     summary: Cancel a run in progress
+ *     description: Requests in flight are aborted and the remaining requests are not sent.
+ *     tags: [Runs]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: runId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Run ID
+ *     responses:
+ *       202:
+ *         description: Cancellation requested
+ *       404:
+ *         description: Run not found
+ *       409:
+ *         description: Run is not in progress
+ */
+router.post('/:runId/cancel', async (req: Request, res: Response) => {
+  try {
+    const { runId } = req.params;
+    const workspaceId = req.user!.workspace_id;
+
+    if (cancelRun(runId, workspaceId)) {
+      return res.status(202).json({
+        message: 'Run cancellation requested',
+        runId
+      });
+    }
+
+    if (!isUuid(runId)) {
+      return res.status(404).json({ error: 'Run not found' });
+    }
+
+    const result = await pool.query(
+      'SELECT id, status FROM collection_runs WHERE id = $1 AND workspace_id = $2',
+      [runId, workspaceId]
+    );
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({ error: 'Run not found' });
+    }
+
+    res.status(409).json({
+      error: 'Run is not in progress',
+      status: result.rows[0].status
+    });
+  } catch (error) {
+    console.error('Cancel run error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/runs/{runId}:
+ *   delete:
+ *     summary: Delete a run
+ *     tags: [Runs]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: runId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Run ID
+ *     responses:
+ *       200:
+ *         description: Run deleted
+ *       404:
+ *         description: Run not found
+ *       409:
+ *         description: Run is still in progress
+ */
+router.delete('/:runId', async (req: Request, res: Response) => {
+  try {
+    const { runId } = req.params;
+    const workspaceId = req.user!.workspace_id;
+
+    if (!isUuid(runId)) {
+      return res.status(404).json({ error: 'Run not found' });
+    }
+
+    // The run saves itself to history when it finishes, which would bring the row back
+    if (getActiveRun(runId, workspaceId)) {
+      return res.status(409).json({ error: 'Run is still in progress' });
+    }
+
+    const result = await pool.query(
+      'DELETE FROM collection_runs WHERE id = $1 AND workspace_id = $2 RETURNING id',
+      [runId, workspaceId]
+    );
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({ error: 'Run not found' });
+    }
+
+    res.status(200).json({
+      message: 'Run deleted successfully',
+      run: result.rows[0]
+    });
+  } catch (error) {
+    console.error('Delete run error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
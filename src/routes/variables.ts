@@ -1,17 +1,36 @@
 import { Router, Request, Response } from 'express';
 import pool from '../config/database.js';
 import { authMiddleware } from '../middleware/auth.js';
+import { loadEnvironment } from '../services/environments.js';
+import { SCOPE_PRECEDENCE, loadVariableScopes, resolveScopes } from '../services/variableScopes.js';
+import { MASKED_VALUE, encryptSecret, maskVariable, readVariableValue, secretsConfigured } from '../services/secrets.js';
 
 const router = Router();
 
 // Apply auth middleware to all routes
 router.use(authMiddleware);
 
+const secretsUnavailable = (res: Response) =>
+  res.status(503).json({
+    error: 'Secret variables are not available',
+    message: 'Set SECRETS_ENCRYPTION_KEY on the server to store secret variables'
+  });
+
+const maskedRejected = (res: Response, key: string) =>
+  res.status(400).json({
+    error: `Variable '${key}' has no secret value to keep`,
+    message: `Send ${MASKED_VALUE} only for variables that are already secret`
+  });
+
 /**
  * @swagger
  * tags:
  *   name: Variables
- *   description: Workspace variables management
+ *   description: >
+ *     Workspace and collection variables management. Runs resolve variables from
+ *     the lowest to the highest precedence scope: global (workspace), collection,
+ *     environment, data row, and local values set while the run is in progress.
+ *     Secret variables are encrypted at rest, masked in responses and redacted from run output.
  */
 
 /**
@@ -28,19 +47,26 @@ router.use(authMiddleware);
  *         schema:
  *           type: string
  *         description: Filter by variable scope
+ *       - in: query
+ *         name: collectionId
+ *         schema:
+ *           type: integer
+ *         description: Only the variables stored against this collection
  *     responses:
  *       200:
- *         description: List of variables
+ *         description: >
+ *           List of variables with secret values masked; environment variables are
+ *           listed under /api/environments
  */
 router.get('/', async (req: Request, res: Response) => {
   try {
-    const { scope } = req.query;
+    const { scope, collectionId } = req.query;
     const workspaceId = req.user!.workspace_id;
     
     let query = `
-      SELECT id, variable_key, value, scope, workspace_id, created_at, updated_at
+      SELECT id, variable_key, value, is_secret, scope, workspace_id, collection_id, created_at, updated_at
       FROM variables
-      WHERE workspace_id = $1
+      WHERE workspace_id = $1 AND environment_id IS NULL
     `;
     const values: any[] = [workspaceId];
     let paramCount = 2;
@@ -48,11 +74,18 @@ router.get('/', async (req: Request, res: Response) => {
     if (scope) {
       query += ` AND scope = $${paramCount}`;
       values.push(scope);
+      paramCount++;
+    }
+
+    if (collectionId) {
+      query += ` AND collection_id = $${paramCount}`;
+      values.push(collectionId);
+      paramCount++;
     }
 
     const result = await pool.query(query, values);
     res.status(200).json({
-      variables: result.rows
+      variables: result.rows.map(maskVariable)
     });
   } catch (error) {
     console.error('Get variables error:', error);
@@ -60,6 +93,66 @@ router.get('/', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * @swagger
+ * /api/variables/resolved:
+ *   get:
+ *     summary: Show the effective value of each stored variable for a collection and environment
+ *     tags: [Variables]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: collectionId
+ *         schema:
+ *           type: integer
+ *         description: Include the collection's variables
+ *       - in: query
+ *         name: environmentId
+ *         schema:
+ *           type: integer
+ *         description: Include the environment's variables
+ *     responses:
+ *       200:
+ *         description: >
+ *           Each variable with its effective value, the scope it comes from and the
+ *           values it overrides in lower scopes; secret values are masked
+ *       404:
+ *         description: Collection or environment not found
+ */
+router.get('/resolved', async (req: Request, res: Response) => {
+  try {
+    const { collectionId, environmentId } = req.query;
+    const workspaceId = req.user!.workspace_id;
+
+    if (collectionId) {
+      const collectionCheck = await pool.query(
+        'SELECT id FROM collections WHERE id = $1 AND workspace_id = $2',
+        [collectionId, workspaceId]
+      );
+
+      if (collectionCheck.rows.length === 0) {
+        return res.status(404).json({ error: 'Collection not found' });
+      }
+    }
+
+    const environment = environmentId ? await loadEnvironment(environmentId as string, workspaceId) : null;
+    if (environmentId && !environment) {
+      return res.status(404).json({ error: 'Environment not found' });
+    }
+
+    const { layers, secrets } = await loadVariableScopes(workspaceId, (collectionId as string) || null, environment);
+
+    res.status(200).json({
+      precedence: SCOPE_PRECEDENCE,
+      variables: resolveScopes(layers, secrets)
+    });
+  } catch (error) {
+    console.error('Resolve variables error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 /**
  * @swagger
  * /api/variables:
@@ -85,33 +178,77 @@ router.get('/', async (req: Request, res: Response) => {
  *               scope:
  *                 type: string
  *                 default: workspace
+ *                 description: workspace for global variables, collection for collection variables
+ *               collectionId:
+ *                 type: integer
+ *                 description: Store the variable against this collection; implies the collection scope
+ *               secret:
+ *                 type: boolean
+ *                 default: false
+ *                 description: Encrypt the value at rest and mask it in responses and run output
  *     responses:
  *       201:
  *         description: Variable created
  *       400:
- *         description: Key and value are required
+ *         description: Key and value are required, or the masked value was sent as a new value
+ *       404:
+ *         description: Collection not found
  *       409:
  *         description: Variable already exists
+ *       503:
+ *         description: A secret was sent but no encryption key is configured
  */
 router.post('/', async (req: Request, res: Response) => {
   try {
-    const { key, value, scope = 'workspace' } = req.body;
+    const { key, value, collectionId, secret = false } = req.body;
+    const scope = collectionId ? 'collection' : req.body.scope || 'workspace';
     const workspaceId = req.user!.workspace_id;
 
     if (!key || !value) {
       return res.status(400).json({ error: 'Key and value are required' });
     }
 
+    if (scope === 'collection' && !collectionId) {
+      return res.status(400).json({ error: 'collectionId is required for collection variables' });
+    }
+
+    if (scope === 'environment') {
+      return res.status(400).json({ error: 'Environment variables are managed through /api/environments' });
+    }
+
+    if (typeof secret !== 'boolean') {
+      return res.status(400).json({ error: 'secret must be a boolean' });
+    }
+
+    if (value === MASKED_VALUE) {
+      return maskedRejected(res, key);
+    }
+
+    if (secret && !secretsConfigured()) {
+      return secretsUnavailable(res);
+    }
+
+    if (collectionId) {
+      const collectionCheck = await pool.query(
+        'SELECT id FROM collections WHERE id = $1 AND workspace_id = $2',
+        [collectionId, workspaceId]
+      );
+
+      if (collectionCheck.rows.length === 0) {
+        return res.status(404).json({ error: 'Collection not found' });
+      }
+    }
+
     const result = await pool.query(
-      `INSERT INTO variables (variable_key, value, scope, workspace_id)
-       VALUES ($1, $2, $3, $4)
+      `INSERT INTO variables (variable_key, value, scope, workspace_id, collection_id, is_secret)
+       VALUES ($1, $2, $3, $4, $5, $6)
        RETURNING *`,
-      [key, value, scope, workspaceId]
+      [key, secret ? encryptSecret(String(value)) : value, scope, workspaceId, collectionId || null, secret]
     );
 
     res.status(201).json({
       message: 'Variable created successfully',
-      variable: result.rows[0]
+      variable: maskVariable(result.rows[0])
     });
   } catch (error: any) {
     console.error('Create variable error:', error);
@@ -153,24 +290,33 @@ router.post('/', async (req: Request, res: Response) => {
  *                 type: string
  *               scope:
  *                 type: string
+ *               secret:
+ *                 type: boolean
+ *                 description: Turn encryption on or off; sending the masked value keeps a secret's value
  *     responses:
  *       200:
  *         description: Variable updated
  *       400:
- *         description: At least one field to update is required
+ *         description: No field to update, or the masked value was sent for a variable that is not secret
  *       404:
  *         description: Variable not found
+ *       503:
+ *         description: A secret was sent but no encryption key is configured
  */
 router.put('/:id', async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
-    const { key, value, scope } = req.body;
+    const { key, value, scope, secret } = req.body;
     const workspaceId = req.user!.workspace_id;
 
-    if (!key && !value && !scope) {
+    if (!key && !value && !scope && secret === undefined) {
       return res.status(400).json({ error: 'At least one field to update is required' });
     }
 
+    if (secret !== undefined && typeof secret !== 'boolean') {
+      return res.status(400).json({ error: 'secret must be a boolean' });
+    }
+
     let query = 'UPDATE variables SET updated_at = CURRENT_TIMESTAMP';
     const values: any[] = [];
     let paramCount = 1;
@@ -181,10 +327,33 @@ router.put('/:id', async (req: Request, res: Response) => {
       paramCount++;
     }
 
-    if (value) {
-      query += `, value = $${paramCount}`;
-      values.push(value);
-      paramCount++;
+    // The stored value depends on whether the variable is (or becomes) a secret
+    if (value || secret !== undefined) {
+      const existingResult = await pool.query(
+        'SELECT variable_key, value, is_secret FROM variables WHERE id = $1 AND workspace_id = $2',
+        [id, workspaceId]
+      );
+
+      if (existingResult.rows.length === 0) {
+        return res.status(404).json({ error: 'Variable not found' });
+      }
+
+      const existing = existingResult.rows[0];
+      if (value === MASKED_VALUE && !existing.is_secret) {
+        return maskedRejected(res, existing.variable_key);
+      }
+
+      const isSecret = secret ?? existing.is_secret;
+      if (isSecret && !secretsConfigured()) {
+        return secretsUnavailable(res);
+      }
+
+      const keepValue = !value || value === MASKED_VALUE;
+      const plainValue = keepValue ? readVariableValue(existing) : String(value);
+
+      query += `, value = $${paramCount}, is_secret = $${paramCount + 1}`;
+      values.push(isSecret ? encryptSecret(plainValue) : plainValue, isSecret);
+      paramCount += 2;
     }
 
     if (scope) {
@@ -204,7 +373,7 @@ router.put('/:id', async (req: Request, res: Response) => {
 
     res.status(200).json({
       message: 'Variable updated successfully',
-      variable: result.rows[0]
+      variable: maskVariable(result.rows[0])
     });
   } catch (error) {
     console.error('Update variable error:', error);
@@ -249,7 +418,7 @@ router.delete('/:id', async (req: Request, res: Response) => {
 
     res.status(200).json({
       message: 'Variable deleted successfully',
-      variable: result.rows[0]
+      variable: maskVariable(result.rows[0])
     });
   } catch (error) {
     console.error('Delete variable error:', error);
@@ -0,0 +1,498 @@
+import { Router, Request, Response } from 'express';
+import pool from '../config/database.js';
+import { authMiddleware } from '../middleware/auth.js';
+import { WEBHOOK_EVENTS, generateWebhookSecret } from '../services/webhooks.js';
+
+const router = Router();
+
+// Apply auth middleware to all routes
+router.use(authMiddleware);
+
+// Everything but the secret, which is only shown when it is created or rotated
+const WEBHOOK_COLUMNS = 'id, name, url, events, workspace_id, collection_id, enabled, created_by, created_at, updated_at';
+
+// Checks the webhook fields shared by create and update; returns an error message or null
+const validateWebhook = (webhook: Record<string, any>): string | null => {
+  if (!webhook.name) {
+    return 'Webhook name is required';
+  }
+  let url: URL;
+  try {
+    url = new URL(webhook.url);
+  } catch {
+    return 'url must be an absolute URL';
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    return 'url must use http or https';
+  }
+  if (!Array.isArray(webhook.events) || webhook.events.length === 0) {
+    return 'events must be a non-empty array';
+  }
+  const unknown = webhook.events.find((event: unknown) => !WEBHOOK_EVENTS.includes(event as any));
+  if (unknown !== undefined) {
+    return `Unknown event '${unknown}'; expected ${WEBHOOK_EVENTS.join(', ')}`;
+  }
+  if (webhook.secret !== undefined && (typeof webhook.secret !== 'string' || webhook.secret.length < 16)) {
+    return 'secret must be a string of at least 16 characters';
+  }
+  return null;
+};
+
+/**
+ * @swagger
+ * tags:
+ *   name: Webhooks
+ *   description: Outbound notifications when collection runs finish
+ * components:
+ *   schemas:
+ *     WebhookInput:
+ *       type: object
+ *       properties:
+ *         name:
+ *           type: string
+ *         url:
+ *           type: string
+ *           example: https://hooks.example.com/getapi
+ *         events:
+ *           type: array
+ *           items:
+ *             type: string
+ *             enum: [run.finished, run.failed, run.recovered]
+ *           default: [run.finished]
+ *           description: >
+ *             run.finished fires for every completed or failed run, run.failed for failed runs and
+ *             run.recovered for the first successful run after a failure. A webhook receives one
+ *             delivery per run, for the most specific event it subscribes to.
+ *         collectionId:
+ *           type: integer
+ *           nullable: true
+ *           description: Limit the webhook to one collection; omit for every collection in the workspace
+ *         secret:
+ *           type: string
+ *           description: HMAC secret; generated when omitted
+ *         enabled:
+ *           type: boolean
+ *           default: true
+ *     WebhookDelivery:
+ *       description: >
+ *         Deliveries are POSTed as JSON with X-GETapi-Event, X-GETapi-Delivery, X-GETapi-Timestamp and
+ *         X-GETapi-Signature headers. The signature is "sha256=" followed by the hex HMAC-SHA256 of
+ *         "{timestamp}.{body}" using the webhook secret. Network errors, 429 and 5xx responses are retried.
+ *       type: object
+ *       properties:
+ *         event:
+ *           type: string
+ *         timestamp:
+ *           type: string
+ *         workspaceId:
+ *           type: integer
+ *         collection:
+ *           type: object
+ *         run:
+ *           type: object
+ *           properties:
+ *             runId:
+ *               type: string
+ *             status:
+ *               type: string
+ *             summary:
+ *               type: object
+ *             failures:
+ *               type: array
+ *               description: Failing request results without response bodies
+ *               items:
+ *                 type: object
+ */
+
+/**
+ * @swagger
+ * /api/webhooks:
+ *   get:
+ *     summary: Get all webhooks in the workspace
+ *     tags: [Webhooks]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: collectionId
+ *         schema:
+ *           type: integer
+ *         description: Only webhooks that fire for this collection
+ *     responses:
+ *       200:
+ *         description: List of webhooks
+ */
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const workspaceId = req.user!.workspace_id;
+    const { collectionId } = req.query;
+
+    const result = collectionId
+      ? await pool.query(
+          `SELECT ${WEBHOOK_COLUMNS} FROM webhooks
+           WHERE workspace_id = $1 AND (collection_id IS NULL OR collection_id = $2)
+           ORDER BY created_at ASC`,
+          [workspaceId, collectionId]
+        )
+      : await pool.query(
+          `SELECT ${WEBHOOK_COLUMNS} FROM webhooks WHERE workspace_id = $1 ORDER BY created_at ASC`,
+          [workspaceId]
+        );
+
+    res.status(200).json({
+      webhooks: result.rows
+    });
+  } catch (error) {
+    console.error('Get webhooks error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/webhooks/{webhookId}:
+ *   get:
+ *     summary: Get a single webhook
+ *     tags: [Webhooks]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: webhookId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Webhook ID
+ *     responses:
+ *       200:
+ *         description: Webhook details
+ *       404:
+ *         description: Webhook not found
+ */
+router.get('/:webhookId', async (req: Request, res: Response) => {
+  try {
+    const { webhookId } = req.params;
+    const workspaceId = req.user!.workspace_id;
+
+    const result = await pool.query(
+      `SELECT ${WEBHOOK_COLUMNS} FROM webhooks WHERE id = $1 AND workspace_id = $2`,
+      [webhookId, workspaceId]
+    );
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({ error: 'Webhook not found' });
+    }
+
+    res.status(200).json({
+      webhook: result.rows[0]
+    });
+  } catch (error) {
+    console.error('Get webhook error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/webhooks:
+ *   post:
+ *     summary: Register a webhook
+ *     tags: [Webhooks]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             allOf:
+ *               - $ref: '#/components/schemas/WebhookInput'
+ *               - required: [name, url]
+ *     responses:
+ *       201:
+ *         description: Webhook created; the response is the only one that includes the secret
+ *       400:
+ *         description: Invalid webhook
+ *       404:
+ *         description: Collection not found
+ */
+router.post('/', async (req: Request, res: Response) => {
+  try {
+    const workspaceId = req.user!.workspace_id;
+    const userId = req.user!.id;
+
+    const webhook = {
+      name: req.body.name,
+      url: req.body.url,
+      events: req.body.events ?? ['run.finished'],
+      collectionId: req.body.collectionId ?? null,
+      secret: req.body.secret,
+      enabled: req.body.enabled ?? true,
+    };
+
+    const validationError = validateWebhook(webhook);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    if (webhook.collectionId !== null) {
+      const collectionCheck = await pool.query(
+        'SELECT id FROM collections WHERE id = $1 AND workspace_id = $2',
+        [webhook.collectionId, workspaceId]
+      );
+
+      if (collectionCheck.rows.length === 0) {
+        return res.status(404).json({ error: 'Collection not found' });
+      }
+    }
+
+    const result = await pool.query(
+      `INSERT INTO webhooks (name, url, secret, events, workspace_id, collection_id, enabled, created_by)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+       RETURNING ${WEBHOOK_COLUMNS}, secret`,
+      [
+        webhook.name,
+        webhook.url,
+        webhook.secret ?? generateWebhookSecret(),
+        JSON.stringify(webhook.events),
+        workspaceId,
+        webhook.collectionId,
+        webhook.enabled,
+        userId
+      ]
+    );
+
+    res.status(201).json({
+      message: 'Webhook created successfully',
+      webhook: result.rows[0]
+    });
+  } catch (error) {
+    console.error('Create webhook error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/webhooks/{webhookId}:
+ *   put:
+ *     summary: Update a webhook
+ *     tags: [Webhooks]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: webhookId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Webhook ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             allOf:
+ *               - $ref: '#/components/schemas/WebhookInput'
+ *               - type: object
+ *                 properties:
+ *                   rotateSecret:
+ *                     type: boolean
+ *                     description: Replace the secret with a newly generated one
+ *     responses:
+ *       200:
+ *         description: Webhook updated; includes the secret when it was changed
+ *       400:
+ *         description: Invalid webhook
+ *       404:
+ *         description: Webhook or collection not found
+ */
+router.put('/:webhookId', async (req: Request, res: Response) => {
+  try {
+    const { webhookId } = req.params;
+    const workspaceId = req.user!.workspace_id;
+
+    const existingResult = await pool.query(
+      'SELECT * FROM webhooks WHERE id = $1 AND workspace_id = $2',
+      [webhookId, workspaceId]
+    );
+
+    if (existingResult.rows.length === 0) {
+      return res.status(404).json({ error: 'Webhook not found' });
+    }
+
+    const existing = existingResult.rows[0];
+    const secretChanged = req.body.secret !== undefined || req.body.rotateSecret === true;
+    const webhook = {
+      name: req.body.name ?? existing.name,
+      url: req.body.url ?? existing.url,
+      events: req.body.events ?? existing.events,
+      collectionId: req.body.collectionId !== undefined ? req.body.collectionId : existing.collection_id,
+      secret: req.body.secret,
+      enabled: req.body.enabled ?? existing.enabled,
+    };
+
+    const validationError = validateWebhook(webhook);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    if (webhook.collectionId !== null && webhook.collectionId !== existing.collection_id) {
+      const collectionCheck = await pool.query(
+        'SELECT id FROM collections WHERE id = $1 AND workspace_id = $2',
+        [webhook.collectionId, workspaceId]
+      );
+
+      if (collectionCheck.rows.length === 0) {
+        return res.status(404).json({ error: 'Collection not found' });
+      }
+    }
+
+    const secret = req.body.rotateSecret === true ? generateWebhookSecret() : webhook.secret ?? existing.secret;
+
+    const result = await pool.query(
+      `UPDATE webhooks SET
+         name = $1,
+         url = $2,
+         events = $3,
+         collection_id = $4,
+         secret = $5,
+         enabled = $6,
+         updated_at = CURRENT_TIMESTAMP
+       WHERE id = $7
+       RETURNING ${WEBHOOK_COLUMNS}${secretChanged ? ', secret' : ''}`,
+      [
+        webhook.name,
+        webhook.url,
+        JSON.stringify(webhook.events),
+        webhook.collectionId,
+        secret,
+        webhook.enabled,
+        webhookId
+      ]
+    );
+
+    res.status(200).json({
+      message: 'Webhook updated successfully',
+      webhook: result.rows[0]
+    });
+  } catch (error) {
+    console.error('Update webhook error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/webhooks/{webhookId}:
+ *   delete:
+ *     summary: Delete a webhook and its delivery log
+ *     tags: [Webhooks]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: webhookId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Webhook ID
+ *     responses:
+ *       200:
+ *         description: Webhook deleted
+ *       404:
+ *         description: Webhook not found
+ */
+router.delete('/:webhookId', async (req: Request, res: Response) => {
+  try {
+    const { webhookId } = req.params;
+    const workspaceId = req.user!.workspace_id;
+
+    const result = await pool.query(
+      `DELETE FROM webhooks WHERE id = $1 AND workspace_id = $2 RETURNING ${WEBHOOK_COLUMNS}`,
+      [webhookId, workspaceId]
+    );
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({ error: 'Webhook not found' });
+    }
+
+    res.status(200).json({
+      message: 'Webhook deleted successfully',
+      webhook: result.rows[0]
+    });
+  } catch (error) {
+    console.error('Delete webhook error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/webhooks/{webhookId}/deliveries:
+ *   get:
+ *     summary: Get the delivery log of a webhook, newest first
+ *     tags: [Webhooks]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: webhookId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Webhook ID
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *       - in: query
+ *         name: offset
+ *         schema:
+ *           type: integer
+ *           default: 0
+ *     responses:
+ *       200:
+ *         description: One entry per delivery attempt; retries share a delivery_id
+ *       400:
+ *         description: limit or offset is not a non-negative integer
+ *       404:
+ *         description: Webhook not found
+ */
+router.get('/:webhookId/deliveries', async (req: Request, res: Response) => {
+  try {
+    const { webhookId } = req.params;
+    const workspaceId = req.user!.workspace_id;
+    const limit = req.query.limit === undefined ? 20 : Number(req.query.limit);
+    const offset = req.query.offset === undefined ? 0 : Number(req.query.offset);
+
+    if (!Number.isInteger(limit) || limit < 0 || !Number.isInteger(offset) || offset < 0) {
+      return res.status(400).json({ error: 'limit and offset must be non-negative integers' });
+    }
+
+    const webhookCheck = await pool.query(
+      'SELECT id FROM webhooks WHERE id = $1 AND workspace_id = $2',
+      [webhookId, workspaceId]
+    );
+
+    if (webhookCheck.rows.length === 0) {
+      return res.status(404).json({ error: 'Webhook not found' });
+    }
+
+    const result = await pool.query(
+      `SELECT * FROM webhook_deliveries WHERE webhook_id = $1
+       ORDER BY created_at DESC, id DESC LIMIT $2 OFFSET $3`,
+      [webhookId, Math.min(limit, 100), offset]
+    );
+
+    res.status(200).json({
+      deliveries: result.rows
+    });
+  } catch (error) {
+    console.error('Get webhook deliveries error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
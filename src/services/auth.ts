@@ -0,0 +1,362 @@
+import axios, { AxiosRequestConfig, AxiosResponse } from 'axios';
+import { renderValue } from './templating.js';
+import { findHeader } from './requestBody.js';
+import { DigestChallenge, digestAuthorization, finalizeBody, finalizeUrl, parseDigestChallenge, signAwsV4, signHmac } from './signing.js';
+
+// Authorization applied to outgoing requests. Requests without auth, or with
+// type 'inherit', use their collection's auth; 'none' turns it off explicitly.
+// String fields may hold {{variables}}, so credentials can live in secret variables.
+export type AuthConfig =
+  | { type: 'none' }
+  | { type: 'inherit' }
+  | { type: 'basic'; username: string; password?: string }
+  | { type: 'bearer'; token: string }
+  | { type: 'apikey'; key: string; value: string; in?: 'header' | 'query' }
+  | {
+      type: 'oauth2';
+      grantType: 'client_credentials' | 'password';
+      tokenUrl: string;
+      clientId: string;
+      clientSecret?: string;
+      // Resource owner credentials for the password grant
+      username?: string;
+      password?: string;
+      scope?: string;
+      // Send the client credentials as a Basic header (default) or in the form body
+      clientAuthentication?: 'header' | 'body';
+    }
+  | {
+      type: 'awsv4';
+      service: string;
+      region: string;
+      // Default to the AWS_ACCESS_KEY_ID, AWS_SECRET_ACCESS_KEY and AWS_SESSION_TOKEN variables
+      accessKeyId?: string;
+      secretAccessKey?: string;
+      sessionToken?: string;
+    }
+  | {
+      // Signs "METHOD\n/path?query\n[timestamp\n]body" with a shared secret
+      type: 'hmac';
+      secret: string;
+      algorithm?: 'sha1' | 'sha256' | 'sha512';
+      encoding?: 'hex' | 'base64';
+      // Header carrying the signature, X-Signature by default, and text put before it
+      header?: string;
+      prefix?: string;
+      // When set, the Unix timestamp is sent in this header and covered by the signature
+      timestampHeader?: string;
+    }
+  | { type: 'digest'; username: string; password?: string };
+
+export const AUTH_TYPES = ['none', 'inherit', 'basic', 'bearer', 'apikey', 'oauth2', 'awsv4', 'hmac', 'digest'];
+
+const HMAC_ALGORITHMS = ['sha1', 'sha256', 'sha512'];
+const HMAC_ENCODINGS = ['hex', 'base64'];
+
+interface OAuthToken {
+  accessToken: string;
+  tokenType: string;
+  expiresAt: number | null;
+}
+
+// Auth state kept for the length of a run and shared by all of its requests:
+// OAuth2 tokens, and the Digest challenges already answered, so that later
+// requests to the same server authenticate without another 401 round-trip
+export interface AuthSession {
+  tokens: Map<string, Promise<OAuthToken>>;
+  digests: Map<string, { challenge: DigestChallenge; nonceCount: number }>;
+}
+
+export const createAuthSession = (): AuthSession => ({ tokens: new Map(), digests: new Map() });
+
+export interface AuthContext {
+  session: AuthSession;
+  signal?: AbortSignal;
+  timeout?: number;
+}
+
+// Tokens are refreshed this long before they expire
+const EXPIRY_MARGIN = 30000;
+
+const isText = (value: unknown) => typeof value === 'string' && value.length > 0;
+
+// Returns an error message for unusable auth configs, or null when the config is valid.
+// null and undefined are valid and mean "inherit".
+export const validateAuth = (auth: unknown): string | null => {
+  if (auth === null || auth === undefined) return null;
+  if (typeof auth !== 'object' || Array.isArray(auth)) {
+    return 'auth must be an object';
+  }
+  const config = auth as Record<string, any>;
+  if (!AUTH_TYPES.includes(config.type)) {
+    return `auth.type must be one of ${AUTH_TYPES.join(', ')}`;
+  }
+
+  switch (config.type) {
+    case 'basic':
+      if (!isText(config.username)) return 'Basic auth needs a username';
+      if (config.password !== undefined && typeof config.password !== 'string') return 'Basic auth password must be a string';
+      break;
+    case 'bearer':
+      if (!isText(config.token)) return 'Bearer auth needs a token';
+      break;
+    case 'apikey':
+      if (!isText(config.key) || typeof config.value !== 'string') return 'API key auth needs a key and a value';
+      if (config.in !== undefined && config.in !== 'header' && config.in !== 'query') return "API key auth 'in' must be header or query";
+      break;
+    case 'oauth2':
+      if (config.grantType !== 'client_credentials' && config.grantType !== 'password') {
+        return 'OAuth2 grantType must be client_credentials or password';
+      }
+      if (!isText(config.tokenUrl) || !isText(config.clientId)) return 'OAuth2 auth needs a tokenUrl and a clientId';
+      if (config.grantType === 'password' && !isText(config.username)) return 'The OAuth2 password grant needs a username';
+      if (config.clientAuthentication !== undefined && config.clientAuthentication !== 'header' && config.clientAuthentication !== 'body') {
+        return 'OAuth2 clientAuthentication must be header or body';
+      }
+      for (const field of ['clientSecret', 'username', 'password', 'scope']) {
+        if (config[field] !== undefined && typeof config[field] !== 'string') return `OAuth2 ${field} must be a string`;
+      }
+      break;
+    case 'awsv4':
+      if (!isText(config.service) || !isText(config.region)) return 'AWS Signature V4 auth needs a service and a region';
+      for (const field of ['accessKeyId', 'secretAccessKey', 'sessionToken']) {
+        if (config[field] !== undefined && typeof config[field] !== 'string') return `AWS Signature V4 ${field} must be a string`;
+      }
+      break;
+    case 'hmac':
+      if (!isText(config.secret)) return 'HMAC auth needs a secret';
+      if (config.algorithm !== undefined && !HMAC_ALGORITHMS.includes(config.algorithm)) {
+        return `HMAC algorithm must be one of ${HMAC_ALGORITHMS.join(', ')}`;
+      }
+      if (config.encoding !== undefined && !HMAC_ENCODINGS.includes(config.encoding)) {
+        return `HMAC encoding must be one of ${HMAC_ENCODINGS.join(', ')}`;
+      }
+      for (const field of ['header', 'timestampHeader']) {
+        if (config[field] !== undefined && !isText(config[field])) return `HMAC ${field} must be a non-empty string`;
+      }
+      if (config.prefix !== undefined && typeof config.prefix !== 'string') return 'HMAC prefix must be a string';
+      break;
+    case 'digest':
+      if (!isText(config.username)) return 'Digest auth needs a username';
+      if (config.password !== undefined && typeof config.password !== 'string') return 'Digest auth password must be a string';
+      break;
+  }
+  return null;
+};
+
+// The auth a request runs with: its own, or its collection's when it inherits
+export const resolveAuth = (requestAuth?: AuthConfig | null, collectionAuth?: AuthConfig | null): AuthConfig | null => {
+  if (!requestAuth || requestAuth.type === 'inherit') {
+    return collectionAuth && collectionAuth.type !== 'inherit' ? collectionAuth : null;
+  }
+  return requestAuth;
+};
+
+const basicCredentials = (username: string, password = '') =>
+  'Basic ' + Buffer.from(`${username}:${password}`, 'utf8').toString('base64');
+
+const fetchOAuthToken = async (auth: Extract<AuthConfig, { type: 'oauth2' }>, context: AuthContext): Promise<OAuthToken> => {
+  const form = new URLSearchParams({ grant_type: auth.grantType });
+  if (auth.grantType === 'password') {
+    form.set('username', auth.username || '');
+    form.set('password', auth.password || '');
+  }
+  if (auth.scope) form.set('scope', auth.scope);
+
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/x-www-form-urlencoded',
+    Accept: 'application/json',
+  };
+  if (auth.clientAuthentication === 'body') {
+    form.set('client_id', auth.clientId);
+    if (auth.clientSecret) form.set('client_secret', auth.clientSecret);
+  } else {
+    headers.Authorization = basicCredentials(auth.clientId, auth.clientSecret);
+  }
+
+  const response = await axios.post(auth.tokenUrl, form.toString(), {
+    headers,
+    timeout: context.timeout,
+    signal: context.signal,
+    validateStatus: () => true,
+  });
+
+  const data = typeof response.data === 'string' ? Object.fromEntries(new URLSearchParams(response.data)) : response.data || {};
+  if (response.status >= 400) {
+    const reason = data.error_description || data.error || response.statusText;
+    throw new Error(`OAuth2 token request failed with status ${response.status}${reason ? `: ${reason}` : ''}`);
+  }
+  if (!data.access_token) {
+    throw new Error('OAuth2 token response has no access_token');
+  }
+
+  const expiresIn = Number(data.expires_in);
+  return {
+    accessToken: data.access_token,
+    tokenType: data.token_type || 'Bearer',
+    expiresAt: expiresIn > 0 ? Date.now() + expiresIn * 1000 - EXPIRY_MARGIN : null,
+  };
+};
+
+// Fetches a token once per run and set of credentials; concurrent requests share
+// the pending fetch, and an expired token is fetched again
+const getOAuthToken = async (auth: Extract<AuthConfig, { type: 'oauth2' }>, context: AuthContext): Promise<OAuthToken> => {
+  const key = JSON.stringify([auth.grantType, auth.tokenUrl, auth.clientId, auth.username, auth.scope]);
+  const cached = context.session.tokens.get(key);
+  if (cached) {
+    const token = await cached.catch(() => undefined);
+    if (token && (token.expiresAt === null || token.expiresAt > Date.now())) return token;
+  }
+
+  const pending = fetchOAuthToken(auth, context);
+  context.session.tokens.set(key, pending);
+  pending.catch(() => {
+    if (context.session.tokens.get(key) === pending) context.session.tokens.delete(key);
+  });
+  return pending;
+};
+
+// Digest challenges are remembered per server and user
+const digestKey = (url: URL, username: string) => `${url.origin} ${username}`;
+
+const setDigestHeader = (
+  auth: Extract<AuthConfig, { type: 'digest' }>,
+  config: AxiosRequestConfig,
+  url: URL,
+  state: { challenge: DigestChallenge; nonceCount: number }
+) => {
+  state.nonceCount++;
+  (config.headers as Record<string, any>).Authorization = digestAuthorization({
+    username: auth.username,
+    password: auth.password || '',
+    method: config.method || 'GET',
+    uri: url.pathname + url.search,
+    challenge: state.challenge,
+    nonceCount: state.nonceCount,
+  });
+};
+
+// Adds the credentials to the request config and returns the auth it applied,
+// with its variables resolved. Headers written on the request itself win over
+// the ones auth would add. Signing types sign the final URL and body, so this
+// has to run once everything else about the request is settled.
+export const applyAuth = async (
+  auth: AuthConfig | null | undefined,
+  config: AxiosRequestConfig,
+  variables: Record<string, any>,
+  warnings: Set<string>,
+  context: AuthContext
+): Promise<AuthConfig | null> => {
+  if (!auth || auth.type === 'none' || auth.type === 'inherit') return null;
+
+  const resolved = renderValue(auth, variables, warnings) as AuthConfig;
+  const headers: Record<string, any> = { ...(config.headers as Record<string, any>) };
+  const setHeader = (name: string, value: string) => {
+    if (!findHeader(headers, name)) headers[name] = value;
+  };
+  config.headers = headers;
+
+  switch (resolved.type) {
+    case 'basic':
+      setHeader('Authorization', basicCredentials(resolved.username, resolved.password));
+      break;
+    case 'bearer':
+      setHeader('Authorization', `Bearer ${resolved.token}`);
+      break;
+    case 'apikey':
+      if (resolved.in === 'query') {
+        config.params = { ...config.params, [resolved.key]: resolved.value };
+      } else {
+        setHeader(resolved.key, resolved.value);
+      }
+      break;
+    case 'oauth2': {
+      const token = await getOAuthToken(resolved, context);
+      // Token types are case-insensitive, but some servers only accept "Bearer"
+      const tokenType = token.tokenType.toLowerCase() === 'bearer' ? 'Bearer' : token.tokenType;
+      setHeader('Authorization', `${tokenType} ${token.accessToken}`);
+      break;
+    }
+    case 'awsv4': {
+      if (findHeader(headers, 'Authorization')) break;
+      const accessKeyId = resolved.accessKeyId ?? variables.AWS_ACCESS_KEY_ID;
+      const secretAccessKey = resolved.secretAccessKey ?? variables.AWS_SECRET_ACCESS_KEY;
+      if (!accessKeyId || !secretAccessKey) {
+        throw new Error('AWS Signature V4 auth needs an access key ID and a secret access key');
+      }
+
+      const url = finalizeUrl(config);
+      const body = finalizeBody(config);
+      Object.assign(headers, signAwsV4({
+        method: config.method || 'GET',
+        url,
+        headers,
+        body,
+        accessKeyId: String(accessKeyId),
+        secretAccessKey: String(secretAccessKey),
+        sessionToken: resolved.sessionToken ?? variables.AWS_SESSION_TOKEN,
+        region: resolved.region,
+        service: resolved.service,
+      }));
+      break;
+    }
+    case 'hmac': {
+      const header = resolved.header || 'X-Signature';
+      if (findHeader(headers, header)) break;
+
+      const url = finalizeUrl(config);
+      const body = finalizeBody(config);
+      const timestamp = resolved.timestampHeader ? String(Math.floor(Date.now() / 1000)) : undefined;
+      if (resolved.timestampHeader) headers[resolved.timestampHeader] = timestamp;
+      const signature = signHmac({
+        method: config.method || 'GET',
+        url,
+        body,
+        secret: resolved.secret,
+        algorithm: resolved.algorithm,
+        encoding: resolved.encoding,
+        timestamp,
+      });
+      headers[header] = (resolved.prefix || '') + signature;
+      break;
+    }
+    case 'digest': {
+      if (findHeader(headers, 'Authorization')) break;
+      const url = finalizeUrl(config);
+      finalizeBody(config);
+      // Without a challenge from an earlier request, the first response's 401 provides one
+      const state = context.session.digests.get(digestKey(url, resolved.username));
+      if (state) setDigestHeader(resolved, config, url, state);
+      break;
+    }
+  }
+
+  return resolved;
+};
+
+// Answers a 401 Digest challenge by setting the Authorization header on the config.
+// Returns true when the request should be sent again. A challenge to a request that
+// already carried an answer is only taken up when the server says its nonce was stale,
+// so wrong credentials fail instead of looping.
+export const answerAuthChallenge = (
+  auth: AuthConfig | null,
+  config: AxiosRequestConfig,
+  response: AxiosResponse,
+  context: AuthContext
+): boolean => {
+  if (auth?.type !== 'digest' || response.status !== 401) return false;
+
+  const challenge = parseDigestChallenge(response.headers['www-authenticate']);
+  if (!challenge) return false;
+
+  const headers = config.headers as Record<string, any>;
+  const sent = findHeader(headers, 'Authorization');
+  if (sent && (!/^Digest\s/i.test(headers[sent]) || challenge.stale?.toLowerCase() !== 'true')) return false;
+  if (sent) delete headers[sent];
+
+  const url = new URL(config.url!);
+  const state = { challenge, nonceCount: 0 };
+  context.session.digests.set(digestKey(url, auth.username), state);
+  setDigestHeader(auth, config, url, state);
+  return true;
+};
@@ -0,0 +1,457 @@
+import { RequestData } from './collectionRunner.js';
+import { AuthConfig } from './auth.js';
+import { BodyField, findHeader } from './requestBody.js';
+import { renderTemplate, renderValue } from './templating.js';
+
+// Code that sends a saved request from outside the app, for bug reports and docs.
+// Variables are substituted when values are given and otherwise left as
+// {{placeholders}}. Auth the target language cannot express in a few lines
+// (request signing, OAuth2 token fetching) is explained in a comment instead.
+
+export type SnippetLanguage = 'curl' | 'fetch' | 'axios' | 'python' | 'go';
+
+export const SNIPPET_LANGUAGES: SnippetLanguage[] = ['curl', 'fetch', 'axios', 'python', 'go'];
+
+// File a binary body is read from, since its bytes cannot be written into code
+const BINARY_FILE = 'body.bin';
+
+type SnippetBody =
+  | { kind: 'none' }
+  | { kind: 'text'; content: string; json?: any }
+  | { kind: 'urlencoded'; fields: [string, string][] }
+  | { kind: 'multipart'; fields: { key: string; value?: string; file?: string; contentType?: string }[] }
+  | { kind: 'file'; path: string };
+
+// The request as it goes over the wire, in terms every generator understands
+interface SnippetRequest {
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  body: SnippetBody;
+  basic: { username: string; password: string } | null;
+  // curl can sign requests itself
+  awsSigv4: { provider: string; username: string; password: string } | null;
+  digest: boolean;
+  notes: string[];
+}
+
+const PLACEHOLDER = /(\{\{[^{}]*\}\})/;
+
+// Percent-encodes a query component, leaving {{placeholders}} readable
+const encodeQueryPart = (text: string) =>
+  text.split(PLACEHOLDER).map(part => (PLACEHOLDER.test(part) ? part : encodeURIComponent(part))).join('');
+
+const isEmptyBody = (body: any) =>
+  body === undefined || body === null || (typeof body === 'object' && !Array.isArray(body) && Object.keys(body).length === 0);
+
+const prepare = (request: RequestData, variables: Record<string, any> | null, warnings: Set<string>): SnippetRequest => {
+  const render = (text: string) => (variables ? renderTemplate(text, variables, warnings) : text);
+  const method = (request.method || 'GET').toUpperCase();
+  const headers: Record<string, string> = Object.fromEntries(
+    Object.entries(request.headers || {}).map(([key, value]) => [render(key), render(String(value))])
+  );
+  const query: [string, string][] = Object.entries(request.params || {}).map(([key, value]) => [render(key), render(String(value))]);
+  const notes: string[] = [];
+
+  let body: SnippetBody = { kind: 'none' };
+  let contentType: string | null = null;
+  const raw = request.body;
+  if (!isEmptyBody(raw)) {
+    switch (request.body_mode || 'json') {
+      case 'json': {
+        const json = variables ? renderValue(raw, variables, warnings) : raw;
+        body = { kind: 'text', content: JSON.stringify(json, null, 2), json };
+        contentType = 'application/json';
+        break;
+      }
+      case 'raw':
+        body = { kind: 'text', content: render(raw.content ?? '') };
+        contentType = raw.contentType || 'text/plain';
+        break;
+      case 'urlencoded':
+        body = {
+          kind: 'urlencoded',
+          fields: (raw as BodyField[]).filter(field => !field.disabled).map(field => [render(field.key), render(field.value ?? '')]),
+        };
+        contentType = 'application/x-www-form-urlencoded';
+        break;
+      case 'formdata':
+        body = {
+          kind: 'multipart',
+          fields: (raw as BodyField[]).filter(field => !field.disabled).map(field => field.type === 'file'
+            ? { key: render(field.key), file: render(field.filename || field.key), ...(field.contentType ? { contentType: field.contentType } : {}) }
+            : { key: render(field.key), value: render(field.value ?? '') }),
+        };
+        if (body.fields.some(field => field.file)) notes.push('File fields are read from local files with the names they were saved with');
+        break;
+      case 'binary':
+        body = { kind: 'file', path: BINARY_FILE };
+        contentType = raw.contentType || 'application/octet-stream';
+        notes.push(`The binary body is read from ${BINARY_FILE}`);
+        break;
+      case 'graphql': {
+        const graphql = variables ? renderValue(raw, variables, warnings) : raw;
+        if (method === 'GET') {
+          query.push(['query', graphql.query]);
+          if (graphql.variables) query.push(['variables', JSON.stringify(graphql.variables)]);
+          if (graphql.operationName) query.push(['operationName', graphql.operationName]);
+        } else {
+          const json = { query: graphql.query, variables: graphql.variables || {}, ...(graphql.operationName ? { operationName: graphql.operationName } : {}) };
+          body = { kind: 'text', content: JSON.stringify(json, null, 2), json };
+          contentType = 'application/json';
+        }
+        break;
+      }
+    }
+  }
+
+  // The libraries add a multipart Content-Type themselves, with the boundary they use
+  const typeHeader = findHeader(headers, 'content-type');
+  if (body.kind === 'multipart' && typeHeader) {
+    delete headers[typeHeader];
+  } else if (contentType && !typeHeader) {
+    headers['Content-Type'] = contentType;
+  }
+
+  const prepared: SnippetRequest = { method, url: render(request.url), headers, body, basic: null, awsSigv4: null, digest: false, notes };
+  applyAuth(prepared, request.auth, query, render);
+
+  if (query.length > 0) {
+    const search = query.map(([key, value]) => `${encodeQueryPart(key)}=${encodeQueryPart(value)}`).join('&');
+    prepared.url += `${prepared.url.includes('?') ? '&' : '?'}${search}`;
+  }
+  return prepared;
+};
+
+// Mirrors what the runner does for each auth type. An Authorization header on
+// the request wins, as it does when the request is sent.
+const applyAuth = (prepared: SnippetRequest, auth: AuthConfig | null | undefined, query: [string, string][], render: (text: string) => string) => {
+  if (!auth || findHeader(prepared.headers, 'authorization')) return;
+
+  switch (auth.type) {
+    case 'basic':
+      prepared.basic = { username: render(auth.username), password: render(auth.password || '') };
+      break;
+    case 'digest':
+      prepared.basic = { username: render(auth.username), password: render(auth.password || '') };
+      prepared.digest = true;
+      break;
+    case 'bearer':
+      prepared.headers.Authorization = `Bearer ${render(auth.token)}`;
+      break;
+    case 'apikey':
+      if (auth.in === 'query') {
+        query.push([render(auth.key), render(auth.value)]);
+      } else if (!findHeader(prepared.headers, render(auth.key))) {
+        prepared.headers[render(auth.key)] = render(auth.value);
+      }
+      break;
+    case 'oauth2':
+      prepared.headers.Authorization = 'Bearer <access token>';
+      prepared.notes.push(`Get the access token from ${render(auth.tokenUrl)} with the OAuth2 ${auth.grantType} grant`);
+      break;
+    case 'awsv4':
+      prepared.awsSigv4 = {
+        provider: `aws:amz:${render(auth.region)}:${render(auth.service)}`,
+        username: render(auth.accessKeyId || '{{AWS_ACCESS_KEY_ID}}'),
+        password: render(auth.secretAccessKey || '{{AWS_SECRET_ACCESS_KEY}}'),
+      };
+      break;
+    case 'hmac':
+      prepared.notes.push(
+        `Sign "METHOD\\n/path?query\\n${auth.timestampHeader ? 'timestamp\\n' : ''}body" with HMAC-${(auth.algorithm || 'sha256').toUpperCase()}`
+        + ` and send the ${auth.encoding || 'hex'} signature in the ${auth.header || 'X-Signature'} header`
+      );
+      break;
+  }
+};
+
+// Comments for the top of a snippet: the request's notes, plus the auth the
+// language's HTTP client cannot do by itself
+const notesFor = (request: SnippetRequest, comment: string, { sigv4 = false, digest = false } = {}) => [
+  ...request.notes,
+  ...(request.awsSigv4 && !sigv4 ? [`Sign the request with AWS Signature Version 4 (${request.awsSigv4.provider})`] : []),
+  ...(request.digest && !digest ? ['Digest auth is not built in, so the credentials are sent as Basic auth'] : []),
+].map(note => `${comment} ${note}`);
+
+const shellQuote = (text: string) => `'${text.replace(/'/g, `'\\''`)}'`;
+
+// JSON string literals are valid in JavaScript, Python and Go alike
+const quote = (text: string) => JSON.stringify(text);
+
+const indentLines = (text: string, indent: string) => text.split('\n').join(`\n${indent}`);
+
+const curlSnippet = (request: SnippetRequest): string => {
+  const lines = notesFor(request, '#', { sigv4: true, digest: true });
+  const args: string[] = [];
+  if (request.method !== 'GET' || request.body.kind !== 'none') args.push(`--request ${request.method}`);
+  args.push(`--url ${shellQuote(request.url)}`);
+  for (const [key, value] of Object.entries(request.headers)) args.push(`--header ${shellQuote(`${key}: ${value}`)}`);
+  if (request.digest) args.push('--digest');
+  if (request.basic) args.push(`--user ${shellQuote(`${request.basic.username}:${request.basic.password}`)}`);
+  if (request.awsSigv4) {
+    args.push(`--aws-sigv4 ${shellQuote(request.awsSigv4.provider)}`, `--user ${shellQuote(`${request.awsSigv4.username}:${request.awsSigv4.password}`)}`);
+  }
+
+  const { body } = request;
+  if (body.kind === 'text') args.push(`--data-raw ${shellQuote(body.content)}`);
+  if (body.kind === 'urlencoded') {
+    for (const [key, value] of body.fields) args.push(`--data-urlencode ${shellQuote(`${key}=${value}`)}`);
+  }
+  if (body.kind === 'multipart') {
+    for (const field of body.fields) {
+      args.push(field.file
+        ? `--form ${shellQuote(`${field.key}=@${field.file}${field.contentType ? `;type=${field.contentType}` : ''}`)}`
+        : `--form-string ${shellQuote(`${field.key}=${field.value}`)}`);
+    }
+  }
+  if (body.kind === 'file') args.push(`--data-binary ${shellQuote(`@${body.path}`)}`);
+
+  lines.push(`curl ${args.join(' \\\n  ')}`);
+  return lines.join('\n');
+};
+
+const jsHeaders = (request: SnippetRequest) =>
+  Object.entries(request.headers).map(([key, value]) => `    ${quote(key)}: ${quote(value)},`);
+
+const fetchSnippet = (request: SnippetRequest): string => {
+  const lines = notesFor(request, '//');
+  const { body } = request;
+  const extra: [string, string][] = request.basic ? [['Authorization', `Basic \${btoa(${quote(`${request.basic.username}:${request.basic.password}`)})}`]] : [];
+
+  let bodyLine: string | null = null;
+  if (body.kind === 'text') {
+    bodyLine = body.json !== undefined ? `JSON.stringify(${indentLines(JSON.stringify(body.json, null, 2), '  ')})` : quote(body.content);
+  } else if (body.kind === 'urlencoded') {
+    lines.push('const body = new URLSearchParams();', ...body.fields.map(([key, value]) => `body.append(${quote(key)}, ${quote(value)});`), '');
+    bodyLine = 'body';
+  } else if (body.kind === 'multipart') {
+    lines.push('const body = new FormData();');
+    for (const field of body.fields) {
+      lines.push(field.file
+        ? `body.append(${quote(field.key)}, fileInput.files[0], ${quote(field.file)}); // a File, e.g. from <input type="file">`
+        : `body.append(${quote(field.key)}, ${quote(field.value || '')});`);
+    }
+    lines.push('');
+    bodyLine = 'body';
+  } else if (body.kind === 'file') {
+    bodyLine = `fileInput.files[0] /* ${body.path} */`;
+  }
+
+  const headerLines = jsHeaders(request).concat(extra.map(([key, value]) => `    ${quote(key)}: \`${value}\`,`));
+  lines.push(
+    `const response = await fetch(${quote(request.url)}, {`,
+    `  method: ${quote(request.method)},`,
+    ...(headerLines.length > 0 ? ['  headers: {', ...headerLines, '  },'] : []),
+    ...(bodyLine ? [`  body: ${bodyLine},`] : []),
+    '});',
+    '',
+    'console.log(response.status, await response.text());'
+  );
+  return lines.join('\n');
+};
+
+const axiosSnippet = (request: SnippetRequest): string => {
+  const { body } = request;
+  const imports = ["import axios from 'axios';"];
+  const setup: string[] = [];
+  let dataLine: string | null = null;
+  let formHeaders = false;
+
+  if (body.kind === 'text') {
+    dataLine = body.json !== undefined ? indentLines(JSON.stringify(body.json, null, 2), '  ') : quote(body.content);
+  } else if (body.kind === 'urlencoded') {
+    setup.push('const data = new URLSearchParams();', ...body.fields.map(([key, value]) => `data.append(${quote(key)}, ${quote(value)});`), '');
+    dataLine = 'data';
+  } else if (body.kind === 'multipart') {
+    imports.push("import FormData from 'form-data';");
+    if (body.fields.some(field => field.file)) imports.push("import fs from 'fs';");
+    setup.push('const data = new FormData();');
+    for (const field of body.fields) {
+      setup.push(field.file
+        ? `data.append(${quote(field.key)}, fs.createReadStream(${quote(field.file)}));`
+        : `data.append(${quote(field.key)}, ${quote(field.value || '')});`);
+    }
+    setup.push('');
+    dataLine = 'data';
+    formHeaders = true;
+  } else if (body.kind === 'file') {
+    imports.push("import fs from 'fs';");
+    dataLine = `fs.createReadStream(${quote(body.path)})`;
+  }
+
+  const headerLines = jsHeaders(request);
+  if (formHeaders) headerLines.push('    ...data.getHeaders(),');
+  const lines = [
+    ...notesFor(request, '//'),
+    ...imports,
+    '',
+    ...setup,
+    'const response = await axios({',
+    `  method: ${quote(request.method.toLowerCase())},`,
+    `  url: ${quote(request.url)},`,
+    ...(headerLines.length > 0 ? ['  headers: {', ...headerLines, '  },'] : []),
+    ...(request.basic ? [`  auth: { username: ${quote(request.basic.username)}, password: ${quote(request.basic.password)} },`] : []),
+    ...(dataLine ? [`  data: ${dataLine},`] : []),
+    '});',
+    '',
+    'console.log(response.status, response.data);',
+  ];
+  return lines.join('\n');
+};
+
+// A JSON value written as a Python literal
+const pythonLiteral = (value: any, indent = ''): string => {
+  if (value === null || value === undefined) return 'None';
+  if (value === true) return 'True';
+  if (value === false) return 'False';
+  if (typeof value === 'number') return String(value);
+  if (typeof value === 'string') return quote(value);
+  const inner = `${indent}    `;
+  if (Array.isArray(value)) {
+    if (value.length === 0) return '[]';
+    return `[\n${value.map(item => `${inner}${pythonLiteral(item, inner)},`).join('\n')}\n${indent}]`;
+  }
+  const entries = Object.entries(value);
+  if (entries.length === 0) return '{}';
+  return `{\n${entries.map(([key, item]) => `${inner}${quote(key)}: ${pythonLiteral(item, inner)},`).join('\n')}\n${indent}}`;
+};
+
+const pythonSnippet = (request: SnippetRequest): string => {
+  const { body } = request;
+  const lines = [...notesFor(request, '#', { digest: true }), 'import requests'];
+  if (request.digest) lines.push('from requests.auth import HTTPDigestAuth');
+  lines.push('', `url = ${quote(request.url)}`);
+
+  const args = ['url'];
+  if (Object.keys(request.headers).length > 0) {
+    lines.push(`headers = ${pythonLiteral(request.headers)}`);
+    args.push('headers=headers');
+  }
+  if (body.kind === 'text') {
+    if (body.json !== undefined) {
+      lines.push(`payload = ${pythonLiteral(body.json)}`);
+      args.push('json=payload');
+    } else {
+      lines.push(`payload = ${quote(body.content)}`);
+      args.push('data=payload.encode("utf-8")');
+    }
+  } else if (body.kind === 'urlencoded') {
+    lines.push(`payload = [\n${body.fields.map(([key, value]) => `    (${quote(key)}, ${quote(value)}),`).join('\n')}\n]`);
+    args.push('data=payload');
+  } else if (body.kind === 'multipart') {
+    const files = body.fields.map(field => field.file
+      ? `    (${quote(field.key)}, (${quote(field.file)}, open(${quote(field.file)}, "rb")${field.contentType ? `, ${quote(field.contentType)}` : ''})),`
+      : `    (${quote(field.key)}, (None, ${quote(field.value || '')})),`);
+    lines.push(`files = [\n${files.join('\n')}\n]`);
+    args.push('files=files');
+  } else if (body.kind === 'file') {
+    lines.push(`payload = open(${quote(body.path)}, "rb")`);
+    args.push('data=payload');
+  }
+  if (request.basic) {
+    const credentials = `${quote(request.basic.username)}, ${quote(request.basic.password)}`;
+    args.push(request.digest ? `auth=HTTPDigestAuth(${credentials})` : `auth=(${credentials})`);
+  }
+
+  lines.push('', `response = requests.request(${quote(request.method)}, ${args.join(', ')})`, '', 'print(response.status_code)', 'print(response.text)');
+  return lines.join('\n');
+};
+
+// Text as a Go raw string when it can be one, which keeps JSON bodies readable
+const goString = (text: string) => (/[`\r]/.test(text) ? quote(text) : `\`${text}\``);
+
+const goSnippet = (request: SnippetRequest): string => {
+  const { body } = request;
+  const imports = new Set(['fmt', 'io', 'net/http']);
+  const setup: string[] = [];
+  let bodyVar = 'nil';
+
+  if (body.kind === 'text') {
+    imports.add('strings');
+    setup.push(`body := strings.NewReader(${goString(body.content)})`);
+    bodyVar = 'body';
+  } else if (body.kind === 'urlencoded') {
+    imports.add('net/url');
+    imports.add('strings');
+    setup.push('form := url.Values{}', ...body.fields.map(([key, value]) => `form.Add(${quote(key)}, ${quote(value)})`), 'body := strings.NewReader(form.Encode())');
+    bodyVar = 'body';
+  } else if (body.kind === 'multipart') {
+    imports.add('bytes');
+    imports.add('mime/multipart');
+    setup.push('body := &bytes.Buffer{}', 'writer := multipart.NewWriter(body)');
+    for (const [index, field] of body.fields.entries()) {
+      if (field.file) {
+        imports.add('os');
+        setup.push(
+          `file${index}, err := os.Open(${quote(field.file)})`,
+          'if err != nil {', '\tpanic(err)', '}',
+          `defer file${index}.Close()`,
+          `part${index}, err := writer.CreateFormFile(${quote(field.key)}, ${quote(field.file)})`,
+          'if err != nil {', '\tpanic(err)', '}',
+          `if _, err := io.Copy(part${index}, file${index}); err != nil {`, '\tpanic(err)', '}'
+        );
+      } else {
+        setup.push(`writer.WriteField(${quote(field.key)}, ${quote(field.value || '')})`);
+      }
+    }
+    setup.push('writer.Close()');
+    bodyVar = 'body';
+  } else if (body.kind === 'file') {
+    imports.add('os');
+    setup.push(`body, err := os.Open(${quote(body.path)})`, 'if err != nil {', '\tpanic(err)', '}', 'defer body.Close()');
+    bodyVar = 'body';
+  }
+
+  const requestLines = [
+    `req, err := http.NewRequest(${quote(request.method)}, ${quote(request.url)}, ${bodyVar})`,
+    'if err != nil {', '\tpanic(err)', '}',
+    ...Object.entries(request.headers).map(([key, value]) => `req.Header.Add(${quote(key)}, ${quote(value)})`),
+    ...(body.kind === 'multipart' ? ['req.Header.Set("Content-Type", writer.FormDataContentType())'] : []),
+    ...(request.basic ? [`req.SetBasicAuth(${quote(request.basic.username)}, ${quote(request.basic.password)})`] : []),
+    '',
+    'res, err := http.DefaultClient.Do(req)',
+    'if err != nil {', '\tpanic(err)', '}',
+    'defer res.Body.Close()',
+    '',
+    'data, err := io.ReadAll(res.Body)',
+    'if err != nil {', '\tpanic(err)', '}',
+    'fmt.Println(res.Status)',
+    'fmt.Println(string(data))',
+  ];
+  const bodyLines = [...setup, ...(setup.length > 0 ? [''] : []), ...requestLines];
+
+  return [
+    ...notesFor(request, '//'),
+    'package main',
+    '',
+    'import (',
+    ...[...imports].sort().map(name => `\t${quote(name)}`),
+    ')',
+    '',
+    'func main() {',
+    ...bodyLines.map(line => (line ? `\t${line}` : '')),
+    '}',
+  ].join('\n');
+};
+
+const GENERATORS: Record<SnippetLanguage, (request: SnippetRequest) => string> = {
+  curl: curlSnippet,
+  fetch: fetchSnippet,
+  axios: axiosSnippet,
+  python: pythonSnippet,
+  go: goSnippet,
+};
+
+// Writes code sending the request in the given language. With variables, the
+// {{placeholders}} they hold are substituted and the ones left unresolved are
+// returned as warnings; without, every placeholder is kept as written.
+export const generateCodeSnippet = (
+  request: RequestData,
+  language: SnippetLanguage,
+  variables: Record<string, any> | null
+): { snippet: string; warnings: string[] } => {
+  const warnings = new Set<string>();
+  const prepared = prepare(request, variables, warnings);
+  return { snippet: GENERATORS[language](prepared), warnings: [...warnings] };
+};
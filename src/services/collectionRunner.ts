@@ -1,26 +1,66 @@
 import axios, { AxiosRequestConfig, AxiosResponse, Method } from 'axios';
 import { v4 as uuidv4 } from 'uuid';
+import { runScript, AssertionResult, ScriptResponse } from './scriptRunner.js';
+import { applyExtractions, ExtractionRule } from './extractor.js';
+import { captureLocalChanges, mergeScopes } from './variableScopes.js';
+import { redactSecrets } from './secrets.js';
+import { renderTemplate, renderValue } from './templating.js';
+import { applyBody, BodyMode } from './requestBody.js';
+import { graphqlErrorAssertions } from './graphql.js';
+import { answerAuthChallenge, applyAuth, AuthConfig, AuthSession, createAuthSession } from './auth.js';
+
+// Retries use exponential backoff: backoff, backoff * 2, backoff * 4, ... capped at maxBackoff
+export interface RetryPolicy {
+  retries: number;
+  backoff?: number;
+  maxBackoff?: number;
+  // Network errors and timeouts are retried unless this is false
+  retryOnNetworkError?: boolean;
+  retryOnStatus?: number[];
+}
 
 // Define types based on user's request
-interface RunOptions {
+export interface RunOptions {
   executionMode: 'sequential' | 'parallel';
   delayBetweenRequests?: number;
-  environment: 'development' | 'staging' | 'production';
+  // Name of the environment the variables came from; informational only
+  environment?: string | null;
+  // Stored variables (global, collection and environment scopes) already merged
   variables: Record<string, any>;
+  // Values of secret variables; they are used in requests but redacted from the results
+  secrets?: string[];
+  // One row per iteration; a row's values override the stored variables
+  data?: Record<string, any>[];
+  // Per-attempt timeout in ms
+  timeout?: number;
+  retry?: RetryPolicy;
+  // Upper bound on requests in flight at once in parallel mode
+  maxConcurrency?: number;
+  runId?: string;
+  signal?: AbortSignal;
+  onEvent?: (event: RunEvent) => void;
 }
 
-interface RequestData {
+export interface RequestData {
   id: number;
   name: string;
   method: string;
   url: string;
   headers?: Record<string, any>;
-  body?: Record<string, any>;
+  // Shape depends on body_mode, see requestBody.ts
+  body?: any;
+  body_mode?: BodyMode | null;
   params?: Record<string, any>;
+  pre_request_script?: string | null;
+  post_request_script?: string | null;
+  extractions?: ExtractionRule[] | null;
+  // Effective auth, already resolved against the collection's
+  auth?: AuthConfig | null;
 }
 
-interface RequestResult {
+export interface RequestResult {
   requestId: number;
+  iteration: number;
   name: string;
   method: string;
   url: string;
@@ -32,39 +72,97 @@ interface RequestResult {
     headers: any;
   };
   error?: string;
+  scriptErrors?: {
+    preRequest?: string;
+    postRequest?: string;
+  };
+  assertions: AssertionResult[];
+  // Values captured by the request's extraction rules
+  extracted?: Record<string, any>;
+  warnings?: string[];
+  attempts: number;
   duration: number;
   timestamp: string;
 }
 
-interface RunSummary {
+export interface RunSummary {
   total: number;
   completed: number;
   failed: number;
+  assertionsPassed: number;
+  assertionsFailed: number;
   totalDuration: number;
 }
 
-interface RunOutput {
+export interface IterationResult {
+  iteration: number;
+  data?: Record<string, any>;
+  summary: RunSummary;
+}
+
+export interface RunOutput {
   runId: string;
-  status: 'running' | 'completed' | 'failed';
+  status: 'running' | 'completed' | 'failed' | 'cancelled';
   results: RequestResult[];
+  iterations: IterationResult[];
   summary: RunSummary;
+  startedAt: string;
+  finishedAt?: string;
 }
 
-// Function to replace variables like {{variableName}}
-const replaceVariables = (str: string, variables: Record<string, any>): string => {
-  if (!str) return str;
-  return str.replace(/\{\{(\w+)\}\}/g, (match, variableName) => {
-    return variables[variableName] || match;
-  });
+// Progress notifications emitted while a collection runs
+export type RunEvent =
+  | { type: 'run:start'; runId: string; total: number; iterations: number; startedAt: string }
+  | { type: 'request:start'; runId: string; iteration: number; index: number; requestId: number; name: string; method: string }
+  | { type: 'request:finish'; runId: string; iteration: number; index: number; result: RequestResult }
+  | { type: 'run:finish'; runId: string; status: RunOutput['status']; summary: RunSummary; finishedAt: string };
+
+// Resolves after the delay, or straight away once the run is cancelled
+const wait = (ms: number, signal?: AbortSignal) => new Promise<void>(resolve => {
+  const done = () => {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', done);
+    resolve();
+  };
+  const timer = setTimeout(done, ms);
+  signal?.addEventListener('abort', done, { once: true });
+});
+
+// Settings and state that apply to every request of a run
+type ExecutionOptions = Pick<RunOptions, 'signal' | 'timeout' | 'retry'> & { authSession: AuthSession };
+
+const DEFAULT_BACKOFF = 500;
+const DEFAULT_MAX_BACKOFF = 30000;
+
+const shouldRetry = (retry: RetryPolicy, response?: AxiosResponse): boolean => {
+  if (!response) return retry.retryOnNetworkError !== false;
+  return (retry.retryOnStatus || []).includes(response.status);
+};
+
+// Maps over items with at most 'limit' calls pending at once, keeping the input order
+const mapWithConcurrency = async <T, R>(items: T[], limit: number, fn: (item: T, index: number) => Promise<R>): Promise<R[]> => {
+  const output: R[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      output[index] = await fn(items[index], index);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return output;
 };
 
-const executeRequest = async (request: RequestData, variables: Record<string, any>): Promise<RequestResult> => {
+const executeRequest = async (request: RequestData, variables: Record<string, any>, execution: ExecutionOptions): Promise<RequestResult> => {
+    const { signal, retry } = execution;
     const startTime = Date.now();
+    const templateWarnings = new Set<string>();
     const result: Partial<RequestResult> = {
       requestId: request.id,
       name: request.name,
       method: request.method,
-      url: replaceVariables(request.url, variables),
+      url: renderTemplate(request.url, variables, templateWarnings),
+      attempts: 0,
       timestamp: new Date().toISOString(),
     };
   
@@ -72,13 +170,42 @@ const executeRequest = async (request: RequestData, variables: Record<string, an
       const config: AxiosRequestConfig = {
         method: request.method as Method,
         url: result.url,
-        headers: request.headers ? JSON.parse(replaceVariables(JSON.stringify(request.headers), variables)) : undefined,
-        data: request.body ? JSON.parse(replaceVariables(JSON.stringify(request.body), variables)) : undefined,
-        params: request.params ? JSON.parse(replaceVariables(JSON.stringify(request.params), variables)) : undefined,
+        headers: request.headers ? renderValue(request.headers, variables, templateWarnings) : undefined,
+        params: request.params ? renderValue(request.params, variables, templateWarnings) : undefined,
         validateStatus: () => true, // Always resolve, even for non-2xx statuses
+        timeout: execution.timeout,
+        signal,
       };
+
+      applyBody(request.body_mode, request.body, config, variables, templateWarnings);
+
+      const authContext = { session: execution.authSession, signal, timeout: execution.timeout };
   
-      const response: AxiosResponse = await axios(config);
+      let response: AxiosResponse | undefined;
+      let lastError: any;
+      for (let attempt = 1; ; attempt++) {
+        result.attempts = attempt;
+        // Signatures, their timestamps and Digest nonce counts are good for one request
+        // only, so every attempt is authorized afresh on its own copy of the config
+        const attemptConfig: AxiosRequestConfig = { ...config };
+        const auth = await applyAuth(request.auth, attemptConfig, variables, templateWarnings, authContext);
+        try {
+          const first = await axios(attemptConfig);
+          // Digest auth can only answer once the server has sent its challenge
+          response = answerAuthChallenge(auth, attemptConfig, first, authContext) ? await axios(attemptConfig) : first;
+          lastError = undefined;
+        } catch (error) {
+          response = undefined;
+          lastError = error;
+        }
+
+        if (!retry || attempt > retry.retries || signal?.aborted || !shouldRetry(retry, response)) break;
+
+        const backoff = (retry.backoff ?? DEFAULT_BACKOFF) * 2 ** (attempt - 1);
+        await wait(Math.min(backoff, retry.maxBackoff ?? DEFAULT_MAX_BACKOFF), signal);
+      }
+
+      if (!response) throw lastError;
   
       result.status = 'completed';
       result.response = {
@@ -90,47 +217,239 @@ const executeRequest = async (request: RequestData, variables: Record<string, an
   
     } catch (error: any) {
       result.status = 'failed';
-      result.error = error.message;
+      result.error = signal?.aborted ? 'Request cancelled' : error.message;
+    }
+
+    if (templateWarnings.size > 0) {
+      result.warnings = [...templateWarnings];
     }
   
     result.duration = Date.now() - startTime;
     return result as RequestResult;
   };
 
+// Shapes an executed request's response the way post-request scripts see it as 'pm.response'
+const toScriptResponse = (result: RequestResult): ScriptResponse | undefined => {
+  if (!result.response) return undefined;
+  const { data } = result.response;
+  return {
+    code: result.response.status,
+    status: result.response.statusText,
+    headers: { ...result.response.headers },
+    body: typeof data === 'string' ? data : JSON.stringify(data ?? ''),
+    responseTime: result.duration,
+  };
+};
+
+// Runs a request together with its scripts. The pre-request script may change the
+// variables used to build the request; whatever the post-request script leaves
+// behind is handed back so the caller can carry it forward to later requests.
+// Extraction rules are applied before the post-request script, which therefore
+// sees the extracted values. Both are skipped when the request never got a response.
+const runRequest = async (
+  request: RequestData,
+  variables: Record<string, any>,
+  execution: ExecutionOptions
+): Promise<{ result: RequestResult; variables: Record<string, any> }> => {
+    const scriptErrors: NonNullable<RequestResult['scriptErrors']> = {};
+
+    const preRequest = await runScript(request.pre_request_script || '', variables);
+    if (preRequest.error) {
+      scriptErrors.preRequest = preRequest.error;
+    }
+
+    const result = await executeRequest(request, preRequest.variables, execution);
+    result.assertions = [...preRequest.tests];
+    if (request.body_mode === 'graphql' && result.response) {
+      result.assertions.push(...graphqlErrorAssertions(result.response.data));
+    }
+
+    let finalVariables = preRequest.variables;
+
+    if (result.response && request.extractions?.length) {
+      const extraction = await applyExtractions(request.extractions, result.response);
+      result.extracted = extraction.values;
+      if (extraction.warnings.length > 0) {
+        result.warnings = [...(result.warnings || []), ...extraction.warnings];
+      }
+      finalVariables = { ...finalVariables, ...extraction.values };
+    }
+
+    const response = toScriptResponse(result);
+    if (response) {
+      const postRequest = await runScript(request.post_request_script || '', finalVariables, { response });
+      if (postRequest.error) {
+        scriptErrors.postRequest = postRequest.error;
+      }
+      result.assertions.push(...postRequest.tests);
+      finalVariables = postRequest.variables;
+    }
+
+    if (scriptErrors.preRequest || scriptErrors.postRequest) {
+      result.scriptErrors = scriptErrors;
+    }
+
+    return { result, variables: finalVariables };
+  };
+
+// Redacts the strings of a response body or extracted values: the value itself
+// when it is text, or every key and string value of parsed JSON
+const redactData = (data: any, redact: (text: string) => string): any => {
+  if (typeof data === 'string') return redact(data);
+  if (Array.isArray(data)) return data.map(item => redactData(item, redact));
+  if (data && typeof data === 'object') {
+    return Object.fromEntries(Object.entries(data).map(([key, value]) => [redact(key), redactData(value, redact)]));
+  }
+  return data;
+};
+
+// Removes substituted secrets from everything in a result that echoes the request
+const redactResult = (result: RequestResult, secrets: string[]): RequestResult => {
+  if (secrets.length === 0) return result;
+  const redact = (text: string) => redactSecrets(text, secrets);
+  const redacted: RequestResult = {
+    ...result,
+    url: redact(result.url),
+    assertions: result.assertions.map(assertion => ({
+      ...assertion,
+      name: redact(assertion.name),
+      error: assertion.error && redact(assertion.error),
+    })),
+  };
+  if (result.error) redacted.error = redact(result.error);
+  if (result.warnings) redacted.warnings = result.warnings.map(redact);
+  if (result.extracted) redacted.extracted = redactData(result.extracted, redact);
+  if (result.scriptErrors) {
+    redacted.scriptErrors = {
+      preRequest: result.scriptErrors.preRequest && redact(result.scriptErrors.preRequest),
+      postRequest: result.scriptErrors.postRequest && redact(result.scriptErrors.postRequest),
+    };
+  }
+  if (result.response) {
+    redacted.response = {
+      ...result.response,
+      headers: Object.fromEntries(
+        Object.entries(result.response.headers || {}).map(([name, value]) => [
+          name,
+          Array.isArray(value) ? value.map(v => redact(String(v))) : redact(String(value)),
+        ])
+      ),
+      data: redactData(result.response.data, redact),
+    };
+  }
+  return redacted;
+};
+
+// Sends a single request outside of a run, the same way a run sends each of its
+// requests: scripts, templating, body mode, auth and extraction rules included.
+// The variables the scripts and extraction rules leave behind are handed back.
+export const sendRequest = async (
+  request: RequestData,
+  variables: Record<string, any>,
+  options: Pick<RunOptions, 'signal' | 'timeout' | 'retry' | 'secrets'> = {}
+): Promise<{ result: RequestResult; variables: Record<string, any> }> => {
+  const { signal, timeout, retry } = options;
+  const run = await runRequest(request, variables, { signal, timeout, retry, authSession: createAuthSession() });
+  return { result: { ...redactResult(run.result, options.secrets || []), iteration: 0 }, variables: run.variables };
+};
+
+export const summarizeResults = (results: RequestResult[], total: number, totalDuration: number): RunSummary => ({
+  total,
+  completed: results.filter(r => r.status === 'completed').length,
+  failed: results.filter(r => r.status === 'failed').length,
+  assertionsPassed: results.reduce((count, r) => count + r.assertions.filter(a => a.passed).length, 0),
+  assertionsFailed: results.reduce((count, r) => count + r.assertions.filter(a => !a.passed).length, 0),
+  totalDuration,
+});
+
+// Runs every request of a collection. Aborting options.signal stops the run: requests
+// in flight are cancelled, the remaining ones are never sent and the run ends as 'cancelled'.
 export const runCollection = async (requests: RequestData[], options: RunOptions): Promise<RunOutput> => {
-    const runId = uuidv4();
+    const runId = options.runId || uuidv4();
+    const { signal } = options;
+    const execution: ExecutionOptions = { signal, timeout: options.timeout, retry: options.retry, authSession: createAuthSession() };
     const results: RequestResult[] = [];
     let totalDuration = 0;
   
     const runStartTime = Date.now();
-  
-    if (options.executionMode === 'sequential') {
-      for (const request of requests) {
-        const result = await executeRequest(request, options.variables);
-        results.push(result);
-        if (options.delayBetweenRequests) {
-          await new Promise(resolve => setTimeout(resolve, options.delayBetweenRequests));
+    const startedAt = new Date(runStartTime).toISOString();
+    const emit = (event: RunEvent) => options.onEvent?.(event);
+
+    const runAndReport = async (request: RequestData, iteration: number, index: number, variables: Record<string, any>) => {
+      emit({ type: 'request:start', runId, iteration, index, requestId: request.id, name: request.name, method: request.method });
+      const run = await runRequest(request, variables, execution);
+      run.result = redactResult(run.result, options.secrets || []);
+      run.result.iteration = iteration;
+      emit({ type: 'request:finish', runId, iteration, index, result: run.result });
+      return run;
+    };
+
+    // Without data the collection runs once, as a single iteration with no row
+    const rows: (Record<string, any> | undefined)[] = options.data && options.data.length > 0 ? options.data : [undefined];
+    const iterations: IterationResult[] = [];
+
+    emit({ type: 'run:start', runId, total: requests.length * rows.length, iterations: rows.length, startedAt });
+
+    // Values set during the run by scripts and extraction rules; they take
+    // precedence over the data row and the stored variables
+    let local: Record<string, any> = {};
+    for (const [iteration, row] of rows.entries()) {
+      if (signal?.aborted) break;
+      const iterationStartTime = Date.now();
+      const iterationResults: RequestResult[] = [];
+
+      if (options.executionMode === 'sequential') {
+        // Local values carry over into later requests and iterations
+        for (const [index, request] of requests.entries()) {
+          if (signal?.aborted) break;
+          const variables = mergeScopes({ global: options.variables, data: row, local });
+          const run = await runAndReport(request, iteration, index, variables);
+          local = captureLocalChanges(local, variables, run.variables);
+          iterationResults.push(run.result);
+          if (options.delayBetweenRequests) {
+            await wait(options.delayBetweenRequests, signal);
+          }
         }
+      } else {
+        // Parallel requests cannot see each other's changes, so none of them has local values
+        const limit = options.maxConcurrency || requests.length;
+        const settled = await mapWithConcurrency(requests, limit, async (request, index) => {
+          // Requests still queued when the run is cancelled are never sent
+          if (signal?.aborted) return undefined;
+          const run = await runAndReport(request, iteration, index, mergeScopes({ global: options.variables, data: row }));
+          return run.result;
+        });
+        iterationResults.push(...settled.filter((r): r is RequestResult => r !== undefined));
       }
-    } else {
-      const promises = requests.map(request => executeRequest(request, options.variables));
-      const settledResults = await Promise.all(promises);
-      results.push(...settledResults);
+
+      iterations.push({
+        iteration,
+        data: row,
+        summary: summarizeResults(iterationResults, requests.length, Date.now() - iterationStartTime),
+      });
+      results.push(...iterationResults);
     }
   
     totalDuration = Date.now() - runStartTime;
   
-    const summary: RunSummary = {
-      total: requests.length,
-      completed: results.filter(r => r.status === 'completed').length,
-      failed: results.filter(r => r.status === 'failed').length,
-      totalDuration: totalDuration,
-    };
+    const summary = summarizeResults(results, requests.length * rows.length, totalDuration);
   
+    // A failed assertion fails the run even when every request got a response
+    let status: RunOutput['status'] = summary.failed > 0 || summary.assertionsFailed > 0 ? 'failed' : 'completed';
+    if (signal?.aborted) {
+      status = 'cancelled';
+    }
+
+    const finishedAt = new Date().toISOString();
+    emit({ type: 'run:finish', runId, status, summary, finishedAt });
+
     return {
       runId,
-      status: summary.failed > 0 ? 'failed' : 'completed',
+      status,
       results,
+      iterations,
       summary,
+      startedAt,
+      finishedAt,
     };
   }; 
\ No newline at end of file
@@ -0,0 +1,242 @@
+import { PoolClient } from 'pg';
+import pool from '../config/database.js';
+import { ParsedCollection, PortableCollection, PortableRequest, PortableResponse } from './formats/types.js';
+import { encryptSecret, secretsConfigured } from './secrets.js';
+
+const insertRequest = (client: PoolClient, request: PortableRequest, collectionId: number, userId: number) =>
+  client.query(
+    `INSERT INTO requests (name, method, url, headers, body, body_mode, params, collection_id, created_by, auth,
+                           pre_request_script, post_request_script, folder, extractions, source_ref)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)`,
+    [
+      request.name,
+      request.method,
+      request.url,
+      request.headers,
+      JSON.stringify(request.body ?? {}),
+      request.body_mode,
+      request.params,
+      collectionId,
+      userId,
+      request.auth,
+      request.pre_request_script,
+      request.post_request_script,
+      request.folder,
+      JSON.stringify(request.extractions),
+      request.source_ref ?? null,
+    ]
+  );
+
+// Stores an imported collection with its requests and collection variables in one
+// transaction. Secret variables are stored as plain variables, with a warning, when
+// no encryption key is configured.
+export const saveImportedCollection = async (parsed: ParsedCollection, workspaceId: number, userId: number) => {
+  const imported = parsed.collection;
+  const warnings = [...parsed.warnings];
+  const client = await pool.connect();
+
+  try {
+    await client.query('BEGIN');
+
+    const collectionResult = await client.query(
+      `INSERT INTO collections (name, description, workspace_id, created_by, auth)
+       VALUES ($1, $2, $3, $4, $5)
+       RETURNING *`,
+      [imported.name, imported.description, workspaceId, userId, imported.auth]
+    );
+    const collection = collectionResult.rows[0];
+
+    for (const request of imported.requests) {
+      await insertRequest(client, request, collection.id, userId);
+    }
+
+    const canEncrypt = secretsConfigured();
+    for (const variable of imported.variables) {
+      const secret = variable.secret && canEncrypt;
+      if (variable.secret && !canEncrypt) {
+        warnings.push(`Variable '${variable.key}' was stored unencrypted: no encryption key is configured`);
+      }
+      await client.query(
+        `INSERT INTO variables (variable_key, value, scope, workspace_id, collection_id, is_secret)
+         VALUES ($1, $2, 'collection', $3, $4, $5)`,
+        [variable.key, secret ? encryptSecret(variable.value) : variable.value, workspaceId, collection.id, secret]
+      );
+    }
+
+    await client.query('COMMIT');
+
+    return {
+      collection,
+      requestsImported: imported.requests.length,
+      variablesImported: imported.variables.length,
+      warnings,
+    };
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+};
+
+// Brings a collection generated from an API specification up to date with a new
+// version of it. Requests are matched to operations by source_ref: operations
+// without a request are added, requests whose operation is gone are flagged with
+// source_removed_at (and unflagged if it comes back), and requests that still match
+// are left as they are, since they may have been edited. Collection variables the
+// specification needs that do not exist yet are added. Returns null when the
+// collection is not in the workspace.
+export const syncCollectionRequests = async (collectionId: number | string, parsed: ParsedCollection, workspaceId: number, userId: number) => {
+  const client = await pool.connect();
+
+  try {
+    await client.query('BEGIN');
+
+    const collectionResult = await client.query(
+      'SELECT * FROM collections WHERE id = $1 AND workspace_id = $2 FOR UPDATE',
+      [collectionId, workspaceId]
+    );
+    if (collectionResult.rows.length === 0) {
+      await client.query('ROLLBACK');
+      return null;
+    }
+    const collection = collectionResult.rows[0];
+
+    const existingResult = await client.query(
+      `SELECT id, name, source_ref, source_removed_at
+       FROM requests
+       WHERE collection_id = $1 AND source_ref IS NOT NULL`,
+      [collection.id]
+    );
+    const existing = new Map<string, any>(existingResult.rows.map(row => [row.source_ref, row]));
+    const specRefs = new Set(parsed.collection.requests.map(request => request.source_ref));
+
+    const added: string[] = [];
+    for (const request of parsed.collection.requests) {
+      if (request.source_ref && existing.has(request.source_ref)) continue;
+      await insertRequest(client, request, collection.id, userId);
+      added.push(request.name);
+    }
+
+    const removed: string[] = [];
+    const restored: string[] = [];
+    for (const row of existing.values()) {
+      if (!specRefs.has(row.source_ref) && !row.source_removed_at) {
+        await client.query('UPDATE requests SET source_removed_at = CURRENT_TIMESTAMP WHERE id = $1', [row.id]);
+        removed.push(row.name);
+      } else if (specRefs.has(row.source_ref) && row.source_removed_at) {
+        await client.query('UPDATE requests SET source_removed_at = NULL WHERE id = $1', [row.id]);
+        restored.push(row.name);
+      }
+    }
+
+    const variablesResult = await client.query(
+      `SELECT variable_key FROM variables WHERE workspace_id = $1 AND scope = 'collection' AND collection_id = $2`,
+      [workspaceId, collection.id]
+    );
+    const existingKeys = new Set(variablesResult.rows.map(row => row.variable_key));
+    const variablesAdded: string[] = [];
+    for (const variable of parsed.collection.variables) {
+      if (existingKeys.has(variable.key)) continue;
+      await client.query(
+        `INSERT INTO variables (variable_key, value, scope, workspace_id, collection_id, is_secret)
+         VALUES ($1, $2, 'collection', $3, $4, false)`,
+        [variable.key, variable.value, workspaceId, collection.id]
+      );
+      variablesAdded.push(variable.key);
+    }
+
+    await client.query('UPDATE collections SET updated_at = CURRENT_TIMESTAMP WHERE id = $1', [collection.id]);
+    await client.query('COMMIT');
+
+    return {
+      collection,
+      added,
+      removed,
+      restored,
+      unchanged: existing.size - removed.length - restored.length,
+      variablesAdded,
+      warnings: parsed.warnings,
+    };
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+};
+
+// Reads a collection with its requests and collection variables for export, or
+// null when it is not in the workspace. Secret variables are left out. With
+// withResponses, each request also carries the latest response of each status
+// code in its history.
+export const loadPortableCollection = async (
+  collectionId: number | string,
+  workspaceId: number,
+  { withResponses = false }: { withResponses?: boolean } = {}
+): Promise<PortableCollection | null> => {
+  const collectionResult = await pool.query(
+    'SELECT id, name, description, auth FROM collections WHERE id = $1 AND workspace_id = $2',
+    [collectionId, workspaceId]
+  );
+
+  if (collectionResult.rows.length === 0) {
+    return null;
+  }
+
+  const collection = collectionResult.rows[0];
+
+  const requestsResult = await pool.query(
+    `SELECT id, name, folder, method, url, headers, params, body_mode, body, auth, pre_request_script, post_request_script, extractions, source_ref
+     FROM requests
+     WHERE collection_id = $1
+     ORDER BY created_at ASC, id ASC`,
+    [collection.id]
+  );
+
+  const variablesResult = await pool.query(
+    `SELECT variable_key, value
+     FROM variables
+     WHERE workspace_id = $1 AND scope = 'collection' AND collection_id = $2 AND is_secret = false
+     ORDER BY variable_key ASC`,
+    [workspaceId, collection.id]
+  );
+
+  const responses = new Map<number, PortableResponse[]>();
+  if (withResponses) {
+    const responsesResult = await pool.query(
+      `SELECT DISTINCT ON (h.request_id, h.response_status)
+              h.request_id, h.response_status, h.response_status_text, h.response_headers, h.response_body
+       FROM request_history h
+       JOIN requests r ON r.id = h.request_id
+       WHERE r.collection_id = $1 AND h.response_status IS NOT NULL
+       ORDER BY h.request_id, h.response_status, h.sent_at DESC, h.id DESC`,
+      [collection.id]
+    );
+    for (const row of responsesResult.rows) {
+      const list = responses.get(row.request_id) || [];
+      list.push({
+        status: row.response_status,
+        statusText: row.response_status_text,
+        headers: row.response_headers || {},
+        body: row.response_body,
+      });
+      responses.set(row.request_id, list);
+    }
+  }
+
+  return {
+    name: collection.name,
+    description: collection.description || '',
+    auth: collection.auth,
+    variables: variablesResult.rows.map(row => ({ key: row.variable_key, value: row.value, secret: false })),
+    requests: requestsResult.rows.map(({ id, ...row }) => ({
+      ...row,
+      headers: row.headers || {},
+      params: row.params || {},
+      body_mode: row.body_mode || 'json',
+      extractions: row.extractions || [],
+      ...(withResponses ? { responses: responses.get(id) || [] } : {}),
+    })),
+  };
+};
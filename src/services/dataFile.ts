@@ -0,0 +1,112 @@
+export type DataFileFormat = 'csv' | 'json';
+
+// Upper bound on rows so a single run cannot be made arbitrarily long
+export const MAX_DATA_ROWS = 1000;
+
+// Splits CSV text into records following RFC 4180: quoted fields may contain
+// commas, line breaks and doubled quotes ("").
+const parseCsvRecords = (content: string): string[][] => {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (inQuotes) {
+    throw new Error('Unterminated quoted field');
+  }
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  // Blank lines carry no data
+  return records.filter(r => !(r.length === 1 && r[0].trim() === ''));
+};
+
+const parseCsv = (content: string): Record<string, any>[] => {
+  const [header, ...rows] = parseCsvRecords(content);
+  if (!header) return [];
+
+  const columns = header.map(column => column.trim());
+  if (columns.some(column => !column)) {
+    throw new Error('Every CSV column needs a header');
+  }
+
+  return rows.map((values, index) => {
+    if (values.length !== columns.length) {
+      throw new Error(`Row ${index + 2} has ${values.length} fields, expected ${columns.length}`);
+    }
+    return Object.fromEntries(columns.map((column, i) => [column, values[i]]));
+  });
+};
+
+const parseJsonRows = (data: unknown): Record<string, any>[] => {
+  if (!Array.isArray(data)) {
+    throw new Error('JSON data must be an array of objects');
+  }
+  data.forEach((row, index) => {
+    if (!row || typeof row !== 'object' || Array.isArray(row)) {
+      throw new Error(`Item ${index} is not an object`);
+    }
+  });
+  return data;
+};
+
+// Turns iteration data into one variables object per row. Accepts an already
+// parsed JSON array, or CSV/JSON text; text without a format is treated as JSON
+// when it starts with '[' or '{' and as CSV otherwise. Throws with a readable message
+// when the data is malformed.
+export const parseDataFile = (data: unknown, format?: DataFileFormat): Record<string, any>[] => {
+  let rows: Record<string, any>[];
+
+  if (typeof data === 'string') {
+    const content = data.replace(/^\uFEFF/, '');
+    const resolvedFormat = format || (/^\s*[[{]/.test(content) ? 'json' : 'csv');
+    if (resolvedFormat === 'json') {
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(content);
+      } catch (error: any) {
+        throw new Error(`Invalid JSON: ${error.message}`);
+      }
+      rows = parseJsonRows(parsed);
+    } else {
+      rows = parseCsv(content);
+    }
+  } else {
+    rows = parseJsonRows(data);
+  }
+
+  if (rows.length > MAX_DATA_ROWS) {
+    throw new Error(`Data has ${rows.length} rows, the maximum is ${MAX_DATA_ROWS}`);
+  }
+  return rows;
+};
@@ -0,0 +1,127 @@
+import { PoolClient } from 'pg';
+import pool from '../config/database.js';
+import { MASKED_VALUE, decryptSecret, encryptSecret, readVariableValue, secretsConfigured } from './secrets.js';
+
+export interface Environment {
+  id: number;
+  name: string;
+  // Plain values, secrets included
+  variables: Record<string, string>;
+  // Keys of the variables that are secret
+  secrets: string[];
+}
+
+// A variable is sent as its value, or as { value, secret } to store it encrypted
+export type EnvironmentVariableInput = string | number | boolean | { value: string | number | boolean; secret?: boolean };
+
+const isScalar = (value: unknown) =>
+  typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean';
+
+// Returns an error message unless variables maps keys to values or { value, secret } objects, or null when it is usable
+export const validateEnvironmentVariables = (variables: unknown): string | null => {
+  if (!variables || typeof variables !== 'object' || Array.isArray(variables)) {
+    return 'variables must be an object';
+  }
+  for (const [key, value] of Object.entries(variables)) {
+    if (!key) {
+      return 'Variable keys cannot be empty';
+    }
+    const plain = value && typeof value === 'object' ? (value as any).value : value;
+    if (!isScalar(plain)) {
+      return `Variable '${key}' must be a string, number or boolean, or an object with a value`;
+    }
+    if (value && typeof value === 'object' && (value as any).secret !== undefined && typeof (value as any).secret !== 'boolean') {
+      return `Variable '${key}' secret flag must be a boolean`;
+    }
+  }
+  return null;
+};
+
+// Whether any of the variables is marked as secret
+export const hasSecretVariables = (variables: Record<string, EnvironmentVariableInput>) =>
+  Object.values(variables).some(value => value && typeof value === 'object' && value.secret === true);
+
+// Loads an environment of the workspace with its variables as a key/value map,
+// or null when it does not exist. Secret values are decrypted.
+export const loadEnvironment = async (
+  environmentId: number | string,
+  workspaceId: number
+): Promise<Environment | null> => {
+  const environmentResult = await pool.query(
+    'SELECT id, name FROM environments WHERE id = $1 AND workspace_id = $2',
+    [environmentId, workspaceId]
+  );
+  if (environmentResult.rows.length === 0) return null;
+
+  const variablesResult = await pool.query(
+    'SELECT variable_key, value, is_secret FROM variables WHERE environment_id = $1',
+    [environmentId]
+  );
+
+  const variables: Record<string, string> = {};
+  const secrets: string[] = [];
+  for (const row of variablesResult.rows) {
+    variables[row.variable_key] = readVariableValue(row);
+    if (row.is_secret) secrets.push(row.variable_key);
+  }
+  return { ...environmentResult.rows[0], variables, secrets };
+};
+
+// Why a variable set was not stored: 'masked' when the masked placeholder was sent
+// for a variable that had no secret value to keep, 'no-key' when a secret has to be
+// encrypted or decrypted but no encryption key is configured
+export interface VariablesRejection {
+  key: string;
+  reason: 'masked' | 'no-key';
+}
+
+// Replaces the variable set of an environment; run inside the caller's transaction,
+// which must be rolled back when a rejection is returned. Secrets stay secret unless
+// sent with secret: false, keys listed in secretKeys become secrets, and a secret sent
+// back as the masked placeholder keeps its value.
+export const replaceEnvironmentVariables = async (
+  client: PoolClient,
+  environmentId: number,
+  workspaceId: number,
+  variables: Record<string, EnvironmentVariableInput>,
+  secretKeys: string[] = []
+): Promise<VariablesRejection | null> => {
+  const existingResult = await client.query(
+    'DELETE FROM variables WHERE environment_id = $1 RETURNING variable_key, value, is_secret',
+    [environmentId]
+  );
+  const existing = new Map<string, { value: string; is_secret: boolean }>(
+    existingResult.rows.map(row => [row.variable_key, row])
+  );
+
+  for (const [key, input] of Object.entries(variables)) {
+    const value = String(input && typeof input === 'object' ? input.value : input);
+    const previous = existing.get(key);
+    const secret = (input && typeof input === 'object' && input.secret !== undefined)
+      ? input.secret
+      : secretKeys.includes(key) || !!previous?.is_secret;
+
+    const masked = value === MASKED_VALUE;
+    if (masked && !previous?.is_secret) {
+      return { key, reason: 'masked' };
+    }
+    // A kept secret is copied as stored unless it stops being secret
+    if (secret !== masked && !secretsConfigured()) {
+      return { key, reason: 'no-key' };
+    }
+
+    let stored = value;
+    if (masked) {
+      stored = secret ? previous!.value : decryptSecret(previous!.value);
+    } else if (secret) {
+      stored = encryptSecret(value);
+    }
+
+    await client.query(
+      `INSERT INTO variables (variable_key, value, scope, workspace_id, environment_id, is_secret)
+       VALUES ($1, $2, 'environment', $3, $4, $5)`,
+      [key, stored, workspaceId, environmentId, secret]
+    );
+  }
+  return null;
+};
@@ -0,0 +1,187 @@
+import ivm from 'isolated-vm';
+import { findHeader } from './requestBody.js';
+
+// Declarative rules that capture values from a response into variables, so later
+// requests in a run can use them without a post-request script
+export interface ExtractionRule {
+  variable: string;
+  source: 'jsonpath' | 'header' | 'regex';
+  // JSONPath into the body, header name, or regular expression over the body text
+  expression: string;
+  // Capture group for regex rules; defaults to the first group, or the whole match without groups
+  group?: number;
+}
+
+export interface ExtractionResponse {
+  headers: Record<string, any>;
+  data: any;
+}
+
+const SOURCES = ['jsonpath', 'header', 'regex'];
+
+// Returns an error message for malformed rules, or null when they are all usable
+export const validateExtractions = (rules: unknown): string | null => {
+  if (!Array.isArray(rules)) {
+    return 'extractions must be an array';
+  }
+  for (const [index, rule] of rules.entries()) {
+    if (!rule || typeof rule !== 'object') {
+      return `Extraction ${index} must be an object`;
+    }
+    if (typeof rule.variable !== 'string' || !/^\w+$/.test(rule.variable)) {
+      return `Extraction ${index} needs a variable name made of letters, digits and underscores`;
+    }
+    if (!SOURCES.includes(rule.source)) {
+      return `Extraction ${index} source must be one of ${SOURCES.join(', ')}`;
+    }
+    if (typeof rule.expression !== 'string' || !rule.expression) {
+      return `Extraction ${index} needs an expression`;
+    }
+    if (rule.source === 'jsonpath') {
+      try {
+        parseJsonPath(rule.expression);
+      } catch (error: any) {
+        return `Extraction ${index}: ${error.message}`;
+      }
+    }
+    if (rule.source === 'regex') {
+      try {
+        new RegExp(rule.expression);
+      } catch (error: any) {
+        return `Extraction ${index}: ${error.message}`;
+      }
+    }
+    if (rule.group !== undefined && (!Number.isInteger(rule.group) || rule.group < 0)) {
+      return `Extraction ${index} group must be a non-negative integer`;
+    }
+  }
+  return null;
+};
+
+type PathSegment = string | number | '*';
+
+// Parses the JSONPath subset used for extraction: $.a.b, $['a b'], $.items[0], $.items[-1] and $.items[*].id
+const parseJsonPath = (expression: string): PathSegment[] => {
+  const path = expression.trim();
+  if (!path.startsWith('$')) {
+    throw new Error(`JSONPath '${expression}' must start with $`);
+  }
+
+  const segments: PathSegment[] = [];
+  const token = /\.(\*|[A-Za-z_$][\w$-]*)|\[\s*(?:(-?\d+)|'((?:[^'\\]|\\.)*)'|"((?:[^"\\]|\\.)*)"|(\*))\s*\]/y;
+  let position = 1;
+
+  while (position < path.length) {
+    token.lastIndex = position;
+    const match = token.exec(path);
+    if (!match) {
+      throw new Error(`Unsupported JSONPath syntax at '${path.slice(position)}'`);
+    }
+    const [, name, index, singleQuoted, doubleQuoted, wildcard] = match;
+    if (name !== undefined) segments.push(name);
+    else if (index !== undefined) segments.push(Number(index));
+    else if (singleQuoted !== undefined) segments.push(singleQuoted.replace(/\\(.)/g, '$1'));
+    else if (doubleQuoted !== undefined) segments.push(doubleQuoted.replace(/\\(.)/g, '$1'));
+    else if (wildcard !== undefined) segments.push('*');
+    position = token.lastIndex;
+  }
+
+  return segments;
+};
+
+// Evaluates a JSONPath; a wildcard turns the result into an array of every match
+const evaluateJsonPath = (data: any, expression: string): any => {
+  let current: any[] = [data];
+  let multiple = false;
+
+  for (const segment of parseJsonPath(expression)) {
+    const next: any[] = [];
+    for (const value of current) {
+      if (value === null || typeof value !== 'object') continue;
+      if (segment === '*') {
+        multiple = true;
+        next.push(...Object.values(value));
+      } else if (typeof segment === 'number' && Array.isArray(value)) {
+        const item = value[segment < 0 ? value.length + segment : segment];
+        if (item !== undefined) next.push(item);
+      } else if (Object.prototype.hasOwnProperty.call(value, segment)) {
+        next.push(value[segment]);
+      }
+    }
+    current = next;
+  }
+
+  return multiple ? current : current[0];
+};
+
+const bodyAsText = (data: any): string => (typeof data === 'string' ? data : JSON.stringify(data ?? ''));
+
+const bodyAsJson = (data: any): any => {
+  if (typeof data !== 'string') return data;
+  try {
+    return JSON.parse(data);
+  } catch {
+    return undefined;
+  }
+};
+
+const REGEX_TIMEOUT = 1000;
+
+// Patterns come from users and bodies can be large, so matching runs in an isolate
+// where a pattern that backtracks catastrophically is stopped instead of blocking the server
+const matchInIsolate = async (expression: string, text: string): Promise<(string | null)[] | null> => {
+  const isolate = new ivm.Isolate({ memoryLimit: 128 });
+
+  try {
+    const context = await isolate.createContext();
+    await context.global.set('__expression', expression);
+    await context.global.set('__text', text);
+    return JSON.parse(await context.eval('JSON.stringify(new RegExp(__expression).exec(__text))', { timeout: REGEX_TIMEOUT }));
+  } catch (error: any) {
+    throw /timed out/i.test(error.message)
+      ? new Error(`the pattern took longer than ${REGEX_TIMEOUT} ms to match`)
+      : error;
+  } finally {
+    if (!isolate.isDisposed) {
+      isolate.dispose();
+    }
+  }
+};
+
+// Applies each rule to the response. Rules that find nothing are reported as
+// warnings and leave their variable untouched.
+export const applyExtractions = async (
+  rules: ExtractionRule[],
+  response: ExtractionResponse
+): Promise<{ values: Record<string, any>; warnings: string[] }> => {
+  const values: Record<string, any> = {};
+  const warnings: string[] = [];
+
+  for (const rule of rules) {
+    let value: any;
+
+    try {
+      if (rule.source === 'jsonpath') {
+        value = evaluateJsonPath(bodyAsJson(response.data), rule.expression);
+      } else if (rule.source === 'header') {
+        const header = findHeader(response.headers, rule.expression);
+        value = header ? response.headers[header] : undefined;
+      } else {
+        const match = await matchInIsolate(rule.expression, bodyAsText(response.data));
+        // Groups that did not take part in the match come back as null
+        value = match?.[rule.group ?? (match.length > 1 ? 1 : 0)] ?? undefined;
+      }
+    } catch (error: any) {
+      warnings.push(`Extraction of '${rule.variable}' failed: ${error.message}`);
+      continue;
+    }
+
+    if (value === undefined) {
+      warnings.push(`Extraction of '${rule.variable}' found no value for ${rule.source} '${rule.expression}'`);
+      continue;
+    }
+    values[rule.variable] = value;
+  }
+
+  return { values, warnings };
+};
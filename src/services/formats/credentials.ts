@@ -0,0 +1,37 @@
+import { AuthConfig } from '../auth.js';
+
+// Exports leave the workspace, so the credentials of auth configs are replaced
+// with {{variables}} to be defined by whoever imports the file. Values that are
+// already {{variable}} references give nothing away and are kept.
+
+// The credential fields of each auth type, and the variable put in their place
+const CREDENTIAL_VARIABLES: Record<string, Record<string, string>> = {
+  basic: { password: 'password' },
+  digest: { password: 'password' },
+  bearer: { token: 'bearerToken' },
+  apikey: { value: 'apiKey' },
+  oauth2: { clientSecret: 'clientSecret', password: 'password' },
+  awsv4: { accessKeyId: 'AWS_ACCESS_KEY_ID', secretAccessKey: 'AWS_SECRET_ACCESS_KEY', sessionToken: 'AWS_SESSION_TOKEN' },
+  hmac: { secret: 'hmacSecret' },
+};
+
+const VARIABLE_REFERENCES = /^(\{\{[^{}]+\}\})+$/;
+
+// Returns the auth with its credentials replaced, adding the variables it now
+// refers to into `variables`
+export const withoutCredentials = (auth: AuthConfig | null, variables: Set<string>): AuthConfig | null => {
+  const fields = auth ? CREDENTIAL_VARIABLES[auth.type] : undefined;
+  if (!auth || !fields) return auth;
+
+  const replaced: Record<string, any> = { ...auth };
+  for (const [field, variable] of Object.entries(fields)) {
+    const value = replaced[field];
+    if (typeof value !== 'string' || !value || VARIABLE_REFERENCES.test(value.trim())) continue;
+    replaced[field] = `{{${variable}}}`;
+    variables.add(variable);
+  }
+  return replaced as AuthConfig;
+};
+
+export const credentialsNote = (variables: Set<string>): string =>
+  `Credentials were left out of the export; define ${[...variables].map(variable => `{{${variable}}}`).join(', ')} before sending.`;
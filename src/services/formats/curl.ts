@@ -0,0 +1,554 @@
+import { AuthConfig } from '../auth.js';
+import { BodyField, BodyMode, findHeader } from '../requestBody.js';
+import { PortableRequest, validatePortableRequest } from './types.js';
+
+// Reads a cURL command line, as copied from a terminal, browser dev tools or API
+// docs, into a request. Options that only change how curl itself behaves
+// (-s, -L, --compressed, ...) are ignored; anything that would change the request
+// but cannot be carried over, such as data read from files, is reported as a warning,
+// as are options this reader does not know.
+
+// Options followed by a value, with the long name each short one stands for
+const SHORT_OPTIONS: Record<string, string> = {
+  X: 'request',
+  H: 'header',
+  d: 'data',
+  F: 'form',
+  u: 'user',
+  A: 'user-agent',
+  e: 'referer',
+  b: 'cookie',
+  o: 'output',
+  m: 'max-time',
+  x: 'proxy',
+  w: 'write-out',
+  c: 'cookie-jar',
+  E: 'cert',
+  T: 'upload-file',
+  r: 'range',
+  U: 'proxy-user',
+  K: 'config',
+  C: 'continue-at',
+  D: 'dump-header',
+  P: 'ftp-port',
+  Q: 'quote',
+  Y: 'speed-limit',
+  y: 'speed-time',
+  t: 'telnet-option',
+  z: 'time-cond',
+};
+
+// Short options that take no value
+const SHORT_FLAGS: Record<string, string> = {
+  G: 'get',
+  I: 'head',
+  s: 'silent',
+  S: 'show-error',
+  L: 'location',
+  k: 'insecure',
+  v: 'verbose',
+  i: 'include',
+  f: 'fail',
+  N: 'no-buffer',
+  g: 'globoff',
+  '#': 'progress-bar',
+  '0': 'http1.0',
+  '1': 'tlsv1',
+  '2': 'sslv2',
+  '3': 'sslv3',
+  '4': 'ipv4',
+  '6': 'ipv6',
+  ':': 'next',
+  a: 'append',
+  B: 'use-ascii',
+  h: 'help',
+  j: 'junk-session-cookies',
+  J: 'remote-header-name',
+  l: 'list-only',
+  M: 'manual',
+  n: 'netrc',
+  O: 'remote-name',
+  p: 'proxytunnel',
+  q: 'disable',
+  R: 'remote-time',
+  V: 'version',
+  Z: 'parallel',
+};
+
+// Long options that take no value and do not change the request. Any of them can
+// also be turned off with a --no- prefix.
+const IGNORED_FLAGS = [
+  ...Object.values(SHORT_FLAGS), 'compressed', 'fail-with-body', 'http1.1', 'http2', 'http2-prior-knowledge', 'http3',
+  'tlsv1.0', 'tlsv1.1', 'tlsv1.2', 'tlsv1.3', 'no-progress-meter', 'location-trusted', 'raw', 'tcp-nodelay', 'keepalive',
+  'sessionid', 'path-as-is', 'post301', 'post302', 'post303', 'remote-name-all', 'create-dirs', 'netrc-optional',
+  'styled-output', 'anyauth', 'basic', 'ssl', 'ssl-reqd', 'ssl-no-revoke', 'retry-connrefused', 'retry-all-errors',
+  'tr-encoding', 'xattr', 'false-start', 'cert-status', 'disallow-username-in-url', 'suppress-connect-headers', 'alpn',
+  'npn', 'buffer', 'progress-meter', 'show-headers', 'proxy-insecure', 'ca-native', 'compressed-ssh',
+];
+
+// Long options that take a value but do not change the request
+const IGNORED_WITH_VALUE = [
+  'output', 'max-time', 'connect-timeout', 'proxy', 'write-out', 'cookie-jar', 'cert', 'key', 'cacert', 'capath',
+  'retry', 'retry-delay', 'retry-max-time', 'max-redirs', 'resolve', 'connect-to', 'interface', 'limit-rate',
+  'proxy-user', 'config', 'range', 'trace', 'trace-ascii', 'dump-header', 'stderr', 'max-filesize', 'keepalive-time',
+  'expect100-timeout', 'cert-type', 'key-type', 'pass', 'ciphers', 'dns-servers', 'local-port', 'unix-socket',
+  'continue-at', 'ftp-port', 'quote', 'speed-limit', 'speed-time', 'telnet-option', 'time-cond', 'noproxy', 'netrc-file',
+  'proto', 'proto-redir', 'proto-default', 'preproxy', 'proxy-header', 'socks4', 'socks4a', 'socks5', 'socks5-hostname',
+  'output-dir', 'etag-save', 'etag-compare', 'hsts', 'alt-svc', 'doh-url', 'pinnedpubkey', 'happy-eyeballs-timeout-ms',
+  'abstract-unix-socket', 'create-file-mode', 'service-name', 'sasl-authzid', 'login-options', 'tls-max',
+];
+
+// Long options that take a value and make up the request
+const REQUEST_OPTIONS = [
+  'request', 'header', 'data', 'data-raw', 'data-ascii', 'data-binary', 'data-urlencode', 'json', 'form', 'form-string',
+  'user', 'user-agent', 'referer', 'cookie', 'url', 'url-query', 'upload-file', 'aws-sigv4', 'oauth2-bearer',
+];
+
+const looksLikeUrl = (word: string) => /^[a-z][a-z0-9+.-]*:\/\//i.test(word) || word.startsWith('{{');
+
+// Splits a command line into words the way a POSIX shell would: quotes, backslash
+// escapes and line continuations, including bash's $'...' strings
+const tokenize = (command: string): string[] => {
+  const words: string[] = [];
+  let word = '';
+  let inWord = false;
+  let i = 0;
+
+  const ESCAPES: Record<string, string> = { n: '\n', t: '\t', r: '\r', '\\': '\\', "'": "'", '"': '"', '0': '\0', a: '\x07', b: '\b', e: '\x1b', f: '\f', v: '\v' };
+
+  while (i < command.length) {
+    const char = command[i];
+    if (char === '\\' && (command[i + 1] === '\n' || (command[i + 1] === '\r' && command[i + 2] === '\n'))) {
+      // Line continuation
+      i += command[i + 1] === '\r' ? 3 : 2;
+    } else if (/\s/.test(char)) {
+      if (inWord) words.push(word);
+      word = '';
+      inWord = false;
+      i++;
+    } else if (char === "'") {
+      const end = command.indexOf("'", i + 1);
+      if (end === -1) throw new Error('The command has an unterminated single quote');
+      word += command.slice(i + 1, end);
+      inWord = true;
+      i = end + 1;
+    } else if (char === '$' && command[i + 1] === "'") {
+      i += 2;
+      while (i < command.length && command[i] !== "'") {
+        if (command[i] === '\\' && i + 1 < command.length) {
+          const next = command[i + 1];
+          if (next === 'x' && /^[0-9a-f]{2}$/i.test(command.slice(i + 2, i + 4))) {
+            word += String.fromCharCode(parseInt(command.slice(i + 2, i + 4), 16));
+            i += 4;
+          } else if (next === 'u' && /^[0-9a-f]{4}$/i.test(command.slice(i + 2, i + 6))) {
+            word += String.fromCharCode(parseInt(command.slice(i + 2, i + 6), 16));
+            i += 6;
+          } else {
+            word += ESCAPES[next] ?? `\\${next}`;
+            i += 2;
+          }
+        } else {
+          word += command[i++];
+        }
+      }
+      if (i >= command.length) throw new Error('The command has an unterminated $\' quote');
+      inWord = true;
+      i++;
+    } else if (char === '"') {
+      i++;
+      while (i < command.length && command[i] !== '"') {
+        // Inside double quotes a backslash only escapes these
+        if (command[i] === '\\' && ['"', '\\', '$', '`', '\n'].includes(command[i + 1])) {
+          if (command[i + 1] !== '\n') word += command[i + 1];
+          i += 2;
+        } else {
+          word += command[i++];
+        }
+      }
+      if (i >= command.length) throw new Error('The command has an unterminated double quote');
+      inWord = true;
+      i++;
+    } else if (char === '\\' && i + 1 < command.length) {
+      word += command[i + 1];
+      inWord = true;
+      i += 2;
+    } else {
+      word += char;
+      inWord = true;
+      i++;
+    }
+  }
+  if (inWord) words.push(word);
+  return words;
+};
+
+interface CurlOptions {
+  method: string | null;
+  url: string | null;
+  headers: [string, string][];
+  data: string[];
+  // Whether a -d, --data*, --json or -F option was given, even one whose content was left out
+  sendsData: boolean;
+  // Encoded name=value pairs added to the URL's query by --url-query
+  query: string[];
+  form: { key: string; value: string; file: boolean; filename?: string; contentType?: string }[];
+  user: string | null;
+  json: boolean;
+  get: boolean;
+  head: boolean;
+  awsSigv4: string | null;
+  bearer: string | null;
+}
+
+// Reads a -F value: name=value, name=@file or name=<file, with ;type= and ;filename= attributes
+const parseFormField = (value: string, literal: boolean, warnings: string[]): CurlOptions['form'][number] | null => {
+  const equals = value.indexOf('=');
+  if (equals === -1) {
+    warnings.push(`Form field '${value}' has no value and was left out`);
+    return null;
+  }
+  const key = value.slice(0, equals);
+  let content = value.slice(equals + 1);
+  if (literal) return { key, value: content, file: false };
+
+  const attributes: Record<string, string> = {};
+  const parts = content.split(';');
+  if (parts.length > 1 && parts.slice(1).every(part => /^\s*(type|filename|headers|encoder)=/.test(part))) {
+    content = parts[0];
+    for (const part of parts.slice(1)) {
+      const [name, ...rest] = part.trim().split('=');
+      attributes[name] = rest.join('=').replace(/^"(.*)"$/, '$1');
+    }
+  }
+
+  if (content.startsWith('@') || content.startsWith('<')) {
+    const path = content.slice(1);
+    if (content.startsWith('<')) {
+      warnings.push(`Form field '${key}' reads its value from ${path}, which was left empty`);
+      return { key, value: '', file: false };
+    }
+    warnings.push(`Form field '${key}' uploads ${path}; attach the file's contents to the request`);
+    return { key, value: '', file: true, filename: attributes.filename || path.split(/[\\/]/).pop(), contentType: attributes.type };
+  }
+  return { key, value: content, file: false };
+};
+
+// Encodes a --data-urlencode or --url-query value: content, =content, name=content,
+// @file or name@file. Returns null for values read from a file.
+const urlencodePair = (value: string, target: string, warnings: string[]): string | null => {
+  const match = value.match(/^([^=@]*)([=@])([\s\S]*)$/);
+  if (!match) return encodeURIComponent(value);
+  if (match[2] === '@') {
+    warnings.push(`The value of ${match[1] || target} is read from ${match[3]}; it was left out`);
+    return null;
+  }
+  return `${match[1] ? `${match[1]}=` : ''}${encodeURIComponent(match[3])}`;
+};
+
+const readOptions = (words: string[], warnings: string[]): CurlOptions => {
+  const options: CurlOptions = {
+    method: null, url: null, headers: [], data: [], sendsData: false, query: [], form: [], user: null, json: false, get: false, head: false, awsSigv4: null, bearer: null,
+  };
+
+  const apply = (name: string, value: string) => {
+    switch (name) {
+      case 'request':
+        options.method = value.toUpperCase();
+        break;
+      case 'header': {
+        if (value.startsWith('@')) {
+          warnings.push(`Headers read from ${value.slice(1)} were left out`);
+          break;
+        }
+        // "Name;" sends an empty header, "Name:" removes one curl would add
+        const colon = value.indexOf(':');
+        if (colon === -1) {
+          if (value.endsWith(';')) options.headers.push([value.slice(0, -1).trim(), '']);
+          break;
+        }
+        const headerValue = value.slice(colon + 1).trim();
+        if (headerValue) options.headers.push([value.slice(0, colon).trim(), headerValue]);
+        break;
+      }
+      case 'data':
+      case 'data-ascii':
+      case 'data-binary':
+        options.sendsData = true;
+        if (value.startsWith('@')) {
+          warnings.push(`The body is read from ${value.slice(1)}; it was left out`);
+          break;
+        }
+        // curl strips line breaks from -d data, not from --data-binary
+        options.data.push(name === 'data-binary' ? value : value.replace(/[\r\n]/g, ''));
+        break;
+      case 'data-raw':
+        options.sendsData = true;
+        options.data.push(value);
+        break;
+      case 'json':
+        options.json = true;
+        options.sendsData = true;
+        if (value.startsWith('@')) {
+          warnings.push(`The body is read from ${value.slice(1)}; it was left out`);
+          break;
+        }
+        options.data.push(value);
+        break;
+      case 'data-urlencode': {
+        options.sendsData = true;
+        const pair = urlencodePair(value, 'the body', warnings);
+        if (pair !== null) options.data.push(pair);
+        break;
+      }
+      case 'url-query': {
+        // A leading + adds the value as it is
+        const pair = value.startsWith('+') ? value.slice(1) : urlencodePair(value, 'the query', warnings);
+        if (pair) options.query.push(pair);
+        break;
+      }
+      case 'form':
+      case 'form-string': {
+        options.sendsData = true;
+        const field = parseFormField(value, name === 'form-string', warnings);
+        if (field) options.form.push(field);
+        break;
+      }
+      case 'user':
+        options.user = value;
+        break;
+      case 'user-agent':
+        options.headers.push(['User-Agent', value]);
+        break;
+      case 'referer':
+        options.headers.push(['Referer', value.replace(/;auto$/, '')]);
+        break;
+      case 'cookie':
+        // Without a "=", the value names a cookie file
+        if (value.includes('=')) {
+          options.headers.push(['Cookie', value]);
+        } else {
+          warnings.push(`Cookies read from ${value} were left out`);
+        }
+        break;
+      case 'url':
+        options.url = value;
+        break;
+      case 'upload-file':
+        warnings.push(`The upload of ${value} was left out`);
+        options.method = options.method || 'PUT';
+        break;
+      case 'aws-sigv4':
+        options.awsSigv4 = value;
+        break;
+      case 'oauth2-bearer':
+        options.bearer = value;
+        break;
+    }
+  };
+
+  let index = 1;
+  let optionsEnded = false;
+
+  // Whether an unknown option takes a value cannot be told, so the word after it is
+  // taken as its value unless it looks like a URL. Should no URL turn up, the first
+  // word taken that way is used as the URL after all.
+  let skippedWord: string | undefined;
+  const skipUnknown = (option: string, attached: boolean) => {
+    warnings.push(`Option ${option} is not supported and was left out`);
+    const next = words[index];
+    if (attached || next === undefined || next.startsWith('-') || looksLikeUrl(next)) return;
+    skippedWord = skippedWord ?? next;
+    index++;
+  };
+
+  while (index < words.length) {
+    const word = words[index++];
+
+    if (optionsEnded || !word.startsWith('-') || word === '-') {
+      if (options.url) warnings.push(`Only the first URL is used; ${word} was left out`);
+      else options.url = word;
+      continue;
+    }
+    if (word === '--') {
+      optionsEnded = true;
+      continue;
+    }
+
+    if (word.startsWith('--')) {
+      const [name, inline] = word.slice(2).split(/=(.*)/s);
+      if (REQUEST_OPTIONS.includes(name) || IGNORED_WITH_VALUE.includes(name)) {
+        const value = inline ?? words[index++];
+        if (value === undefined) throw new Error(`Option --${name} needs a value`);
+        apply(name, value);
+      } else if (name === 'get') {
+        options.get = true;
+      } else if (name === 'head') {
+        options.head = true;
+      } else if (name === 'digest' || name === 'ntlm' || name === 'negotiate') {
+        warnings.push(`--${name} authentication is not supported; the credentials are used for Basic auth`);
+      } else if (!IGNORED_FLAGS.includes(name.replace(/^no-/, ''))) {
+        skipUnknown(`--${name}`, inline !== undefined);
+      }
+      continue;
+    }
+
+    // Short options can be combined (-sSL) and take their value attached (-XPOST) or as the next word
+    for (let position = 1; position < word.length; position++) {
+      const letter = word[position];
+      const long = SHORT_OPTIONS[letter];
+      if (long) {
+        const value = position + 1 < word.length ? word.slice(position + 1) : words[index++];
+        if (value === undefined) throw new Error(`Option -${letter} needs a value`);
+        apply(long, value);
+        break;
+      }
+      if (!SHORT_FLAGS[letter]) {
+        // Like any option with a value, an unknown one takes the rest of the word
+        skipUnknown(`-${letter}`, position + 1 < word.length);
+        break;
+      }
+      if (SHORT_FLAGS[letter] === 'get') options.get = true;
+      if (SHORT_FLAGS[letter] === 'head') options.head = true;
+    }
+  }
+
+  if (!options.url && skippedWord !== undefined) {
+    options.url = skippedWord;
+  }
+  return options;
+};
+
+// Splits a query string or urlencoded body into decoded pairs
+const decodePairs = (text: string): [string, string][] =>
+  text.split('&').filter(Boolean).map(pair => {
+    const [key, value = ''] = pair.split(/=(.*)/s);
+    const decode = (part: string) => {
+      try {
+        return decodeURIComponent(part.replace(/\+/g, ' '));
+      } catch {
+        return part;
+      }
+    };
+    return [decode(key), decode(value)];
+  });
+
+const isUrlencoded = (text: string) => /^[^=&\s]+=[^&\s]*(&[^=&\s]+=[^&\s]*)*$/.test(text);
+
+const convertBody = (options: CurlOptions, contentType: string | undefined): { body_mode: BodyMode; body: any } => {
+  if (options.form.length > 0) {
+    return {
+      body_mode: 'formdata',
+      body: options.form.map((field): BodyField => field.file
+        ? { key: field.key, type: 'file', data: '', ...(field.filename ? { filename: field.filename } : {}), ...(field.contentType ? { contentType: field.contentType } : {}) }
+        : { key: field.key, value: field.value }),
+    };
+  }
+  if (options.data.length === 0) return { body_mode: 'none', body: {} };
+
+  const data = options.data.join('&');
+  const type = (contentType || '').toLowerCase();
+  if (options.json || /[/+]json\b/.test(type) || (!type && /^\s*[[{]/.test(data))) {
+    try {
+      return { body_mode: 'json', body: JSON.parse(data) };
+    } catch {
+      // JSON with placeholders or a typo is kept as it was written
+      return { body_mode: 'raw', body: { content: data, contentType: contentType || 'application/json' } };
+    }
+  }
+  if ((!type || type.startsWith('application/x-www-form-urlencoded')) && isUrlencoded(data)) {
+    return { body_mode: 'urlencoded', body: decodePairs(data).map(([key, value]) => ({ key, value })) };
+  }
+  // curl sends -d data as a form unless told otherwise
+  return { body_mode: 'raw', body: { content: data, contentType: contentType || 'application/x-www-form-urlencoded' } };
+};
+
+const convertAuth = (options: CurlOptions, warnings: string[]): AuthConfig | null => {
+  if (options.bearer) return { type: 'bearer', token: options.bearer };
+  if (!options.user) return null;
+
+  const colon = options.user.indexOf(':');
+  const username = colon === -1 ? options.user : options.user.slice(0, colon);
+  const password = colon === -1 ? '' : options.user.slice(colon + 1);
+  if (colon === -1 && !options.awsSigv4) warnings.push(`No password was given for ${username}; curl would have asked for it`);
+
+  if (options.awsSigv4) {
+    // provider1[:provider2[:region[:service]]]
+    const [, , region, service] = options.awsSigv4.split(':');
+    if (region && service) {
+      return { type: 'awsv4', service, region, accessKeyId: username, secretAccessKey: password };
+    }
+    warnings.push('--aws-sigv4 needs a region and service to be converted; Basic auth was used instead');
+  }
+  return { type: 'basic', username, password };
+};
+
+// Parses a cURL command into a request named after its method and path.
+// Throws when the command cannot be read or names no URL.
+export const parseCurlCommand = (command: string): { request: PortableRequest; warnings: string[] } => {
+  const warnings: string[] = [];
+  const words = tokenize(command.trim().replace(/^\$\s+/, ''));
+  if (words.length === 0 || !/^curl(\.exe)?$/i.test(words[0])) {
+    throw new Error('Not a cURL command: it must start with curl');
+  }
+
+  const options = readOptions(words, warnings);
+  if (!options.url) {
+    throw new Error('The command has no URL');
+  }
+
+  // curl assumes http:// for URLs without a scheme
+  let address = /^[a-z][a-z0-9+.-]*:\/\//i.test(options.url) || options.url.startsWith('{{') ? options.url : `http://${options.url}`;
+  const [base, search = ''] = address.replace(/#.*$/, '').split(/\?(.*)/s);
+  address = base;
+  const params: Record<string, string> = Object.fromEntries(decodePairs([search, ...options.query].filter(Boolean).join('&')));
+
+  // Repeated headers are sent as one, the way servers combine them
+  const headers: Record<string, string> = {};
+  for (const [key, value] of options.headers) {
+    const existing = findHeader(headers, key);
+    if (existing) {
+      headers[existing] += `${key.toLowerCase() === 'cookie' ? '; ' : ', '}${value}`;
+    } else {
+      headers[key] = value;
+    }
+  }
+
+  const contentTypeHeader = findHeader(headers, 'content-type');
+  const contentType = contentTypeHeader && headers[contentTypeHeader];
+  let { body_mode, body } = convertBody(options, contentType);
+
+  // -G sends the data as query parameters
+  if (options.get && options.data.length > 0) {
+    Object.assign(params, Object.fromEntries(decodePairs(options.data.join('&'))));
+    body_mode = 'none';
+    body = {};
+  }
+
+  if (options.json) {
+    if (!contentType) headers['Content-Type'] = 'application/json';
+    if (!findHeader(headers, 'accept')) headers.Accept = 'application/json';
+  }
+
+  const method = options.method
+    || (options.head ? 'HEAD' : options.get ? 'GET' : options.sendsData ? 'POST' : 'GET');
+  const path = address.replace(/^[a-z][a-z0-9+.-]*:\/\/[^/]*/i, '') || '/';
+
+  const request: PortableRequest = {
+    name: `${method} ${path}`.slice(0, 255),
+    folder: null,
+    method,
+    url: address,
+    headers,
+    params,
+    body_mode,
+    body,
+    auth: convertAuth(options, warnings),
+    pre_request_script: null,
+    post_request_script: null,
+    extractions: [],
+  };
+  const error = validatePortableRequest(request);
+  if (error) throw new Error(error);
+
+  return { request, warnings };
+};
@@ -0,0 +1,102 @@
+import { validateAuth } from '../auth.js';
+import { validateBody } from '../requestBody.js';
+import { validateExtractions } from '../extractor.js';
+import { ParsedCollection, PortableCollection, validatePortableCollection } from './types.js';
+import { credentialsNote, withoutCredentials } from './credentials.js';
+
+// GETapi's own export format: the stored collection as is, so that importing an
+// export gives back the same collection, except for auth credentials, which are
+// replaced with variables. The version is bumped whenever the shape changes;
+// older versions stay importable.
+export const NATIVE_FORMAT = 'getapi-collection';
+export const NATIVE_VERSION = 1;
+
+export const exportNativeCollection = (collection: PortableCollection) => {
+  const credentials = new Set<string>();
+  const auth = withoutCredentials(collection.auth, credentials);
+  const requests = collection.requests.map(request => ({ ...request, auth: withoutCredentials(request.auth, credentials) }));
+
+  return {
+    format: NATIVE_FORMAT,
+    version: NATIVE_VERSION,
+    exportedAt: new Date().toISOString(),
+    collection: {
+      name: collection.name,
+      description: collection.description,
+      auth,
+    },
+    variables: collection.variables.map(({ key, value }) => ({ key, value })),
+    requests,
+    ...(credentials.size > 0 ? { notes: [credentialsNote(credentials)] } : {}),
+  };
+};
+
+const isPlainObject = (value: unknown) => !!value && typeof value === 'object' && !Array.isArray(value);
+
+// Reads a native export back. Unlike other formats nothing is dropped with a
+// warning: a bundle that does not hold up is rejected as a whole.
+export const parseNativeCollection = (document: any): ParsedCollection => {
+  if (document?.format !== NATIVE_FORMAT) {
+    throw new Error(`Not a GETapi collection export: format must be ${NATIVE_FORMAT}`);
+  }
+  if (!Number.isInteger(document.version) || document.version < 1 || document.version > NATIVE_VERSION) {
+    throw new Error(`Unsupported export version ${document.version}; this server reads versions 1 to ${NATIVE_VERSION}`);
+  }
+
+  const { collection, variables = [], requests = [] } = document;
+  if (!isPlainObject(collection) || typeof collection.name !== 'string' || !collection.name.trim()) {
+    throw new Error('collection.name is required');
+  }
+  const authError = validateAuth(collection.auth);
+  if (authError) throw new Error(`Collection: ${authError}`);
+
+  if (!Array.isArray(variables) || !variables.every(v => isPlainObject(v) && typeof v.key === 'string' && v.key && typeof v.value === 'string')) {
+    throw new Error('variables must be an array of { key, value } strings');
+  }
+  if (new Set(variables.map((v: any) => v.key)).size !== variables.length) {
+    throw new Error('variables must not repeat a key');
+  }
+
+  if (!Array.isArray(requests)) {
+    throw new Error('requests must be an array');
+  }
+  for (const [index, request] of requests.entries()) {
+    const where = `Request ${index + 1}`;
+    if (!isPlainObject(request) || typeof request.name !== 'string' || typeof request.method !== 'string' || typeof request.url !== 'string') {
+      throw new Error(`${where}: name, method and url are required`);
+    }
+    if (request.folder !== undefined && request.folder !== null && typeof request.folder !== 'string') {
+      throw new Error(`${where}: folder must be a string`);
+    }
+    const error = validateBody(request.body_mode ?? 'json', request.body)
+      || validateAuth(request.auth)
+      || (request.extractions !== undefined ? validateExtractions(request.extractions) : null);
+    if (error) throw new Error(`${where}: ${error}`);
+  }
+
+  const parsed: PortableCollection = {
+    name: collection.name,
+    description: typeof collection.description === 'string' ? collection.description : '',
+    auth: collection.auth ?? null,
+    variables: variables.map((v: any) => ({ key: v.key, value: v.value, secret: false })),
+    requests: requests.map((request: any) => ({
+      name: request.name,
+      folder: request.folder ?? null,
+      method: request.method.toUpperCase(),
+      url: request.url,
+      headers: request.headers || {},
+      params: request.params || {},
+      body_mode: request.body_mode ?? 'json',
+      body: request.body ?? {},
+      auth: request.auth ?? null,
+      pre_request_script: request.pre_request_script ?? null,
+      post_request_script: request.post_request_script ?? null,
+      extractions: request.extractions || [],
+      source_ref: typeof request.source_ref === 'string' ? request.source_ref : null,
+    })),
+  };
+  const error = validatePortableCollection(parsed);
+  if (error) throw new Error(error);
+
+  return { collection: parsed, warnings: [] };
+};
@@ -0,0 +1,709 @@
+import { AuthConfig } from '../auth.js';
+import { BodyField, BodyMode, findHeader } from '../requestBody.js';
+import { ParsedCollection, PortableCollection, PortableRequest, PortableVariable, validatePortableCollection } from './types.js';
+
+// Converts between collections and OpenAPI documents.
+//
+// On import, a collection is generated from an OpenAPI 3.x or Swagger 2.0 specification: one
+// request per operation, grouped into folders by their first tag. The server URL
+// becomes the {{baseUrl}} collection variable and path parameters become
+// collection variables too, so /users/{id} is requested as {{baseUrl}}/users/{{id}}.
+// Bodies and parameter values are filled in from examples, or made up from schemas.
+// Each request remembers the operation it came from ("GET /users/{id}") in
+// source_ref, which is what a re-sync matches on.
+
+const METHODS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch'];
+
+// Nesting followed when making up an example from a schema
+const MAX_SAMPLE_DEPTH = 8;
+
+const STRING_SAMPLES: Record<string, string> = {
+  date: '2024-01-01',
+  'date-time': '2024-01-01T00:00:00Z',
+  email: 'user@example.com',
+  uuid: '00000000-0000-0000-0000-000000000000',
+  uri: 'https://example.com',
+  url: 'https://example.com',
+  hostname: 'example.com',
+  ipv4: '127.0.0.1',
+  ipv6: '::1',
+  byte: '',
+  binary: '',
+  password: '',
+};
+
+const isPlainObject = (value: unknown): value is Record<string, any> => !!value && typeof value === 'object' && !Array.isArray(value);
+
+const asArray = (value: any): any[] => (Array.isArray(value) ? value : []);
+
+const text = (value: any): string => {
+  if (value === undefined || value === null) return '';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+// The operation a request is generated from; stable across re-syncs, unlike summaries
+export const operationRef = (method: string, path: string) => `${method.toUpperCase()} ${path}`;
+
+// The document being converted, and what has been reported about it so far
+interface Spec {
+  document: Record<string, any>;
+  version: 2 | 3;
+  warnings: string[];
+}
+
+const warn = (spec: Spec, message: string) => {
+  if (!spec.warnings.includes(message)) spec.warnings.push(message);
+};
+
+// Follows local $refs ("#/components/schemas/User"); other documents are not fetched
+const resolve = (spec: Spec, value: any, seen: Set<string> = new Set()): any => {
+  if (!isPlainObject(value) || typeof value.$ref !== 'string') return value;
+  const ref: string = value.$ref;
+  if (!ref.startsWith('#/')) {
+    warn(spec, `External reference ${ref} cannot be followed and was left out`);
+    return undefined;
+  }
+  if (seen.has(ref)) return undefined;
+  seen.add(ref);
+
+  let target: any = spec.document;
+  for (const part of ref.slice(2).split('/')) {
+    target = target?.[part.replace(/~1/g, '/').replace(/~0/g, '~')];
+  }
+  if (target === undefined) warn(spec, `Reference ${ref} does not exist in the document`);
+  return resolve(spec, target, seen);
+};
+
+// Makes up a value matching a schema, preferring the examples and defaults it gives
+const sample = (spec: Spec, schema: any, depth = 0, refs: string[] = []): any => {
+  if (!isPlainObject(schema) || depth > MAX_SAMPLE_DEPTH) return undefined;
+  if (typeof schema.$ref === 'string') {
+    // Recursive schemas stop at their second appearance
+    if (refs.includes(schema.$ref)) return undefined;
+    return sample(spec, resolve(spec, schema), depth, [...refs, schema.$ref]);
+  }
+
+  if (schema.example !== undefined) return schema.example;
+  if (Array.isArray(schema.examples) && schema.examples.length > 0) return schema.examples[0];
+  if (schema.default !== undefined) return schema.default;
+  if (schema.const !== undefined) return schema.const;
+  if (Array.isArray(schema.enum) && schema.enum.length > 0) return schema.enum[0];
+
+  if (Array.isArray(schema.allOf)) {
+    const parts = schema.allOf.map((part: any) => sample(spec, part, depth + 1, refs));
+    return parts.every(isPlainObject) ? Object.assign({}, ...parts) : parts.find((part: any) => part !== undefined);
+  }
+  const choice = asArray(schema.oneOf)[0] ?? asArray(schema.anyOf)[0];
+  if (choice) return sample(spec, choice, depth + 1, refs);
+
+  // OpenAPI 3.1 allows a list of types, e.g. ["string", "null"]
+  const type = Array.isArray(schema.type) ? schema.type.find((t: string) => t !== 'null') : schema.type;
+
+  if (type === 'object' || (!type && isPlainObject(schema.properties))) {
+    const result: Record<string, any> = {};
+    for (const [name, property] of Object.entries(schema.properties || {})) {
+      // Read-only properties are only ever sent by the server
+      if (resolve(spec, property)?.readOnly) continue;
+      const value = sample(spec, property, depth + 1, refs);
+      if (value !== undefined) result[name] = value;
+    }
+    return result;
+  }
+  if (type === 'array') {
+    const item = sample(spec, schema.items, depth + 1, refs);
+    return item === undefined ? [] : [item];
+  }
+  if (type === 'integer' || type === 'number') return schema.minimum ?? 0;
+  if (type === 'boolean') return true;
+  if (type === 'null') return null;
+  if (type === 'string' || type === 'file') return STRING_SAMPLES[schema.format] ?? 'string';
+  return undefined;
+};
+
+// The value a parameter is sent with. Swagger 2 puts the schema on the parameter itself.
+const parameterValue = (spec: Spec, parameter: any): string => {
+  let value = parameter.example ?? parameter['x-example'];
+  if (value === undefined && isPlainObject(parameter.examples)) {
+    value = resolve(spec, Object.values(parameter.examples)[0])?.value;
+  }
+  if (value === undefined) {
+    value = sample(spec, spec.version === 2 ? parameter : parameter.schema);
+  }
+  return Array.isArray(value) ? value.map(text).join(',') : text(value);
+};
+
+// Whether the specification gives a value for a parameter rather than only its type
+const documentsValue = (spec: Spec, parameter: any) => {
+  const schema = spec.version === 2 ? parameter : resolve(spec, parameter.schema) || {};
+  return parameter.example !== undefined || parameter['x-example'] !== undefined || isPlainObject(parameter.examples)
+    || schema.example !== undefined || schema.default !== undefined;
+};
+
+// Server variables are filled in with their defaults, or left as {{variables}} without one
+const serverUrl = (server: any): string =>
+  String(server.url)
+    .replace(/\{([^}]+)\}/g, (match, name) => text(server.variables?.[name]?.default) || `{{${name}}}`)
+    .replace(/\/$/, '');
+
+const baseUrl = (spec: Spec): string => {
+  const { document } = spec;
+  if (spec.version === 2) {
+    if (!document.host) {
+      warn(spec, 'The specification has no host; set the baseUrl variable before sending requests');
+      return document.basePath || '';
+    }
+    const scheme = asArray(document.schemes)[0] || 'https';
+    return `${scheme}://${document.host}${document.basePath || ''}`.replace(/\/$/, '');
+  }
+
+  const server = asArray(document.servers)[0];
+  if (!server?.url) {
+    warn(spec, 'The specification lists no servers; set the baseUrl variable before sending requests');
+    return '';
+  }
+  const url = serverUrl(server);
+  if (asArray(document.servers).length > 1) {
+    warn(spec, `The specification lists ${document.servers.length} servers; baseUrl was set to the first, ${url}`);
+  }
+  return url;
+};
+
+const securitySchemes = (spec: Spec): Record<string, any> =>
+  (spec.version === 2 ? spec.document.securityDefinitions : spec.document.components?.securitySchemes) || {};
+
+// Auth for one security scheme. Credentials are {{variables}} to be defined,
+// preferably as secrets in an environment.
+const mapScheme = (spec: Spec, name: string): AuthConfig | null => {
+  const scheme = resolve(spec, securitySchemes(spec)[name]);
+  if (!scheme) {
+    warn(spec, `Security scheme '${name}' is not defined`);
+    return null;
+  }
+
+  const type = String(scheme.type);
+  const httpScheme = String(scheme.scheme || '').toLowerCase();
+  if (type === 'basic' || (type === 'http' && httpScheme === 'basic')) {
+    return { type: 'basic', username: '{{username}}', password: '{{password}}' };
+  }
+  if (type === 'http' && httpScheme === 'bearer') {
+    return { type: 'bearer', token: '{{bearerToken}}' };
+  }
+  if (type === 'http' && httpScheme === 'digest') {
+    return { type: 'digest', username: '{{username}}', password: '{{password}}' };
+  }
+  if (type === 'apiKey' && (scheme.in === 'header' || scheme.in === 'query') && scheme.name) {
+    return { type: 'apikey', key: scheme.name, value: '{{apiKey}}', in: scheme.in };
+  }
+  if (type === 'oauth2') {
+    // Swagger 2 describes one flow per scheme, OpenAPI 3 a map of flows
+    const flows: Record<string, any> = spec.version === 2
+      ? { [scheme.flow === 'application' ? 'clientCredentials' : scheme.flow]: scheme }
+      : scheme.flows || {};
+    const grant = flows.clientCredentials ? 'clientCredentials' : flows.password ? 'password' : null;
+    if (grant && flows[grant].tokenUrl) {
+      const scopes = Object.keys(flows[grant].scopes || {});
+      return {
+        type: 'oauth2',
+        grantType: grant === 'password' ? 'password' : 'client_credentials',
+        tokenUrl: flows[grant].tokenUrl,
+        clientId: '{{clientId}}',
+        clientSecret: '{{clientSecret}}',
+        ...(grant === 'password' ? { username: '{{username}}', password: '{{password}}' } : {}),
+        ...(scopes.length > 0 ? { scope: scopes.join(' ') } : {}),
+      };
+    }
+  }
+  warn(spec, `Security scheme '${name}' (${type}${httpScheme ? ` ${httpScheme}` : ''}) is not supported, requests using it have no auth`);
+  return null;
+};
+
+// Auth for a security requirement: the first alternative that can be expressed.
+// An empty requirement means no auth at all.
+const mapSecurity = (spec: Spec, security: any[]): AuthConfig | null => {
+  if (security.length === 0 || security.some(requirement => isPlainObject(requirement) && Object.keys(requirement).length === 0)) {
+    return { type: 'none' };
+  }
+  for (const requirement of security) {
+    const names = Object.keys(requirement || {});
+    if (names.length > 1) {
+      warn(spec, `Security requirements combining ${names.join(' and ')} are not supported; only ${names[0]} is applied`);
+    }
+    const auth = names.length > 0 ? mapScheme(spec, names[0]) : null;
+    if (auth) return auth;
+  }
+  return null;
+};
+
+const fieldsOf = (sample: any, fileKeys: Set<string>): BodyField[] =>
+  Object.entries(isPlainObject(sample) ? sample : {}).map(([key, value]) =>
+    fileKeys.has(key) ? { key, type: 'file', data: '' } : { key, value: text(value) }
+  );
+
+// Properties of a form schema holding files
+const fileProperties = (spec: Spec, schema: any): Set<string> => {
+  const properties = resolve(spec, schema)?.properties || {};
+  return new Set(Object.keys(properties).filter(name => {
+    const property = resolve(spec, properties[name]);
+    return property?.format === 'binary' || property?.type === 'file';
+  }));
+};
+
+const convertBody = (spec: Spec, operation: any, parameters: any[], where: string): { body_mode: BodyMode; body: any } => {
+  if (spec.version === 2) {
+    const bodyParameter = parameters.find(parameter => parameter.in === 'body');
+    if (bodyParameter) {
+      return { body_mode: 'json', body: sample(spec, bodyParameter.schema) ?? {} };
+    }
+    const formParameters = parameters.filter(parameter => parameter.in === 'formData');
+    if (formParameters.length === 0) return { body_mode: 'none', body: {} };
+
+    const consumes = asArray(operation.consumes ?? spec.document.consumes);
+    const multipart = consumes.includes('multipart/form-data') || formParameters.some(parameter => parameter.type === 'file');
+    const body = formParameters.map((parameter): BodyField =>
+      parameter.type === 'file' ? { key: parameter.name, type: 'file', data: '' } : { key: parameter.name, value: parameterValue(spec, parameter) }
+    );
+    if (multipart && formParameters.some(parameter => parameter.type === 'file')) {
+      warn(spec, `${where}: file fields were added without contents`);
+    }
+    return { body_mode: multipart ? 'formdata' : 'urlencoded', body };
+  }
+
+  const requestBody = resolve(spec, operation.requestBody);
+  const content: Record<string, any> = requestBody?.content || {};
+  const types = Object.keys(content);
+  if (types.length === 0) return { body_mode: 'none', body: {} };
+
+  const type = types.find(t => /[/+]json\b/i.test(t))
+    ?? types.find(t => /x-www-form-urlencoded/i.test(t))
+    ?? types.find(t => /multipart\/form-data/i.test(t))
+    ?? types[0];
+  const media = content[type] || {};
+  let example = media.example;
+  if (example === undefined && isPlainObject(media.examples)) {
+    example = resolve(spec, Object.values(media.examples)[0])?.value;
+  }
+  if (example === undefined) example = sample(spec, media.schema);
+
+  if (/[/+]json\b/i.test(type)) {
+    return { body_mode: 'json', body: example ?? {} };
+  }
+  if (/x-www-form-urlencoded/i.test(type)) {
+    return { body_mode: 'urlencoded', body: fieldsOf(example, new Set()) };
+  }
+  if (/multipart\/form-data/i.test(type)) {
+    const files = fileProperties(spec, media.schema);
+    if (files.size > 0) warn(spec, `${where}: file fields were added without contents`);
+    return { body_mode: 'formdata', body: fieldsOf(example, files) };
+  }
+  if (/^text\/|xml/i.test(type)) {
+    return { body_mode: 'raw', body: { content: typeof example === 'string' ? example : '', contentType: type } };
+  }
+  warn(spec, `${where}: ${type} bodies cannot be generated, the body was left empty`);
+  return { body_mode: 'binary', body: { data: '', contentType: type } };
+};
+
+// Parses an OpenAPI 3.x or Swagger 2.0 document, already decoded from JSON or YAML
+export const parseOpenApiSpec = (document: any): ParsedCollection => {
+  if (!isPlainObject(document)) {
+    throw new Error('An OpenAPI document must be an object');
+  }
+  const isSwagger2 = typeof document.swagger === 'string' && document.swagger.startsWith('2.');
+  const isOpenApi3 = typeof document.openapi === 'string' && document.openapi.startsWith('3.');
+  if (!isSwagger2 && !isOpenApi3) {
+    throw new Error('Only OpenAPI 3.x and Swagger 2.0 documents can be imported');
+  }
+  if (!isPlainObject(document.paths)) {
+    throw new Error('The document has no paths');
+  }
+
+  const spec: Spec = { document, version: isSwagger2 ? 2 : 3, warnings: [] };
+  const variables: PortableVariable[] = [{ key: 'baseUrl', value: baseUrl(spec), secret: false }];
+  const globalSecurity = Array.isArray(document.security) ? document.security : null;
+  const collectionAuth = globalSecurity ? mapSecurity(spec, globalSecurity) : null;
+  const requests: PortableRequest[] = [];
+
+  for (const [path, pathItemValue] of Object.entries<any>(document.paths)) {
+    const pathItem = resolve(spec, pathItemValue);
+    if (!isPlainObject(pathItem)) continue;
+
+    for (const method of METHODS) {
+      const operation = pathItem[method];
+      if (!isPlainObject(operation)) continue;
+      const where = operationRef(method, path);
+
+      // Operation parameters override path ones with the same name and location
+      const byKey = new Map<string, any>();
+      for (const parameter of [...asArray(pathItem.parameters), ...asArray(operation.parameters)].map(p => resolve(spec, p))) {
+        if (isPlainObject(parameter) && parameter.name) byKey.set(`${parameter.in}:${parameter.name}`, parameter);
+      }
+      const parameters = [...byKey.values()];
+
+      const params: Record<string, string> = {};
+      const headers: Record<string, string> = {};
+      for (const parameter of parameters) {
+        const value = parameterValue(spec, parameter);
+        // Optional parameters are only sent when the specification gives a value for them
+        const include = parameter.required || documentsValue(spec, parameter);
+        if (parameter.in === 'path') {
+          if (!variables.some(variable => variable.key === parameter.name)) {
+            variables.push({ key: parameter.name, value, secret: false });
+          }
+        } else if (parameter.in === 'query' && include) {
+          params[parameter.name] = value;
+        } else if (parameter.in === 'header' && include) {
+          headers[parameter.name] = value;
+        } else if (parameter.in === 'cookie') {
+          warn(spec, `${where}: cookie parameter '${parameter.name}' was left out`);
+        }
+      }
+
+      // Operations and paths may be served from somewhere other than baseUrl
+      const server = spec.version === 3 ? asArray(operation.servers)[0] ?? asArray(pathItem.servers)[0] : null;
+
+      const security = Array.isArray(operation.security) ? operation.security : null;
+      const auth = security && JSON.stringify(security) !== JSON.stringify(globalSecurity) ? mapSecurity(spec, security) : null;
+
+      requests.push({
+        name: (text(operation.summary).trim() || text(operation.operationId) || where).slice(0, 255),
+        folder: asArray(operation.tags).find(tag => typeof tag === 'string' && tag.trim()) ?? null,
+        method: method.toUpperCase(),
+        url: `${server?.url ? serverUrl(server) : '{{baseUrl}}'}${path.replace(/\{([^}]+)\}/g, '{{$1}}')}`,
+        headers,
+        params,
+        ...convertBody(spec, operation, parameters, where),
+        auth,
+        pre_request_script: null,
+        post_request_script: null,
+        extractions: [],
+        source_ref: where,
+      });
+    }
+  }
+
+  if (requests.length === 0) {
+    warn(spec, 'The document defines no operations');
+  }
+
+  const usesCredentials = [collectionAuth, ...requests.map(request => request.auth)]
+    .flatMap(auth => JSON.stringify(auth ?? {}).match(/\{\{\w+\}\}/g) || []);
+  if (usesCredentials.length > 0) {
+    warn(spec, `Auth uses the variables ${[...new Set(usesCredentials)].join(', ')}; define them, preferably as secrets in an environment`);
+  }
+
+  const info = isPlainObject(document.info) ? document.info : {};
+  const collection: PortableCollection = {
+    name: (text(info.title).trim() || 'Imported API').slice(0, 255),
+    description: [text(info.description).trim(), info.version ? `Version ${info.version}` : ''].filter(Boolean).join('\n\n'),
+    auth: collectionAuth,
+    variables,
+    requests,
+  };
+  const error = validatePortableCollection(collection);
+  if (error) throw new Error(error);
+
+  return { collection, warnings: spec.warnings };
+};
+
+// Nesting followed when describing a recorded body as a schema
+const MAX_INFERRED_DEPTH = 12;
+
+// Headers described by the operation's request body and security instead of parameters
+const RESERVED_HEADERS = ['accept', 'content-type', 'authorization'];
+
+const TEMPLATE = /\{\{\s*([^{}]+?)\s*\}\}/g;
+
+const STRING_FORMATS: [string, RegExp][] = [
+  ['date-time', /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/],
+  ['date', /^\d{4}-\d{2}-\d{2}$/],
+  ['uuid', /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i],
+  ['email', /^[^\s@]+@[^\s@]+\.[^\s@]+$/],
+  ['uri', /^https?:\/\/\S+$/],
+];
+
+// Describes a recorded value as a schema. Array items are merged, so that a
+// property seen in any item is listed, and required only when all items have it.
+const inferSchema = (value: any, depth = 0): Record<string, any> => {
+  if (value === null || value === undefined) return { nullable: true };
+  if (depth > MAX_INFERRED_DEPTH) return {};
+  if (Array.isArray(value)) {
+    return value.length > 0 ? { type: 'array', items: value.map(item => inferSchema(item, depth + 1)).reduce(mergeSchemas) } : { type: 'array', items: {} };
+  }
+  switch (typeof value) {
+    case 'object':
+      return {
+        type: 'object',
+        properties: Object.fromEntries(Object.entries(value).map(([key, item]) => [key, inferSchema(item, depth + 1)])),
+        ...(Object.keys(value).length > 0 ? { required: Object.keys(value) } : {}),
+      };
+    case 'boolean':
+      return { type: 'boolean' };
+    case 'number':
+      return { type: Number.isInteger(value) ? 'integer' : 'number' };
+    default: {
+      const format = STRING_FORMATS.find(([, pattern]) => pattern.test(value))?.[0];
+      return { type: 'string', ...(format ? { format } : {}) };
+    }
+  }
+};
+
+const mergeSchemas = (a: Record<string, any>, b: Record<string, any>): Record<string, any> => {
+  // A null on either side makes the other nullable; a schema without a type allows anything
+  if (!a.type) return a.nullable ? { ...b, nullable: true } : {};
+  if (!b.type) return b.nullable ? { ...a, nullable: true } : {};
+  if (a.type !== b.type) {
+    const numeric = ['integer', 'number'];
+    return numeric.includes(a.type) && numeric.includes(b.type) ? { type: 'number' } : {};
+  }
+  const nullable = a.nullable || b.nullable ? { nullable: true } : {};
+  if (a.type === 'object') {
+    const properties: Record<string, any> = { ...a.properties };
+    for (const [key, schema] of Object.entries<any>(b.properties)) {
+      properties[key] = properties[key] ? mergeSchemas(properties[key], schema) : schema;
+    }
+    const required = asArray(a.required).filter(key => asArray(b.required).includes(key));
+    return { type: 'object', properties, ...(required.length > 0 ? { required } : {}), ...nullable };
+  }
+  if (a.type === 'array') return { type: 'array', items: a.items.type ? (b.items.type ? mergeSchemas(a.items, b.items) : a.items) : b.items, ...nullable };
+  return a.format === b.format ? { ...a, ...nullable } : { type: a.type, ...nullable };
+};
+
+// Splits a request URL into the server it is sent to and the path below it. A
+// URL starting with a {{variable}} is sent to whatever the variable holds.
+const splitUrl = (url: string) => {
+  const [address, search = ''] = url.replace(/#.*$/, '').split(/\?(.*)/s);
+  const match = address.match(/^(\{\{\s*[^{}]+?\s*\}\}|[a-z][a-z0-9+.-]*:\/\/[^/]*)(.*)$/i);
+  const server = match ? match[1] : '';
+  const path = (match ? match[2] : address) || '/';
+  const query = search.split('&').filter(Boolean).map(pair => {
+    const [key, value = ''] = pair.split(/=(.*)/s);
+    return { key: decodeURIComponentSafe(key), value: decodeURIComponentSafe(value) };
+  });
+  return { server, path: path.startsWith('/') ? path : `/${path}`, query };
+};
+
+const decodeURIComponentSafe = (value: string) => {
+  try {
+    return decodeURIComponent(value.replace(/\+/g, ' '));
+  } catch {
+    return value;
+  }
+};
+
+// Example values are only given when they are not {{placeholders}}
+const example = (value: string) => (value && !value.includes('{{') ? { example: value } : {});
+
+const operationIdOf = (name: string) =>
+  name
+    .replace(/[^A-Za-z0-9]+(.)?/g, (match, next: string | undefined) => (next ? next.toUpperCase() : ''))
+    .replace(/^./, first => first.toLowerCase()) || 'operation';
+
+const describeRequestBody = (request: PortableRequest): Record<string, any> | null => {
+  const { body } = request;
+  const empty = body === undefined || body === null || (isPlainObject(body) && Object.keys(body).length === 0);
+  if (empty || request.body_mode === 'none') return null;
+
+  switch (request.body_mode) {
+    case 'json':
+      return { 'application/json': { schema: inferSchema(body), example: body } };
+    case 'raw':
+      return { [body.contentType || 'text/plain']: { schema: { type: 'string' }, example: body.content } };
+    case 'urlencoded':
+    case 'formdata': {
+      const fields = asArray(body).filter(field => !field.disabled);
+      const properties = Object.fromEntries(fields.map(field =>
+        [field.key, field.type === 'file' ? { type: 'string', format: 'binary' } : { type: 'string', ...example(field.value ?? '') }]
+      ));
+      const type = request.body_mode === 'urlencoded' ? 'application/x-www-form-urlencoded' : 'multipart/form-data';
+      return { [type]: { schema: { type: 'object', properties } } };
+    }
+    case 'binary':
+      return { [body.contentType || 'application/octet-stream']: { schema: { type: 'string', format: 'binary' } } };
+    case 'graphql':
+      if (request.method.toUpperCase() === 'GET') return null;
+      return {
+        'application/json': {
+          schema: {
+            type: 'object',
+            properties: { query: { type: 'string' }, variables: { type: 'object' }, operationName: { type: 'string' } },
+            required: ['query'],
+          },
+          example: { query: body.query, variables: body.variables || {}, ...(body.operationName ? { operationName: body.operationName } : {}) },
+        },
+      };
+    default:
+      return null;
+  }
+};
+
+const describeResponses = (request: PortableRequest): Record<string, any> => {
+  const recorded = [...(request.responses || [])].sort((a, b) => a.status - b.status);
+  if (recorded.length === 0) {
+    return { default: { description: 'No response has been recorded for this request' } };
+  }
+  return Object.fromEntries(recorded.map(response => {
+    const contentType = response.headers[findHeader(response.headers, 'content-type') || '']?.split(';')[0].trim();
+    const hasBody = response.body !== null && response.body !== undefined && response.body !== '';
+    const content = hasBody
+      ? {
+          [contentType || (typeof response.body === 'string' ? 'text/plain' : 'application/json')]: {
+            schema: inferSchema(response.body),
+            example: response.body,
+          },
+        }
+      : undefined;
+    return [String(response.status), { description: response.statusText || `Status ${response.status}`, ...(content ? { content } : {}) }];
+  }));
+};
+
+// Security scheme for an auth config, or a note when OpenAPI cannot describe it
+const describeAuth = (auth: AuthConfig): { scheme: Record<string, any>; scopes?: string[] } | { note: string } => {
+  switch (auth.type) {
+    case 'basic':
+    case 'digest':
+      return { scheme: { type: 'http', scheme: auth.type } };
+    case 'bearer':
+      return { scheme: { type: 'http', scheme: 'bearer' } };
+    case 'apikey':
+      return { scheme: { type: 'apiKey', in: auth.in || 'header', name: auth.key } };
+    case 'oauth2': {
+      const scopes = auth.scope ? auth.scope.split(/\s+/).filter(Boolean) : [];
+      const flow = { tokenUrl: auth.tokenUrl, scopes: Object.fromEntries(scopes.map(scope => [scope, scope])) };
+      return { scheme: { type: 'oauth2', flows: { [auth.grantType === 'password' ? 'password' : 'clientCredentials']: flow } }, scopes };
+    }
+    case 'awsv4':
+      return { note: `Requests are signed with AWS Signature Version 4 for the ${auth.service} service in ${auth.region}.` };
+    case 'hmac':
+      return { note: `Requests are signed with HMAC-${(auth.algorithm || 'sha256').toUpperCase()} in the ${auth.header || 'X-Signature'} header.` };
+    default:
+      return { note: '' };
+  }
+};
+
+const SCHEME_NAMES: Record<string, string> = {
+  basic: 'basicAuth',
+  digest: 'digestAuth',
+  bearer: 'bearerAuth',
+  apikey: 'apiKeyAuth',
+  oauth2: 'oauth2Auth',
+};
+
+// Builds an OpenAPI 3.0 document describing a collection's requests. Each request
+// becomes an operation, tagged with its folder; {{variables}} in the path become
+// path parameters, and URLs starting with a variable are described by a server
+// holding its value. Request schemas are inferred from the saved bodies and
+// response schemas from the latest recorded response of each status code.
+// Two requests for the same method and path make a single operation.
+export const exportOpenApiDocument = (collection: PortableCollection) => {
+  const variables = new Map(collection.variables.map(variable => [variable.key, variable.value]));
+  const schemes: Record<string, any> = {};
+
+  // Registers the security scheme for an auth config and returns the requirement using it
+  const securityFor = (auth: AuthConfig | null | undefined, notes: string[]): any[] | undefined => {
+    if (!auth || auth.type === 'inherit') return undefined;
+    if (auth.type === 'none') return [];
+    const described = describeAuth(auth);
+    if ('note' in described) {
+      if (described.note) notes.push(described.note);
+      return undefined;
+    }
+    const base = SCHEME_NAMES[auth.type];
+    let name = base;
+    for (let count = 2; schemes[name] && JSON.stringify(schemes[name]) !== JSON.stringify(described.scheme); count++) {
+      name = `${base}${count}`;
+    }
+    schemes[name] = described.scheme;
+    return [{ [name]: described.scopes || [] }];
+  };
+
+  const describeServer = (server: string) => {
+    const variable = server.match(/^\{\{\s*([^{}]+?)\s*\}\}$/)?.[1];
+    if (!variable) return { url: server };
+    const value = variables.get(variable);
+    if (value && !value.includes('{{')) return { url: value.replace(/\/$/, '') };
+    return {
+      url: `{${variable}}`,
+      variables: { [variable]: { default: value || '', description: `Value of the ${variable} variable` } },
+    };
+  };
+
+  const collectionNotes: string[] = [];
+  const globalSecurity = securityFor(collection.auth, collectionNotes);
+  const servers: Record<string, any>[] = [];
+  const paths: Record<string, Record<string, any>> = {};
+  const operationIds = new Set<string>();
+
+  for (const request of collection.requests) {
+    const method = request.method.toLowerCase();
+    const { server, path: rawPath, query } = splitUrl(request.url);
+    const notes: string[] = [];
+
+    const parameters: Record<string, any>[] = [];
+    const path = rawPath.replace(TEMPLATE, (match, name: string) => {
+      if (!parameters.some(parameter => parameter.name === name)) {
+        parameters.push({ name, in: 'path', required: true, schema: { type: 'string' }, ...example(variables.get(name) || '') });
+      }
+      return `{${name}}`;
+    });
+
+    const queryParameters = [...query, ...Object.entries(request.params || {}).map(([key, value]) => ({ key, value: text(value) }))];
+    if (request.body_mode === 'graphql' && method === 'get') {
+      queryParameters.push({ key: 'query', value: text(request.body?.query) }, { key: 'variables', value: '' });
+    }
+    for (const { key, value } of queryParameters) {
+      if (parameters.some(parameter => parameter.in === 'query' && parameter.name === key)) continue;
+      parameters.push({ name: key, in: 'query', schema: { type: 'string' }, ...example(value) });
+    }
+
+    const auth = request.auth;
+    for (const [key, value] of Object.entries(request.headers || {})) {
+      if (RESERVED_HEADERS.includes(key.toLowerCase())) continue;
+      if (auth?.type === 'apikey' && (auth.in || 'header') === 'header' && auth.key.toLowerCase() === key.toLowerCase()) continue;
+      parameters.push({ name: key, in: 'header', schema: { type: 'string' }, ...example(text(value)) });
+    }
+
+    const security = securityFor(auth, notes);
+    const serverObject = server ? describeServer(server) : null;
+    if (serverObject && !servers.some(existing => existing.url === serverObject.url)) servers.push(serverObject);
+
+    const operations = (paths[path] ||= {});
+    if (operations[method]) {
+      operations[method].description = [operations[method].description, `Also saved as "${request.name}".`].filter(Boolean).join('\n\n');
+      continue;
+    }
+
+    let operationId = operationIdOf(request.name);
+    for (let count = 2; operationIds.has(operationId); count++) operationId = `${operationIdOf(request.name)}${count}`;
+    operationIds.add(operationId);
+
+    const content = describeRequestBody(request);
+    operations[method] = {
+      summary: request.name,
+      operationId,
+      ...(request.folder ? { tags: [request.folder] } : {}),
+      ...(notes.length > 0 ? { description: notes.join('\n\n') } : {}),
+      ...(parameters.length > 0 ? { parameters } : {}),
+      ...(content ? { requestBody: { content } } : {}),
+      responses: describeResponses(request),
+      ...(security ? { security } : {}),
+      // Operations sent somewhere other than the first server name their own
+      ...(serverObject && servers[0].url !== serverObject.url ? { servers: [serverObject] } : {}),
+    };
+  }
+
+  const tags = [...new Set(collection.requests.map(request => request.folder).filter((folder): folder is string => !!folder))];
+  return {
+    openapi: '3.0.3',
+    info: {
+      title: collection.name,
+      version: '1.0.0',
+      ...([collection.description, ...collectionNotes].filter(Boolean).length > 0
+        ? { description: [collection.description, ...collectionNotes].filter(Boolean).join('\n\n') }
+        : {}),
+    },
+    ...(servers.length > 0 ? { servers: [servers[0]] } : {}),
+    ...(tags.length > 0 ? { tags: tags.map(name => ({ name })) } : {}),
+    paths,
+    ...(Object.keys(schemes).length > 0 ? { components: { securitySchemes: schemes } } : {}),
+    ...(globalSecurity ? { security: globalSecurity } : {}),
+  };
+};
@@ -0,0 +1,566 @@
+import { AuthConfig, validateAuth } from '../auth.js';
+import { BodyField, validateBody } from '../requestBody.js';
+import { FOLDER_SEPARATOR, ParsedCollection, PortableCollection, PortableRequest, PortableVariable, validatePortableCollection } from './types.js';
+import { credentialsNote, withoutCredentials } from './credentials.js';
+
+// Reads and writes Postman Collection v2.1 documents
+// (https://schema.getpostman.com/json/collection/v2.1.0/collection.json).
+// On import, collection and folder level scripts have no equivalent here, so they are copied
+// into each request below them, and folder auth is resolved onto the requests that
+// inherit it. Anything else that cannot be represented is reported as a warning.
+
+const METHODS = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'HEAD', 'OPTIONS'];
+
+// Content types for raw bodies by the language Postman's editor was set to
+const RAW_CONTENT_TYPES: Record<string, string> = {
+  json: 'application/json',
+  xml: 'application/xml',
+  html: 'text/html',
+  javascript: 'application/javascript',
+  text: 'text/plain',
+};
+
+interface Scope {
+  folder: string[];
+  auth: AuthConfig | null;
+  preRequest: string[];
+  test: string[];
+}
+
+const asArray = (value: any): any[] => (Array.isArray(value) ? value : []);
+
+const text = (value: any): string => {
+  if (value === undefined || value === null) return '';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+const description = (value: any): string => (typeof value === 'object' && value ? text(value.content) : text(value));
+
+// v2.1 auth attributes are [{ key, value }] lists; v2.0 used plain objects
+const authAttributes = (value: any): Record<string, any> =>
+  Array.isArray(value) ? Object.fromEntries(value.map(attribute => [attribute.key, attribute.value])) : value || {};
+
+const mapAuth = (auth: any, where: string, warnings: string[]): AuthConfig | null => {
+  if (!auth || !auth.type) return null;
+  const a = authAttributes(auth[auth.type]);
+
+  switch (auth.type) {
+    case 'noauth':
+      return { type: 'none' };
+    case 'basic':
+      return { type: 'basic', username: text(a.username), password: text(a.password) };
+    case 'bearer':
+      return { type: 'bearer', token: text(a.token) };
+    case 'apikey':
+      return { type: 'apikey', key: text(a.key), value: text(a.value), in: a.in === 'query' ? 'query' : 'header' };
+    case 'digest':
+      return { type: 'digest', username: text(a.username), password: text(a.password) };
+    case 'awsv4':
+      return {
+        type: 'awsv4',
+        service: text(a.service),
+        region: text(a.region),
+        accessKeyId: text(a.accessKey),
+        secretAccessKey: text(a.secretKey),
+        ...(a.sessionToken ? { sessionToken: text(a.sessionToken) } : {}),
+      };
+    case 'oauth2': {
+      const grantType = a.grant_type === 'password_credentials' ? 'password' : a.grant_type === 'client_credentials' ? 'client_credentials' : null;
+      if (!grantType) {
+        warnings.push(`${where}: OAuth2 grant type '${a.grant_type || 'authorization_code'}' is not supported, auth was left out`);
+        return null;
+      }
+      return {
+        type: 'oauth2',
+        grantType,
+        tokenUrl: text(a.accessTokenUrl),
+        clientId: text(a.clientId),
+        clientSecret: text(a.clientSecret),
+        ...(grantType === 'password' ? { username: text(a.username), password: text(a.password) } : {}),
+        ...(a.scope ? { scope: text(a.scope) } : {}),
+        clientAuthentication: a.client_authentication === 'body' ? 'body' : 'header',
+      };
+    }
+    default:
+      warnings.push(`${where}: ${auth.type} auth is not supported, auth was left out`);
+      return null;
+  }
+};
+
+// Converted auth that would not pass validation is left out rather than stored broken
+const convertAuth = (auth: any, where: string, warnings: string[]): AuthConfig | null => {
+  const converted = mapAuth(auth, where, warnings);
+  const error = converted && validateAuth(converted);
+  if (error) {
+    warnings.push(`${where}: ${auth.type} auth was left out: ${error}`);
+    return null;
+  }
+  return converted;
+};
+
+const scriptsOf = (events: any, listen: string): string[] =>
+  asArray(events)
+    .filter(event => event?.listen === listen && !event.disabled && event.script)
+    .map(event => (Array.isArray(event.script.exec) ? event.script.exec.join('\n') : text(event.script.exec)))
+    .filter(script => script.trim() !== '');
+
+const joinScripts = (scripts: string[]) => (scripts.length > 0 ? scripts.join('\n\n') : null);
+
+const convertHeaders = (header: any, where: string, warnings: string[]): Record<string, string> => {
+  // Headers may also be given as raw "Name: value" lines
+  const list = typeof header === 'string'
+    ? header.split(/\r?\n/).filter(Boolean).map(line => {
+        const colon = line.indexOf(':');
+        return { key: line.slice(0, colon).trim(), value: line.slice(colon + 1).trim() };
+      })
+    : asArray(header);
+
+  const headers: Record<string, string> = {};
+  const skipped: string[] = [];
+  for (const item of list) {
+    if (!item?.key) continue;
+    if (item.disabled) {
+      skipped.push(item.key);
+    } else {
+      headers[item.key] = text(item.value);
+    }
+  }
+  if (skipped.length > 0) warnings.push(`${where}: disabled headers were left out: ${skipped.join(', ')}`);
+  return headers;
+};
+
+const convertUrl = (url: any, where: string, warnings: string[]): { url: string; params: Record<string, string> } => {
+  if (typeof url === 'string' || !url) return { url: text(url), params: {} };
+
+  let raw = text(url.raw);
+  if (!raw) {
+    const host = Array.isArray(url.host) ? url.host.join('.') : text(url.host);
+    const path = Array.isArray(url.path) ? url.path.join('/') : text(url.path);
+    raw = `${url.protocol ? `${url.protocol}://` : ''}${host}${url.port ? `:${url.port}` : ''}${path ? `/${path}` : ''}`;
+  }
+
+  const params: Record<string, string> = {};
+  if (Array.isArray(url.query)) {
+    // The query lives in params; the fragment is never sent
+    raw = raw.replace(/[?#].*$/, '');
+    const skipped: string[] = [];
+    for (const item of url.query) {
+      if (!item?.key) continue;
+      if (item.disabled) {
+        skipped.push(item.key);
+        continue;
+      }
+      if (Object.prototype.hasOwnProperty.call(params, item.key)) {
+        warnings.push(`${where}: query parameter '${item.key}' is repeated, only its last value was kept`);
+      }
+      params[item.key] = text(item.value);
+    }
+    if (skipped.length > 0) warnings.push(`${where}: disabled query parameters were left out: ${skipped.join(', ')}`);
+  }
+
+  // Path variables (/users/:id) become {{variables}}, or their value when they have one
+  for (const variable of asArray(url.variable)) {
+    if (!variable?.key) continue;
+    const value = variable.value !== undefined && variable.value !== '' ? text(variable.value) : `{{${variable.key}}}`;
+    raw = raw.replace(new RegExp(`/:${variable.key.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}(?=/|$|\\?)`), `/${value}`);
+  }
+
+  return { url: raw, params };
+};
+
+const fileName = (src: any) => text(Array.isArray(src) ? src[0] : src).split(/[\\/]/).pop() || undefined;
+
+const convertBody = (body: any, where: string, warnings: string[]): { body_mode: PortableRequest['body_mode']; body: any } => {
+  if (!body || !body.mode || body.disabled) return { body_mode: 'none', body: {} };
+
+  switch (body.mode) {
+    case 'raw': {
+      const raw = text(body.raw);
+      const language = body.options?.raw?.language || 'text';
+      if (language === 'json') {
+        // JSON with unquoted placeholders ("id": {{id}}) is not JSON, so it stays raw
+        try {
+          return { body_mode: 'json', body: JSON.parse(raw) };
+        } catch {
+          return { body_mode: 'raw', body: { content: raw, contentType: RAW_CONTENT_TYPES.json } };
+        }
+      }
+      return { body_mode: 'raw', body: { content: raw, contentType: RAW_CONTENT_TYPES[language] || 'text/plain' } };
+    }
+    case 'urlencoded':
+      return {
+        body_mode: 'urlencoded',
+        body: asArray(body.urlencoded)
+          .filter(field => field?.key)
+          .map(field => ({ key: field.key, value: text(field.value), ...(field.disabled ? { disabled: true } : {}) })),
+      };
+    case 'formdata':
+      return {
+        body_mode: 'formdata',
+        body: asArray(body.formdata)
+          .filter(field => field?.key)
+          .map((field): BodyField => {
+            const disabled = field.disabled ? { disabled: true } : {};
+            if (field.type !== 'file') return { key: field.key, value: text(field.value), ...disabled };
+            warnings.push(`${where}: file '${field.key}' refers to a local file and was imported empty; upload its content again`);
+            return {
+              key: field.key,
+              type: 'file',
+              data: '',
+              ...(fileName(field.src) ? { filename: fileName(field.src) } : {}),
+              ...(field.contentType ? { contentType: field.contentType } : {}),
+              ...disabled,
+            };
+          }),
+      };
+    case 'file':
+      warnings.push(`${where}: the binary body refers to a local file and was imported empty; upload its content again`);
+      return { body_mode: 'binary', body: {} };
+    case 'graphql': {
+      let variables: any;
+      const rawVariables = body.graphql?.variables;
+      if (typeof rawVariables === 'string' && rawVariables.trim()) {
+        try {
+          variables = JSON.parse(rawVariables);
+        } catch {
+          warnings.push(`${where}: GraphQL variables are not valid JSON and were left out`);
+        }
+      } else if (rawVariables && typeof rawVariables === 'object') {
+        variables = rawVariables;
+      }
+      return { body_mode: 'graphql', body: { query: text(body.graphql?.query), ...(variables ? { variables } : {}) } };
+    }
+    default:
+      warnings.push(`${where}: body mode '${body.mode}' is not supported, the body was left out`);
+      return { body_mode: 'none', body: {} };
+  }
+};
+
+const convertRequest = (item: any, scope: Scope, warnings: string[]): PortableRequest => {
+  const name = text(item.name) || 'Untitled request';
+  const where = `Request '${[...scope.folder, name].join(FOLDER_SEPARATOR)}'`;
+  const request = typeof item.request === 'string' ? { url: item.request } : item.request || {};
+
+  let method = text(request.method || 'GET').toUpperCase();
+  if (!METHODS.includes(method)) {
+    warnings.push(`${where}: method ${method} is not supported, GET was used instead`);
+    method = 'GET';
+  }
+
+  const { url, params } = convertUrl(request.url, where, warnings);
+  if (!url) warnings.push(`${where}: the request has no URL`);
+
+  if (asArray(item.response).length > 0) {
+    warnings.push(`${where}: ${item.response.length} saved example response(s) were not imported`);
+  }
+
+  // An explicit 'inherit' or a missing auth falls back to the enclosing folder's
+  const ownAuth = request.auth && request.auth.type !== 'inherit' ? convertAuth(request.auth, where, warnings) : null;
+
+  let body = convertBody(request.body, where, warnings);
+  const bodyError = validateBody(body.body_mode, body.body);
+  if (bodyError) {
+    warnings.push(`${where}: the body was left out: ${bodyError}`);
+    body = { body_mode: 'none', body: {} };
+  }
+
+  return {
+    name: name.slice(0, 255),
+    folder: scope.folder.length > 0 ? scope.folder.join(FOLDER_SEPARATOR) : null,
+    method,
+    url,
+    headers: convertHeaders(request.header, where, warnings),
+    params,
+    ...body,
+    auth: ownAuth ?? scope.auth,
+    pre_request_script: joinScripts([...scope.preRequest, ...scriptsOf(item.event, 'prerequest')]),
+    post_request_script: joinScripts([...scope.test, ...scriptsOf(item.event, 'test')]),
+    extractions: [],
+  };
+};
+
+const walkItems = (items: any[], scope: Scope, requests: PortableRequest[], warnings: string[]) => {
+  for (const item of items) {
+    if (!item || typeof item !== 'object') continue;
+
+    if (Array.isArray(item.item)) {
+      const name = text(item.name) || 'Untitled folder';
+      const folder = [...scope.folder, name];
+      const where = `Folder '${folder.join(FOLDER_SEPARATOR)}'`;
+      const folderAuth = item.auth && item.auth.type !== 'inherit' ? convertAuth(item.auth, where, warnings) : null;
+      const preRequest = scriptsOf(item.event, 'prerequest');
+      const test = scriptsOf(item.event, 'test');
+      if (preRequest.length > 0 || test.length > 0) {
+        warnings.push(`${where}: folder scripts were copied into each of its requests`);
+      }
+      walkItems(item.item, {
+        folder,
+        // Requests that inherit get the nearest folder's auth, or the collection's when no folder has any
+        auth: folderAuth ?? scope.auth,
+        preRequest: [...scope.preRequest, ...preRequest],
+        test: [...scope.test, ...test],
+      }, requests, warnings);
+    } else {
+      requests.push(convertRequest(item, scope, warnings));
+    }
+  }
+};
+
+const convertVariables = (variables: any, warnings: string[]): PortableVariable[] => {
+  const byKey = new Map<string, PortableVariable>();
+  for (const variable of asArray(variables)) {
+    if (!variable?.key) continue;
+    if (variable.disabled) {
+      warnings.push(`Variable '${variable.key}' is disabled and was left out`);
+      continue;
+    }
+    if (byKey.has(variable.key)) {
+      warnings.push(`Variable '${variable.key}' is defined more than once, only its last value was kept`);
+    }
+    byKey.set(variable.key, { key: variable.key, value: text(variable.value), secret: variable.type === 'secret' });
+  }
+  return [...byKey.values()];
+};
+
+// Converts a Postman v2.1 collection document. Accepts the document itself or the
+// { collection: ... } wrapper the Postman API returns. Throws when it is not a
+// v2.1 collection.
+export const parsePostmanCollection = (document: any): ParsedCollection => {
+  const doc = document?.collection && !document.info ? document.collection : document;
+  if (!doc || typeof doc !== 'object' || !doc.info || !Array.isArray(doc.item)) {
+    throw new Error('Not a Postman collection: info and item are required');
+  }
+  if (!/\/v2\.1\.\d+\//.test(text(doc.info.schema))) {
+    throw new Error('Only Postman Collection v2.1 documents are supported; export the collection as v2.1');
+  }
+
+  const warnings: string[] = [];
+  const auth = doc.auth ? convertAuth(doc.auth, 'Collection', warnings) : null;
+  const preRequest = scriptsOf(doc.event, 'prerequest');
+  const test = scriptsOf(doc.event, 'test');
+  if (preRequest.length > 0 || test.length > 0) {
+    warnings.push('Collection scripts were copied into each request');
+  }
+
+  const requests: PortableRequest[] = [];
+  // Requests without their own auth keep inheriting the collection's, so the collection auth is not pushed down
+  walkItems(doc.item, { folder: [], auth: null, preRequest, test }, requests, warnings);
+
+  const collection: PortableCollection = {
+    name: (text(doc.info.name) || 'Imported collection').slice(0, 255),
+    description: description(doc.info.description),
+    auth,
+    variables: convertVariables(doc.variable, warnings),
+    requests,
+  };
+  const error = validatePortableCollection(collection);
+  if (error) throw new Error(error);
+
+  return { collection, warnings };
+};
+
+export const POSTMAN_SCHEMA = 'https://schema.getpostman.com/json/collection/v2.1.0/collection.json';
+
+const attributes = (values: Record<string, any>) =>
+  Object.entries(values)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => ({ key, value, type: 'string' }));
+
+// Postman auth for a stored config; undefined means inherit. Auth Postman cannot
+// express, and credentials replaced with variables, are reported through notes.
+const exportAuth = (stored: AuthConfig | null, notes: string[]): any => {
+  const credentials = new Set<string>();
+  const auth = withoutCredentials(stored, credentials);
+  if (!auth) return undefined;
+  if (credentials.size > 0) notes.push(credentialsNote(credentials));
+
+  switch (auth.type) {
+    case 'none':
+      return { type: 'noauth' };
+    case 'inherit':
+      return undefined;
+    case 'basic':
+      return { type: 'basic', basic: attributes({ username: auth.username, password: auth.password }) };
+    case 'bearer':
+      return { type: 'bearer', bearer: attributes({ token: auth.token }) };
+    case 'apikey':
+      return { type: 'apikey', apikey: attributes({ key: auth.key, value: auth.value, in: auth.in || 'header' }) };
+    case 'digest':
+      return { type: 'digest', digest: attributes({ username: auth.username, password: auth.password }) };
+    case 'awsv4':
+      // Missing credentials come from these variables when GETapi sends the request
+      return {
+        type: 'awsv4',
+        awsv4: attributes({
+          service: auth.service,
+          region: auth.region,
+          accessKey: auth.accessKeyId ?? '{{AWS_ACCESS_KEY_ID}}',
+          secretKey: auth.secretAccessKey ?? '{{AWS_SECRET_ACCESS_KEY}}',
+          sessionToken: auth.sessionToken,
+        }),
+      };
+    case 'oauth2':
+      return {
+        type: 'oauth2',
+        oauth2: attributes({
+          grant_type: auth.grantType === 'password' ? 'password_credentials' : 'client_credentials',
+          accessTokenUrl: auth.tokenUrl,
+          clientId: auth.clientId,
+          clientSecret: auth.clientSecret,
+          username: auth.username,
+          password: auth.password,
+          scope: auth.scope,
+          client_authentication: auth.clientAuthentication || 'header',
+        }),
+      };
+    default:
+      notes.push(`${auth.type.toUpperCase()} auth has no Postman equivalent and was left out.`);
+      return { type: 'noauth' };
+  }
+};
+
+const RAW_LANGUAGES: Record<string, string> = Object.fromEntries(
+  Object.entries(RAW_CONTENT_TYPES).map(([language, contentType]) => [contentType, language])
+);
+
+const exportBody = (request: PortableRequest, header: any[], notes: string[]): any => {
+  const { body } = request;
+  const empty = !body || (typeof body === 'object' && !Array.isArray(body) && Object.keys(body).length === 0);
+
+  switch (request.body_mode) {
+    case 'json':
+      if (empty) return undefined;
+      return { mode: 'raw', raw: JSON.stringify(body, null, 2), options: { raw: { language: 'json' } } };
+    case 'raw': {
+      if (empty) return undefined;
+      const contentType = body.contentType || 'text/plain';
+      const language = RAW_LANGUAGES[contentType.split(';')[0].trim().toLowerCase()];
+      if (!language && !header.some(h => h.key.toLowerCase() === 'content-type')) {
+        header.push({ key: 'Content-Type', value: contentType, type: 'text' });
+      }
+      return { mode: 'raw', raw: body.content, options: { raw: { language: language || 'text' } } };
+    }
+    case 'urlencoded':
+      return {
+        mode: 'urlencoded',
+        urlencoded: asArray(body).map((field: BodyField) => ({
+          key: field.key,
+          value: field.value ?? '',
+          type: 'text',
+          ...(field.disabled ? { disabled: true } : {}),
+        })),
+      };
+    case 'formdata':
+      return {
+        mode: 'formdata',
+        formdata: asArray(body).map((field: BodyField) => {
+          const disabled = field.disabled ? { disabled: true } : {};
+          if (field.type !== 'file') return { key: field.key, value: field.value ?? '', type: 'text', ...disabled };
+          notes.push(`The content of file '${field.key}' is not part of the export; select the file again.`);
+          return {
+            key: field.key,
+            type: 'file',
+            src: field.filename || field.key,
+            ...(field.contentType ? { contentType: field.contentType } : {}),
+            ...disabled,
+          };
+        }),
+      };
+    case 'binary':
+      if (empty) return undefined;
+      notes.push('The binary body is not part of the export; select the file again.');
+      return { mode: 'file', file: {} };
+    case 'graphql':
+      if (empty) return undefined;
+      return { mode: 'graphql', graphql: { query: body.query, variables: JSON.stringify(body.variables || {}, null, 2) } };
+    default:
+      return undefined;
+  }
+};
+
+const exportEvents = (request: PortableRequest) => {
+  const events = [];
+  if (request.pre_request_script) {
+    events.push({ listen: 'prerequest', script: { type: 'text/javascript', exec: request.pre_request_script.split('\n') } });
+  }
+  if (request.post_request_script) {
+    events.push({ listen: 'test', script: { type: 'text/javascript', exec: request.post_request_script.split('\n') } });
+  }
+  return events.length > 0 ? events : undefined;
+};
+
+const exportItem = (request: PortableRequest) => {
+  // Whatever Postman cannot hold is explained in the request's description
+  const notes: string[] = [];
+  const header = Object.entries(request.headers || {}).map(([key, value]) => ({ key, value: text(value), type: 'text' }));
+  const body = exportBody(request, header, notes);
+  const auth = exportAuth(request.auth, notes);
+
+  // Postman keeps the whole query in one list, including pairs written into the URL
+  const [base, search] = request.url.split(/\?(.*)/s);
+  const query = [
+    ...(search ? search.split('&').filter(Boolean).map(pair => {
+      const [key, value = ''] = pair.split(/=(.*)/s);
+      return { key, value };
+    }) : []),
+    ...Object.entries(request.params || {}).map(([key, value]) => ({ key, value: text(value) })),
+  ];
+  const raw = query.length > 0 ? `${base}?${query.map(({ key, value }) => `${key}=${value}`).join('&')}` : request.url;
+  const event = exportEvents(request);
+
+  if (request.extractions?.length) {
+    notes.push(`Extraction rules have no Postman equivalent: ${request.extractions.map(rule => `${rule.variable} from ${rule.source} ${rule.expression}`).join('; ')}.`);
+  }
+
+  return {
+    name: request.name,
+    ...(event ? { event } : {}),
+    request: {
+      method: request.method,
+      header,
+      url: query.length > 0 ? { raw, query } : { raw },
+      ...(body ? { body } : {}),
+      ...(auth ? { auth } : {}),
+      ...(notes.length > 0 ? { description: notes.join('\n') } : {}),
+    },
+  };
+};
+
+// Converts a collection to a Postman v2.1 document. Folder paths become nested
+// folders, kept in the order they first appear.
+export const exportPostmanCollection = (collection: PortableCollection) => {
+  const root: any[] = [];
+  const folders = new Map<string, any[]>();
+
+  const folderItems = (path: string | null): any[] => {
+    if (!path) return root;
+    const existing = folders.get(path);
+    if (existing) return existing;
+
+    const parts = path.split(FOLDER_SEPARATOR);
+    const parent = folderItems(parts.length > 1 ? parts.slice(0, -1).join(FOLDER_SEPARATOR) : null);
+    const items: any[] = [];
+    parent.push({ name: parts[parts.length - 1], item: items });
+    folders.set(path, items);
+    return items;
+  };
+
+  for (const request of collection.requests) {
+    folderItems(request.folder).push(exportItem(request));
+  }
+
+  const notes: string[] = [];
+  const auth = exportAuth(collection.auth, notes);
+  const description = [collection.description, ...notes].filter(Boolean).join('\n\n');
+
+  return {
+    info: {
+      name: collection.name,
+      ...(description ? { description } : {}),
+      schema: POSTMAN_SCHEMA,
+    },
+    item: root,
+    ...(auth ? { auth } : {}),
+    variable: collection.variables.map(({ key, value }) => ({ key, value, type: 'string' })),
+  };
+};
@@ -0,0 +1,88 @@
+import { AuthConfig } from '../auth.js';
+import { BodyMode } from '../requestBody.js';
+import { ExtractionRule } from '../extractor.js';
+
+// A collection as it moves in and out of the workspace through the import and
+// export formats: what is stored for it, minus ids, owners and timestamps
+
+export interface PortableRequest {
+  name: string;
+  // Folder path inside the collection, e.g. "Users / Admin"
+  folder: string | null;
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  params: Record<string, string>;
+  body_mode: BodyMode;
+  body: any;
+  auth: AuthConfig | null;
+  pre_request_script: string | null;
+  post_request_script: string | null;
+  extractions: ExtractionRule[];
+  // Operation of the API specification the request was generated from, e.g. "GET /users/{id}"
+  source_ref?: string | null;
+  // Latest response recorded for each status code; only loaded for formats that describe responses
+  responses?: PortableResponse[];
+}
+
+export interface PortableResponse {
+  status: number;
+  statusText: string | null;
+  headers: Record<string, string>;
+  body: any;
+}
+
+export interface PortableVariable {
+  key: string;
+  value: string;
+  secret: boolean;
+}
+
+export interface PortableCollection {
+  name: string;
+  description: string;
+  auth: AuthConfig | null;
+  // Collection variables
+  variables: PortableVariable[];
+  requests: PortableRequest[];
+}
+
+// A collection read from a document, with everything that could not be carried over
+export interface ParsedCollection {
+  collection: PortableCollection;
+  warnings: string[];
+}
+
+// Separator between the levels of a folder path
+export const FOLDER_SEPARATOR = ' / ';
+
+// Requests store methods of up to 10 characters; names and variable keys hold up to 255
+const METHOD_PATTERN = /^[A-Z][A-Z0-9_-]{0,9}$/;
+const MAX_NAME_LENGTH = 255;
+
+// Returns why a request read from a document cannot be stored, or null when it can
+export const validatePortableRequest = (request: PortableRequest): string | null => {
+  if (!METHOD_PATTERN.test(request.method)) {
+    return `Unsupported request method '${request.method.slice(0, 20)}'`;
+  }
+  if (!request.name.trim() || request.name.length > MAX_NAME_LENGTH) {
+    return `Request names must have 1 to ${MAX_NAME_LENGTH} characters`;
+  }
+  return null;
+};
+
+// Returns why a collection read from a document cannot be stored, or null when it can
+export const validatePortableCollection = (collection: PortableCollection): string | null => {
+  if (collection.name.length > MAX_NAME_LENGTH) {
+    return `Collection names must have at most ${MAX_NAME_LENGTH} characters`;
+  }
+  const longKey = collection.variables.find(variable => variable.key.length > MAX_NAME_LENGTH);
+  if (longKey) {
+    return `Variable keys must have at most ${MAX_NAME_LENGTH} characters`;
+  }
+  for (const [index, request] of collection.requests.entries()) {
+    const error = validatePortableRequest(request);
+    if (error) return `Request ${index + 1}: ${error}`;
+  }
+  return null;
+};
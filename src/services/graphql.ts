@@ -0,0 +1,66 @@
+import { buildClientSchema, getIntrospectionQuery, GraphQLError, IntrospectionQuery, parse, validate } from 'graphql';
+import { AssertionResult } from './scriptRunner.js';
+
+// Body of a request in graphql mode
+export interface GraphqlBody {
+  query: string;
+  variables?: Record<string, any>;
+  operationName?: string;
+}
+
+export const INTROSPECTION_QUERY = getIntrospectionQuery();
+
+const isPlainObject = (value: unknown) => !!value && typeof value === 'object' && !Array.isArray(value);
+
+// Returns an error message when a graphql body is malformed, or null when it is usable
+export const validateGraphqlBody = (body: any): string | null => {
+  if (!isPlainObject(body) || typeof body.query !== 'string' || !body.query.trim()) {
+    return 'A graphql body must be an object with a query string';
+  }
+  if (body.variables !== undefined && body.variables !== null && !isPlainObject(body.variables)) {
+    return 'GraphQL variables must be a JSON object';
+  }
+  if (body.operationName !== undefined && typeof body.operationName !== 'string') {
+    return 'GraphQL operationName must be a string';
+  }
+  return null;
+};
+
+const describe = (error: GraphQLError) => {
+  const location = error.locations?.[0];
+  return location ? `${error.message} (line ${location.line}, column ${location.column})` : error.message;
+};
+
+// Checks a query document for syntax errors and, when a schema from introspection
+// is given, against that schema. Returns the problems found; empty means valid.
+// Documents holding {{variables}} are only checked once rendered, since the
+// placeholders are not valid GraphQL.
+export const validateGraphqlQuery = (query: string, schema?: IntrospectionQuery | null): string[] => {
+  if (query.includes('{{')) return [];
+
+  let document;
+  try {
+    document = parse(query);
+  } catch (error: any) {
+    return [error instanceof GraphQLError ? describe(error) : error.message];
+  }
+  if (!schema) return [];
+
+  try {
+    return validate(buildClientSchema(schema), document).map(describe);
+  } catch (error: any) {
+    // A schema the server described inconsistently cannot be checked against
+    return [`The cached schema is not usable: ${error.message}`];
+  }
+};
+
+// Failed assertions for the errors a GraphQL server reports in a response body.
+// GraphQL servers usually answer 200 even when a query fails.
+export const graphqlErrorAssertions = (data: any): AssertionResult[] => {
+  if (!isPlainObject(data) || !Array.isArray(data.errors)) return [];
+  return data.errors.map((error: any) => {
+    const message = typeof error?.message === 'string' ? error.message : JSON.stringify(error);
+    const path = Array.isArray(error?.path) ? ` at ${error.path.join('.')}` : '';
+    return { name: `GraphQL error${path}`, passed: false, error: message };
+  });
+};
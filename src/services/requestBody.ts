@@ -0,0 +1,195 @@
+import crypto from 'crypto';
+import { AxiosRequestConfig } from 'axios';
+import { renderTemplate, renderValue } from './templating.js';
+import { validateGraphqlBody } from './graphql.js';
+
+// How a request's stored body is sent. The shape of requests.body depends on the mode:
+//   json       any JSON value, sent as application/json
+//   raw        { content, contentType }: text sent as is, text/plain unless a type is given
+//   urlencoded [{ key, value, disabled? }], sent as application/x-www-form-urlencoded
+//   formdata   [{ key, value } or { key, type: 'file', data, filename?, contentType? }], sent as multipart/form-data
+//   binary     { data, contentType? }: base64 encoded bytes
+//   graphql    { query, variables?, operationName? }: POSTed as JSON, or sent as query parameters for GET
+//   none       no body
+// {{variables}} are substituted in every mode but binary, and in form-data file names but not file contents.
+export type BodyMode = 'none' | 'json' | 'raw' | 'urlencoded' | 'formdata' | 'binary' | 'graphql';
+
+export const BODY_MODES: BodyMode[] = ['none', 'json', 'raw', 'urlencoded', 'formdata', 'binary', 'graphql'];
+
+export interface BodyField {
+  key: string;
+  value?: string;
+  type?: 'text' | 'file';
+  // Base64 file contents
+  data?: string;
+  filename?: string;
+  contentType?: string;
+  disabled?: boolean;
+}
+
+const BASE64 = /^[A-Za-z0-9+/]*={0,2}$/;
+
+const isBase64 = (value: unknown) => typeof value === 'string' && BASE64.test(value.replace(/\s+/g, ''));
+
+const isPlainObject = (value: unknown) => !!value && typeof value === 'object' && !Array.isArray(value);
+
+// {} is the column default and means no body, whatever the mode
+const isEmptyBody = (body: unknown) =>
+  body === undefined || body === null || (isPlainObject(body) && Object.keys(body as object).length === 0);
+
+const validateFields = (fields: unknown, mode: BodyMode): string | null => {
+  if (!Array.isArray(fields)) return `A ${mode} body must be an array of fields`;
+  for (const [index, field] of fields.entries()) {
+    if (!isPlainObject(field) || typeof field.key !== 'string' || !field.key) {
+      return `Body field ${index + 1} needs a key`;
+    }
+    if (field.disabled !== undefined && typeof field.disabled !== 'boolean') {
+      return `Body field '${field.key}': disabled must be a boolean`;
+    }
+    if (mode === 'formdata' && field.type === 'file') {
+      if (!isBase64(field.data)) return `Body field '${field.key}': file data must be base64 encoded`;
+      for (const option of ['filename', 'contentType']) {
+        if (field[option] !== undefined && typeof field[option] !== 'string') return `Body field '${field.key}': ${option} must be a string`;
+      }
+    } else {
+      if (field.type !== undefined && field.type !== 'text' && mode === 'formdata') {
+        return `Body field '${field.key}': type must be text or file`;
+      }
+      if (field.value !== undefined && typeof field.value !== 'string') return `Body field '${field.key}': value must be a string`;
+    }
+  }
+  return null;
+};
+
+// Returns an error message when the body does not fit the mode, or null when it does
+export const validateBody = (mode: unknown, body: unknown): string | null => {
+  if (!BODY_MODES.includes(mode as BodyMode)) {
+    return `body_mode must be one of ${BODY_MODES.join(', ')}`;
+  }
+  if (isEmptyBody(body)) return null;
+
+  switch (mode) {
+    case 'raw':
+      if (!isPlainObject(body) || typeof (body as any).content !== 'string') return 'A raw body must be an object with a content string';
+      if ((body as any).contentType !== undefined && typeof (body as any).contentType !== 'string') return 'Raw body contentType must be a string';
+      break;
+    case 'urlencoded':
+    case 'formdata':
+      return validateFields(body, mode);
+    case 'binary':
+      if (!isPlainObject(body) || !isBase64((body as any).data)) return 'A binary body must be an object with base64 encoded data';
+      if ((body as any).contentType !== undefined && typeof (body as any).contentType !== 'string') return 'Binary body contentType must be a string';
+      break;
+    case 'graphql':
+      return validateGraphqlBody(body);
+  }
+  return null;
+};
+
+// Quotes and line breaks in part names are percent-encoded, as browsers do
+const escapePartName = (value: string) =>
+  value.replace(/"/g, '%22').replace(/\r/g, '%0D').replace(/\n/g, '%0A');
+
+const encodeMultipart = (fields: BodyField[], boundary: string): Buffer => {
+  const chunks: Buffer[] = [];
+  for (const field of fields) {
+    let head = `--${boundary}\r\nContent-Disposition: form-data; name="${escapePartName(field.key)}"`;
+    if (field.type === 'file') {
+      head += `; filename="${escapePartName(field.filename || field.key)}"\r\n`;
+      head += `Content-Type: ${field.contentType || 'application/octet-stream'}\r\n\r\n`;
+      chunks.push(Buffer.from(head), Buffer.from(field.data || '', 'base64'), Buffer.from('\r\n'));
+    } else {
+      chunks.push(Buffer.from(`${head}\r\n\r\n${field.value ?? ''}\r\n`));
+    }
+  }
+  chunks.push(Buffer.from(`--${boundary}--\r\n`));
+  return Buffer.concat(chunks);
+};
+
+// The name a header is set under, matched case-insensitively as HTTP header names are
+export const findHeader = (headers: Record<string, any> | null | undefined, name: string): string | undefined =>
+  Object.keys(headers || {}).find(header => header.toLowerCase() === name.toLowerCase());
+
+// Renders the body for its mode and puts it on the request config together with
+// its Content-Type. A Content-Type written on the request wins, except that a
+// multipart one without a boundary gets the boundary of the generated body.
+export const applyBody = (
+  mode: BodyMode | null | undefined,
+  body: any,
+  config: AxiosRequestConfig,
+  variables: Record<string, any>,
+  warnings: Set<string>
+) => {
+  const headers: Record<string, any> = { ...(config.headers as Record<string, any>) };
+  let contentType: string | undefined;
+
+  switch (mode || 'json') {
+    case 'none':
+      config.data = undefined;
+      break;
+    case 'json':
+      config.data = body ? renderValue(body, variables, warnings) : undefined;
+      break;
+    case 'raw':
+      if (isEmptyBody(body)) break;
+      config.data = renderTemplate(body.content, variables, warnings);
+      contentType = body.contentType || 'text/plain';
+      break;
+    case 'urlencoded': {
+      const form = new URLSearchParams();
+      for (const field of (Array.isArray(body) ? body : []) as BodyField[]) {
+        if (field.disabled) continue;
+        form.append(renderTemplate(field.key, variables, warnings), renderTemplate(field.value ?? '', variables, warnings));
+      }
+      config.data = form.toString();
+      contentType = 'application/x-www-form-urlencoded';
+      break;
+    }
+    case 'formdata': {
+      const fields = ((Array.isArray(body) ? body : []) as BodyField[])
+        .filter(field => !field.disabled)
+        .map(field => ({
+          ...field,
+          key: renderTemplate(field.key, variables, warnings),
+          value: field.type === 'file' ? undefined : renderTemplate(field.value ?? '', variables, warnings),
+          filename: field.filename && renderTemplate(field.filename, variables, warnings),
+        }));
+      const boundary = `----GETapiBoundary${crypto.randomBytes(12).toString('hex')}`;
+      config.data = encodeMultipart(fields, boundary);
+      contentType = `multipart/form-data; boundary=${boundary}`;
+
+      const existing = findHeader(headers, 'content-type');
+      if (existing && /^multipart\/form-data/i.test(headers[existing]) && !/boundary=/i.test(headers[existing])) {
+        delete headers[existing];
+      }
+      break;
+    }
+    case 'binary':
+      if (isEmptyBody(body)) break;
+      config.data = Buffer.from(body.data, 'base64');
+      contentType = body.contentType || 'application/octet-stream';
+      break;
+    case 'graphql': {
+      if (isEmptyBody(body)) break;
+      const { query, variables: queryVariables, operationName } = renderValue(body, variables, warnings);
+      if ((config.method || 'GET').toUpperCase() === 'GET') {
+        config.params = {
+          ...config.params,
+          query,
+          ...(queryVariables ? { variables: JSON.stringify(queryVariables) } : {}),
+          ...(operationName ? { operationName } : {}),
+        };
+        config.data = undefined;
+      } else {
+        config.data = { query, variables: queryVariables || {}, ...(operationName ? { operationName } : {}) };
+        contentType = 'application/json';
+      }
+      break;
+    }
+  }
+
+  if (contentType && !findHeader(headers, 'content-type')) {
+    headers['Content-Type'] = contentType;
+  }
+  config.headers = headers;
+};
@@ -0,0 +1,66 @@
+import pool from '../config/database.js';
+import { RequestResult } from './collectionRunner.js';
+
+// Responses kept per request; older entries are pruned as new ones are saved
+export const HISTORY_LIMIT = 50;
+
+export interface HistoryMetadata {
+  requestId: number;
+  workspaceId: number;
+  sentBy: number | null;
+  environmentId?: number | null;
+}
+
+// Postgres text and JSONB columns cannot hold NUL characters, which binary
+// or malformed responses may well contain, so they are dropped
+const stripNul = (text: string) => text.replace(/\u0000/g, '');
+const toJson = (value: any) => JSON.stringify(value, (_key, item) => (typeof item === 'string' ? stripNul(item) : item));
+
+const bodySize = (data: any) => {
+  if (data === undefined || data === null) return 0;
+  return Buffer.byteLength(typeof data === 'string' ? data : JSON.stringify(data));
+};
+
+// Saves the outcome of a single send and prunes the request's history.
+// Returns the new entry's id.
+export const saveRequestHistory = async (result: RequestResult, metadata: HistoryMetadata): Promise<number> => {
+  const { response } = result;
+  const inserted = await pool.query(
+    `INSERT INTO request_history
+       (request_id, workspace_id, sent_by, environment_id, method, url, status, response_status, response_status_text,
+        response_headers, response_body, response_size, error, assertions, warnings, script_errors, duration, attempts, sent_at)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19)
+     RETURNING id`,
+    [
+      metadata.requestId,
+      metadata.workspaceId,
+      metadata.sentBy,
+      metadata.environmentId || null,
+      result.method,
+      stripNul(result.url),
+      result.status,
+      response?.status ?? null,
+      response?.statusText ?? null,
+      response ? toJson(response.headers || {}) : null,
+      response ? toJson(response.data ?? null) : null,
+      response ? bodySize(response.data) : null,
+      result.error ? stripNul(result.error) : null,
+      toJson(result.assertions),
+      toJson(result.warnings || []),
+      result.scriptErrors ? toJson(result.scriptErrors) : null,
+      result.duration,
+      result.attempts,
+      result.timestamp,
+    ]
+  );
+
+  await pool.query(
+    `DELETE FROM request_history
+     WHERE request_id = $1 AND id NOT IN (
+       SELECT id FROM request_history WHERE request_id = $1 ORDER BY sent_at DESC, id DESC LIMIT $2
+     )`,
+    [metadata.requestId, HISTORY_LIMIT]
+  );
+
+  return inserted.rows[0].id;
+};
@@ -0,0 +1,55 @@
+import pool from '../config/database.js';
+import { RunOutput } from './collectionRunner.js';
+
+export interface RunMetadata {
+  collectionId: number;
+  workspaceId: number;
+  triggeredBy: number | null;
+  environment: string | null;
+  // Stored environment whose variables the run used
+  environmentId?: number | null;
+  executionMode: string;
+  // Set when the run was started by a monitor rather than a user
+  monitorId?: number;
+}
+
+// Inserts a run record, or updates it if the run was already saved
+export const saveRun = async (run: RunOutput, metadata: RunMetadata) => {
+  await pool.query(
+    `INSERT INTO collection_runs
+       (id, collection_id, workspace_id, triggered_by, environment, execution_mode, status, results, iterations, summary, started_at, finished_at, monitor_id, environment_id)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)
+     ON CONFLICT (id) DO UPDATE SET
+       status = EXCLUDED.status,
+       results = EXCLUDED.results,
+       iterations = EXCLUDED.iterations,
+       summary = EXCLUDED.summary,
+       finished_at = EXCLUDED.finished_at`,
+    [
+      run.runId,
+      metadata.collectionId,
+      metadata.workspaceId,
+      metadata.triggeredBy,
+      metadata.environment,
+      metadata.executionMode,
+      run.status,
+      JSON.stringify(run.results),
+      JSON.stringify(run.iterations),
+      JSON.stringify(run.summary),
+      run.startedAt,
+      run.finishedAt || null,
+      metadata.monitorId || null,
+      metadata.environmentId || null,
+    ]
+  );
+};
+
+// Runs are tracked in memory while in progress, so any still marked as running
+// when the server starts were cut off by a restart
+export const markInterruptedRuns = async () => {
+  await pool.query(
+    `UPDATE collection_runs
+     SET status = 'cancelled', finished_at = CURRENT_TIMESTAMP
+     WHERE status = 'running'`
+  );
+};
@@ -0,0 +1,172 @@
+import { EventEmitter } from 'events';
+import { v4 as uuidv4 } from 'uuid';
+import pool from '../config/database.js';
+import { runCollection, summarizeResults, RequestData, RequestResult, RunEvent, RunOptions, RunOutput } from './collectionRunner.js';
+import { saveRun, RunMetadata } from './runHistory.js';
+import { dispatchRunWebhooks } from './webhooks.js';
+import { resolveAuth } from './auth.js';
+
+export interface ActiveRun {
+  runId: string;
+  workspaceId: number;
+  collectionId: number;
+  total: number;
+  results: RequestResult[];
+  startedAt: string;
+  controller: AbortController;
+  // Everything emitted so far, replayed to subscribers that join mid-run
+  events: RunEvent[];
+  emitter: EventEmitter;
+}
+
+// Every column the runner uses, plus the collection's auth to fall back on
+const RUNNABLE_COLUMNS = `r.id, r.name, r.method, r.url, r.headers, r.body, r.body_mode, r.params, r.pre_request_script,
+            r.post_request_script, r.extractions, r.auth, r.collection_id, c.auth as collection_auth`;
+
+const toRunnable = ({ collection_auth, ...request }: Record<string, any>) => ({
+  ...request,
+  auth: resolveAuth(request.auth, collection_auth),
+}) as RequestData & { collection_id: number };
+
+// Loads a collection's requests with every column the runner uses, in run order.
+// Each request gets its effective auth, falling back to the collection's.
+export const loadRunnableRequests = async (collectionId: number | string): Promise<RequestData[]> => {
+  const result = await pool.query(
+    `SELECT ${RUNNABLE_COLUMNS}
+     FROM requests r
+     JOIN collections c ON r.collection_id = c.id
+     WHERE r.collection_id = $1 ORDER BY r.created_at ASC, r.id ASC`,
+    [collectionId]
+  );
+  return result.rows.map(toRunnable);
+};
+
+// Loads one request the same way, or null when it is not in the workspace
+export const loadRunnableRequest = async (requestId: number | string, workspaceId: number) => {
+  const result = await pool.query(
+    `SELECT ${RUNNABLE_COLUMNS}
+     FROM requests r
+     JOIN collections c ON r.collection_id = c.id
+     WHERE r.id = $1 AND c.workspace_id = $2`,
+    [requestId, workspaceId]
+  );
+  return result.rows.length > 0 ? toRunnable(result.rows[0]) : null;
+};
+
+// Runs in progress on this server, keyed by runId
+const activeRuns = new Map<string, ActiveRun>();
+
+export const getActiveRun = (runId: string, workspaceId: number): ActiveRun | undefined => {
+  const run = activeRuns.get(runId);
+  return run && run.workspaceId === workspaceId ? run : undefined;
+};
+
+// Returns false when the run is not in progress on this server
+export const cancelRun = (runId: string, workspaceId: number): boolean => {
+  const run = getActiveRun(runId, workspaceId);
+  if (!run) return false;
+  run.controller.abort();
+  return true;
+};
+
+// Streams a run's events to the listener, starting with those already emitted.
+// Returns an unsubscribe function, or undefined when the run is not in progress.
+export const subscribeToRun = (
+  runId: string,
+  workspaceId: number,
+  listener: (event: RunEvent) => void
+): (() => void) | undefined => {
+  const run = getActiveRun(runId, workspaceId);
+  if (!run) return undefined;
+  run.events.forEach(listener);
+  run.emitter.on('event', listener);
+  return () => {
+    run.emitter.off('event', listener);
+  };
+};
+
+const saveRunSafely = async (run: RunOutput, metadata: RunMetadata) => {
+  try {
+    await saveRun(run, metadata);
+  } catch (error) {
+    console.error('Save collection run error:', error);
+  }
+};
+
+// Starts a collection run and registers it so it can be polled and cancelled.
+// The runId is available immediately; 'completion' settles with the final output
+// once the run has finished and been saved to history. Webhooks are notified afterwards.
+export const startCollectionRun = (
+  requests: RequestData[],
+  options: Omit<RunOptions, 'runId' | 'signal' | 'onEvent'>,
+  metadata: RunMetadata
+): { runId: string; completion: Promise<RunOutput> } => {
+  const runId = uuidv4();
+  const total = requests.length * Math.max(options.data?.length || 0, 1);
+  const activeRun: ActiveRun = {
+    runId,
+    workspaceId: metadata.workspaceId,
+    collectionId: metadata.collectionId,
+    total,
+    results: [],
+    startedAt: new Date().toISOString(),
+    controller: new AbortController(),
+    events: [],
+    emitter: new EventEmitter(),
+  };
+  activeRuns.set(runId, activeRun);
+
+  const placeholder = (status: RunOutput['status']): RunOutput => ({
+    runId,
+    status,
+    results: activeRun.results,
+    iterations: [],
+    summary: summarizeResults(activeRun.results, total, Date.now() - Date.parse(activeRun.startedAt)),
+    startedAt: activeRun.startedAt,
+    finishedAt: status === 'running' ? undefined : new Date().toISOString(),
+  });
+
+  const completion = (async () => {
+    try {
+      await saveRunSafely(placeholder('running'), metadata);
+
+      const output = await runCollection(requests, {
+        ...options,
+        runId,
+        signal: activeRun.controller.signal,
+        onEvent: event => {
+          if (event.type === 'request:finish') {
+            activeRun.results.push(event.result);
+          }
+          activeRun.events.push(event);
+          activeRun.emitter.emit('event', event);
+        },
+      });
+
+      await saveRunSafely(output, metadata);
+
+      // Deliveries retry with backoff, so they must not hold up the caller
+      dispatchRunWebhooks(output, metadata).catch(error => console.error('Dispatch webhooks error:', error));
+      return output;
+    } catch (error) {
+      // Never leave a run marked as running in history, nor its subscribers waiting
+      const failed = placeholder('failed');
+      const finish: RunEvent = {
+        type: 'run:finish',
+        runId,
+        status: failed.status,
+        summary: failed.summary,
+        finishedAt: failed.finishedAt!,
+      };
+      activeRun.events.push(finish);
+      activeRun.emitter.emit('event', finish);
+      await saveRunSafely(failed, metadata);
+      dispatchRunWebhooks(failed, metadata).catch(error => console.error('Dispatch webhooks error:', error));
+      throw error;
+    } finally {
+      activeRuns.delete(runId);
+    }
+  })();
+
+  return { runId, completion };
+};
@@ -0,0 +1,216 @@
+import { RequestResult, RunOutput } from './collectionRunner.js';
+
+export type ReportFormat = 'junit' | 'json' | 'html';
+
+export const REPORT_FORMATS: ReportFormat[] = ['junit', 'json', 'html'];
+
+export interface RunReportInput {
+  run: RunOutput;
+  collection: { id: number; name: string };
+  environment: string | null;
+}
+
+// Version of the JSON report layout; bump when fields are renamed or removed
+export const JSON_REPORT_SCHEMA_VERSION = 1;
+
+const seconds = (ms: number) => ((ms || 0) / 1000).toFixed(3);
+
+const escapeXml = (value: unknown) =>
+  String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+    // Control characters are not allowed in XML 1.0
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
+
+// HTML needs the same escaping as XML attributes and text
+const escapeHtml = escapeXml;
+
+const failedAssertions = (result: RequestResult) => (result.assertions || []).filter(a => !a.passed);
+
+const statusLine = (result: RequestResult) =>
+  result.response ? `${result.response.status} ${result.response.statusText}` : 'no response';
+
+const groupByIteration = (run: RunOutput) => {
+  const groups = new Map<number, RequestResult[]>();
+  for (const result of run.results) {
+    const iteration = result.iteration ?? 0;
+    groups.set(iteration, [...(groups.get(iteration) || []), result]);
+  }
+  return [...groups.entries()].sort(([a], [b]) => a - b);
+};
+
+// JUnit XML: one test suite per iteration, one test case per request. Failed
+// assertions become <failure> elements; transport and script errors become <error>.
+export const renderJUnitReport = ({ run, collection }: RunReportInput): string => {
+  const multipleIterations = (run.iterations?.length || 1) > 1;
+  const suites = groupByIteration(run).map(([iteration, results]) => {
+    const suiteName = multipleIterations ? `${collection.name} (iteration ${iteration + 1})` : collection.name;
+    const failures = results.reduce((count, r) => count + failedAssertions(r).length, 0);
+    const errors = results.filter(r => r.status === 'failed' || r.scriptErrors).length;
+    const time = results.reduce((total, r) => total + (r.duration || 0), 0);
+
+    const cases = results.map(result => {
+      const children: string[] = [];
+
+      for (const assertion of failedAssertions(result)) {
+        children.push(
+          `      <failure type="AssertionFailure" message="${escapeXml(`${assertion.name}: ${assertion.error || 'failed'}`)}">${escapeXml(assertion.error)}</failure>`
+        );
+      }
+      if (result.status === 'failed') {
+        children.push(`      <error type="RequestError" message="${escapeXml(result.error)}">${escapeXml(result.error)}</error>`);
+      }
+      if (result.scriptErrors?.preRequest) {
+        children.push(`      <error type="PreRequestScriptError" message="${escapeXml(result.scriptErrors.preRequest)}"/>`);
+      }
+      if (result.scriptErrors?.postRequest) {
+        children.push(`      <error type="PostRequestScriptError" message="${escapeXml(result.scriptErrors.postRequest)}"/>`);
+      }
+      children.push(
+        `      <system-out>${escapeXml(`${result.method} ${result.url}\n${statusLine(result)} in ${result.duration} ms`)}</system-out>`
+      );
+
+      return [
+        `    <testcase name="${escapeXml(`${result.method} ${result.name}`)}" classname="${escapeXml(collection.name)}" time="${seconds(result.duration)}">`,
+        ...children,
+        '    </testcase>',
+      ].join('\n');
+    });
+
+    return [
+      `  <testsuite name="${escapeXml(suiteName)}" tests="${results.length}" failures="${failures}" errors="${errors}" time="${seconds(time)}" timestamp="${escapeXml(results[0]?.timestamp || run.startedAt)}">`,
+      ...cases,
+      '  </testsuite>',
+    ].join('\n');
+  });
+
+  const totalFailures = run.summary.assertionsFailed || 0;
+  const totalErrors = run.results.filter(r => r.status === 'failed' || r.scriptErrors).length;
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="${escapeXml(collection.name)}" tests="${run.results.length}" failures="${totalFailures}" errors="${totalErrors}" time="${seconds(run.summary.totalDuration)}">`,
+    ...suites,
+    '</testsuites>',
+    '',
+  ].join('\n');
+};
+
+// Machine-readable report with a stable, versioned layout. Response bodies are
+// left out to keep reports small; they stay available through the run itself.
+export const buildJsonReport = ({ run, collection, environment }: RunReportInput) => ({
+  schemaVersion: JSON_REPORT_SCHEMA_VERSION,
+  run: {
+    id: run.runId,
+    status: run.status,
+    collection: { id: collection.id, name: collection.name },
+    environment,
+    startedAt: run.startedAt,
+    finishedAt: run.finishedAt || null,
+    durationMs: run.summary.totalDuration,
+  },
+  summary: run.summary,
+  iterations: (run.iterations || []).map(iteration => ({
+    iteration: iteration.iteration,
+    data: iteration.data || null,
+    summary: iteration.summary,
+  })),
+  requests: run.results.map(result => ({
+    requestId: result.requestId,
+    name: result.name,
+    method: result.method,
+    url: result.url,
+    iteration: result.iteration ?? 0,
+    status: result.status,
+    statusCode: result.response?.status ?? null,
+    statusText: result.response?.statusText ?? null,
+    durationMs: result.duration,
+    attempts: result.attempts ?? 1,
+    timestamp: result.timestamp,
+    error: result.error || null,
+    scriptErrors: result.scriptErrors || null,
+    assertions: (result.assertions || []).map(assertion => ({
+      name: assertion.name,
+      passed: assertion.passed,
+      error: assertion.error || null,
+    })),
+    warnings: result.warnings || [],
+  })),
+});
+
+// A single HTML page with inline styles, so it can be archived or mailed as is
+export const renderHtmlReport = (input: RunReportInput): string => {
+  const { run, collection, environment } = input;
+  const summary = run.summary;
+
+  const rows = run.results.map(result => {
+    const failed = result.status === 'failed' || failedAssertions(result).length > 0 || !!result.scriptErrors;
+    const details = [
+      result.error ? `<div class="error">${escapeHtml(result.error)}</div>` : '',
+      result.scriptErrors?.preRequest ? `<div class="error">Pre-request script: ${escapeHtml(result.scriptErrors.preRequest)}</div>` : '',
+      result.scriptErrors?.postRequest ? `<div class="error">Post-request script: ${escapeHtml(result.scriptErrors.postRequest)}</div>` : '',
+      ...(result.assertions || []).map(assertion =>
+        `<div class="${assertion.passed ? 'pass' : 'fail'}">${assertion.passed ? '&#10003;' : '&#10007;'} ${escapeHtml(assertion.name)}${assertion.error ? ` &mdash; ${escapeHtml(assertion.error)}` : ''}</div>`
+      ),
+    ].join('');
+
+    return `
+      <tr class="${failed ? 'failed' : 'passed'}">
+        <td>${(result.iteration ?? 0) + 1}</td>
+        <td><strong>${escapeHtml(result.method)}</strong> ${escapeHtml(result.name)}<div class="url">${escapeHtml(result.url)}</div></td>
+        <td>${escapeHtml(statusLine(result))}</td>
+        <td>${result.duration} ms</td>
+        <td>${details}</td>
+      </tr>`;
+  }).join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>${escapeHtml(collection.name)} &ndash; run report</title>
+  <style>
+    body { font-family: -apple-system, "Segoe UI", Roboto, sans-serif; margin: 2rem; color: #222; }
+    h1 { margin-bottom: 0.25rem; }
+    .meta { color: #666; margin-bottom: 1.5rem; }
+    .stats { display: flex; gap: 1rem; margin-bottom: 1.5rem; }
+    .stat { border: 1px solid #ddd; border-radius: 6px; padding: 0.75rem 1rem; min-width: 7rem; }
+    .stat b { display: block; font-size: 1.5rem; }
+    table { border-collapse: collapse; width: 100%; }
+    th, td { text-align: left; padding: 0.5rem; border-bottom: 1px solid #eee; vertical-align: top; }
+    tr.failed { background: #fff3f3; }
+    .url { color: #666; font-size: 0.85rem; word-break: break-all; }
+    .pass { color: #1a7f37; }
+    .fail, .error { color: #c62828; }
+    .status-completed { color: #1a7f37; }
+    .status-failed, .status-cancelled { color: #c62828; }
+  </style>
+</head>
+<body>
+  <h1>${escapeHtml(collection.name)}</h1>
+  <div class="meta">
+    Run ${escapeHtml(run.runId)} &middot; <span class="status-${escapeHtml(run.status)}">${escapeHtml(run.status)}</span>
+    &middot; environment ${escapeHtml(environment || 'none')} &middot; started ${escapeHtml(run.startedAt)}
+  </div>
+  <div class="stats">
+    <div class="stat"><b>${summary.total}</b>requests</div>
+    <div class="stat"><b>${summary.completed}</b>completed</div>
+    <div class="stat"><b>${summary.failed}</b>failed</div>
+    <div class="stat"><b>${summary.assertionsPassed ?? 0}</b>assertions passed</div>
+    <div class="stat"><b>${summary.assertionsFailed ?? 0}</b>assertions failed</div>
+    <div class="stat"><b>${summary.totalDuration}</b>ms total</div>
+  </div>
+  <table>
+    <thead>
+      <tr><th>Iteration</th><th>Request</th><th>Status</th><th>Time</th><th>Details</th></tr>
+    </thead>
+    <tbody>${rows}
+    </tbody>
+  </table>
+</body>
+</html>
+`;
+};
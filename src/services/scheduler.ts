@@ -0,0 +1,181 @@
+import { CronExpressionParser } from 'cron-parser';
+import pool from '../config/database.js';
+import { loadRunnableRequests, startCollectionRun } from './runManager.js';
+import { RunOutput } from './collectionRunner.js';
+import { loadEnvironment } from './environments.js';
+import { loadVariableScopes, mergeScopes } from './variableScopes.js';
+
+// How often the scheduler looks for monitors that are due
+const POLL_INTERVAL = 30000;
+
+// Monitors may not fire more often than once a minute
+const MIN_INTERVAL = 60000;
+
+export interface MonitorRow {
+  id: number;
+  name: string;
+  collection_id: number;
+  workspace_id: number;
+  cron_expression: string;
+  timezone: string;
+  environment: string | null;
+  environment_id: number | null;
+  variables: Record<string, any>;
+  execution_mode: 'sequential' | 'parallel';
+  enabled: boolean;
+  max_consecutive_failures: number;
+  consecutive_failures: number;
+  next_run_at: Date | null;
+  created_by: number | null;
+}
+
+export const getNextRunAt = (cronExpression: string, timezone: string, from: Date = new Date()): Date =>
+  CronExpressionParser.parse(cronExpression, { currentDate: from, tz: timezone }).next().toDate();
+
+// Returns an error message for unusable schedules, or null when the schedule is valid
+export const validateSchedule = (cronExpression: unknown, timezone: unknown): string | null => {
+  if (typeof cronExpression !== 'string' || !cronExpression.trim()) {
+    return 'cronExpression is required';
+  }
+  if (typeof timezone !== 'string' || !timezone) {
+    return 'timezone must be an IANA time zone name';
+  }
+  try {
+    Intl.DateTimeFormat(undefined, { timeZone: timezone });
+  } catch {
+    return `Unknown timezone '${timezone}'`;
+  }
+
+  try {
+    const schedule = CronExpressionParser.parse(cronExpression, { tz: timezone });
+    const first = schedule.next().toDate();
+    const second = schedule.next().toDate();
+    if (second.getTime() - first.getTime() < MIN_INTERVAL) {
+      return 'Monitors cannot run more often than once a minute';
+    }
+  } catch (error: any) {
+    return `Invalid cron expression: ${error.message}`;
+  }
+  return null;
+};
+
+// Runs a monitor's collection and records the outcome on the monitor. Failed runs,
+// including runs that could not be started or ended with an error, count towards
+// max_consecutive_failures and pause the monitor once it is reached. A cancelled
+// run neither counts as a failure nor resets the count.
+const runMonitor = async (monitor: MonitorRow) => {
+  let runId: string | null = null;
+  let status: RunOutput['status'] = 'failed';
+  let startedAt = new Date().toISOString();
+
+  try {
+    const requests = await loadRunnableRequests(monitor.collection_id);
+
+    // Stored variables are read on every run so edits to them apply to the next one
+    const storedEnvironment = monitor.environment_id
+      ? await loadEnvironment(monitor.environment_id, monitor.workspace_id)
+      : null;
+    const environment = monitor.environment ?? storedEnvironment?.name ?? null;
+    const { layers, secrets } = await loadVariableScopes(monitor.workspace_id, monitor.collection_id, storedEnvironment);
+
+    const run = startCollectionRun(
+      requests,
+      {
+        executionMode: monitor.execution_mode,
+        environment,
+        variables: { ...mergeScopes(layers), ...monitor.variables },
+        secrets,
+      },
+      {
+        collectionId: monitor.collection_id,
+        workspaceId: monitor.workspace_id,
+        triggeredBy: null,
+        environment,
+        environmentId: storedEnvironment?.id ?? null,
+        executionMode: monitor.execution_mode,
+        monitorId: monitor.id,
+      }
+    );
+    runId = run.runId;
+
+    const output = await run.completion;
+    status = output.status;
+    startedAt = output.startedAt;
+  } catch (error) {
+    console.error(`Monitor ${monitor.id} run error:`, error);
+  }
+
+  const failed = status === 'failed';
+  const cancelled = status === 'cancelled';
+
+  await pool.query(
+    `UPDATE monitors SET
+       last_run_id = $1,
+       last_run_status = $2,
+       last_run_at = $3,
+       consecutive_failures = CASE WHEN $4::boolean THEN consecutive_failures + 1
+         WHEN $5::boolean THEN consecutive_failures ELSE 0 END,
+       enabled = CASE WHEN $4 AND consecutive_failures + 1 >= max_consecutive_failures THEN false ELSE enabled END,
+       paused_reason = CASE WHEN $4 AND consecutive_failures + 1 >= max_consecutive_failures
+         THEN 'Paused after ' || (consecutive_failures + 1) || ' consecutive failed runs'
+         ELSE paused_reason END,
+       next_run_at = CASE WHEN $4 AND consecutive_failures + 1 >= max_consecutive_failures THEN NULL ELSE next_run_at END
+     WHERE id = $6`,
+    [runId, status, startedAt, failed, cancelled, monitor.id]
+  );
+};
+
+// Finds due monitors and starts them. Each one is claimed by moving next_run_at
+// forward first, so a slow tick or a second server never starts the same run twice.
+const tick = async () => {
+  const due = await pool.query(
+    'SELECT * FROM monitors WHERE enabled = true AND next_run_at <= CURRENT_TIMESTAMP'
+  );
+
+  for (const monitor of due.rows as MonitorRow[]) {
+    let nextRunAt: Date | null;
+    try {
+      nextRunAt = getNextRunAt(monitor.cron_expression, monitor.timezone);
+    } catch {
+      nextRunAt = null;
+    }
+
+    const claim = await pool.query(
+      'UPDATE monitors SET next_run_at = $1 WHERE id = $2 AND next_run_at = $3 RETURNING id',
+      [nextRunAt, monitor.id, monitor.next_run_at]
+    );
+    if (claim.rows.length === 0) continue;
+
+    runMonitor(monitor).catch(error => console.error(`Monitor ${monitor.id} run error:`, error));
+  }
+};
+
+let timer: NodeJS.Timeout | undefined;
+let ticking = false;
+
+export const startScheduler = () => {
+  if (timer) return;
+
+  const poll = async () => {
+    if (ticking) return;
+    ticking = true;
+    try {
+      await tick();
+    } catch (error) {
+      console.error('Scheduler error:', error);
+    } finally {
+      ticking = false;
+    }
+  };
+
+  timer = setInterval(poll, POLL_INTERVAL);
+  poll();
+  console.log('⏰ Monitor scheduler started');
+};
+
+export const stopScheduler = () => {
+  if (timer) {
+    clearInterval(timer);
+    timer = undefined;
+  }
+};
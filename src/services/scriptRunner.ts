@@ -1,39 +1,252 @@
 import ivm from 'isolated-vm';
 
+export interface AssertionResult {
+  name: string;
+  passed: boolean;
+  error?: string;
+}
+
+// Response details exposed to post-request scripts as 'pm.response'
+export interface ScriptResponse {
+  code: number;
+  status: string;
+  headers: Record<string, any>;
+  body: string;
+  responseTime: number;
+}
+
+export interface ScriptContext {
+  response?: ScriptResponse;
+}
+
 export interface ScriptRunResult {
   variables: Record<string, any>;
+  tests: AssertionResult[];
   error?: string;
 }
 
+// Bootstraps a Postman-like 'pm' object inside the isolate. Variables cross the
+// isolate boundary as JSON so the script can never hold a reference to host objects.
+const SANDBOX_PRELUDE = `
+  const __vars = JSON.parse(__variablesJson);
+  const __context = JSON.parse(__contextJson);
+  const __tests = [];
+
+  const __scope = {
+    get: (key) => __vars[key],
+    set: (key, value) => { __vars[key] = value; },
+    unset: (key) => { delete __vars[key]; },
+    has: (key) => Object.prototype.hasOwnProperty.call(__vars, key),
+    toObject: () => Object.assign({}, __vars),
+  };
+
+  const __format = (value) => {
+    if (typeof value === 'string') return "'" + value + "'";
+    try { return JSON.stringify(value); } catch (e) { return String(value); }
+  };
+
+  const __deepEqual = (a, b) => {
+    if (a === b) return true;
+    if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+    if (Array.isArray(a) !== Array.isArray(b)) return false;
+    const keysA = Object.keys(a);
+    const keysB = Object.keys(b);
+    if (keysA.length !== keysB.length) return false;
+    return keysA.every((key) => __deepEqual(a[key], b[key]));
+  };
+
+  const __typeOf = (value) => {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    return typeof value;
+  };
+
+  class AssertionError extends Error {}
+  const __responses = new WeakSet();
+
+  // A small chai-style 'expect' covering the assertions Postman scripts use most.
+  // As in chai, equal, include and property compare with === unless .deep is in the chain.
+  class Assertion {
+    constructor(actual, negate, deep) {
+      this.actual = actual;
+      this.negate = !!negate;
+      this.isDeep = !!deep;
+    }
+
+    compare(a, b) { return this.isDeep ? __deepEqual(a, b) : a === b; }
+
+    assert(condition, message, negatedMessage) {
+      if (this.negate ? condition : !condition) {
+        throw new AssertionError(this.negate ? negatedMessage : message);
+      }
+      return this;
+    }
+
+    get not() { return new Assertion(this.actual, !this.negate, this.isDeep); }
+    get deep() { return new Assertion(this.actual, this.negate, true); }
+    get ok() {
+      // On pm.response, 'ok' means a 200 status like in Postman
+      if (__responses.has(this.actual)) {
+        return this.assert(this.actual.code === 200, 'expected response to be ok but got ' + this.actual.code, 'expected response not to be ok');
+      }
+      return this.assert(!!this.actual, 'expected ' + __format(this.actual) + ' to be truthy', 'expected ' + __format(this.actual) + ' to be falsy');
+    }
+    get success() {
+      const code = this.actual && this.actual.code;
+      return this.assert(code >= 200 && code < 300, 'expected response to be successful but got ' + code, 'expected response not to be successful');
+    }
+    get true() { return this.assert(this.actual === true, 'expected ' + __format(this.actual) + ' to be true', 'expected value not to be true'); }
+    get false() { return this.assert(this.actual === false, 'expected ' + __format(this.actual) + ' to be false', 'expected value not to be false'); }
+    get null() { return this.assert(this.actual === null, 'expected ' + __format(this.actual) + ' to be null', 'expected value not to be null'); }
+    get undefined() { return this.assert(this.actual === undefined, 'expected ' + __format(this.actual) + ' to be undefined', 'expected value not to be undefined'); }
+    get exist() { return this.assert(this.actual !== null && this.actual !== undefined, 'expected value to exist', 'expected ' + __format(this.actual) + ' not to exist'); }
+    get empty() {
+      const actual = this.actual;
+      const size = typeof actual === 'string' || Array.isArray(actual) ? actual.length : Object.keys(actual || {}).length;
+      return this.assert(size === 0, 'expected ' + __format(actual) + ' to be empty', 'expected value not to be empty');
+    }
+
+    equal(expected) { return this.assert(this.compare(this.actual, expected), 'expected ' + __format(this.actual) + ' to ' + (this.isDeep ? 'deeply ' : '') + 'equal ' + __format(expected), 'expected ' + __format(this.actual) + ' not to ' + (this.isDeep ? 'deeply ' : '') + 'equal ' + __format(expected)); }
+    eql(expected) { return this.assert(__deepEqual(this.actual, expected), 'expected ' + __format(this.actual) + ' to deeply equal ' + __format(expected), 'expected ' + __format(this.actual) + ' not to deeply equal ' + __format(expected)); }
+    above(n) { return this.assert(this.actual > n, 'expected ' + __format(this.actual) + ' to be above ' + n, 'expected ' + __format(this.actual) + ' to be at most ' + n); }
+    below(n) { return this.assert(this.actual < n, 'expected ' + __format(this.actual) + ' to be below ' + n, 'expected ' + __format(this.actual) + ' to be at least ' + n); }
+    least(n) { return this.assert(this.actual >= n, 'expected ' + __format(this.actual) + ' to be at least ' + n, 'expected ' + __format(this.actual) + ' to be below ' + n); }
+    most(n) { return this.assert(this.actual <= n, 'expected ' + __format(this.actual) + ' to be at most ' + n, 'expected ' + __format(this.actual) + ' to be above ' + n); }
+    a(type) { return this.assert(__typeOf(this.actual) === type.toLowerCase(), 'expected ' + __format(this.actual) + ' to be a ' + type, 'expected ' + __format(this.actual) + ' not to be a ' + type); }
+    match(pattern) { return this.assert(pattern.test(String(this.actual)), 'expected ' + __format(this.actual) + ' to match ' + pattern, 'expected ' + __format(this.actual) + ' not to match ' + pattern); }
+    oneOf(list) { return this.assert(list.some((item) => __deepEqual(item, this.actual)), 'expected ' + __format(this.actual) + ' to be one of ' + __format(list), 'expected ' + __format(this.actual) + ' not to be one of ' + __format(list)); }
+    include(item) {
+      const actual = this.actual;
+      let found = false;
+      if (typeof actual === 'string') found = actual.includes(String(item));
+      else if (Array.isArray(actual)) found = actual.some((entry) => this.compare(entry, item));
+      else if (actual && typeof item === 'object') found = Object.keys(item).every((key) => this.compare(actual[key], item[key]));
+      return this.assert(found, 'expected ' + __format(actual) + ' to include ' + __format(item), 'expected ' + __format(actual) + ' not to include ' + __format(item));
+    }
+    property(name, value) {
+      const actual = this.actual;
+      const has = actual !== null && actual !== undefined && Object.prototype.hasOwnProperty.call(Object(actual), name);
+      if (arguments.length < 2) {
+        return this.assert(has, 'expected ' + __format(actual) + ' to have property ' + __format(name), 'expected ' + __format(actual) + ' not to have property ' + __format(name));
+      }
+      return this.assert(has && this.compare(actual[name], value), 'expected ' + __format(actual) + ' to have property ' + __format(name) + ' of ' + __format(value), 'expected ' + __format(actual) + ' not to have property ' + __format(name) + ' of ' + __format(value));
+    }
+    lengthOf(n) {
+      const length = this.actual ? this.actual.length : undefined;
+      return this.assert(length === n, 'expected ' + __format(this.actual) + ' to have length ' + n + ' but got ' + length, 'expected ' + __format(this.actual) + ' not to have length ' + n);
+    }
+    status(code) {
+      const actual = this.actual && this.actual.code;
+      return this.assert(actual === code, 'expected response to have status code ' + code + ' but got ' + actual, 'expected response not to have status code ' + code);
+    }
+    header(name, value) {
+      const headers = (this.actual && this.actual.headers) || { has: () => false, get: () => undefined };
+      if (arguments.length < 2) {
+        return this.assert(headers.has(name), 'expected response to have header ' + name, 'expected response not to have header ' + name);
+      }
+      return this.assert(headers.get(name) === value, 'expected header ' + name + ' to be ' + __format(value) + ' but got ' + __format(headers.get(name)), 'expected header ' + name + ' not to be ' + __format(value));
+    }
+  }
+
+  // Language chains and aliases, as in chai
+  ['to', 'be', 'been', 'is', 'that', 'which', 'and', 'has', 'have', 'with', 'at', 'of', 'same'].forEach((word) => {
+    Object.defineProperty(Assertion.prototype, word, { get() { return this; } });
+  });
+  Assertion.prototype.equals = Assertion.prototype.equal;
+  Assertion.prototype.eq = Assertion.prototype.equal;
+  Assertion.prototype.eqls = Assertion.prototype.eql;
+  Assertion.prototype.gt = Assertion.prototype.above;
+  Assertion.prototype.greaterThan = Assertion.prototype.above;
+  Assertion.prototype.lt = Assertion.prototype.below;
+  Assertion.prototype.lessThan = Assertion.prototype.below;
+  Assertion.prototype.gte = Assertion.prototype.least;
+  Assertion.prototype.lte = Assertion.prototype.most;
+  Assertion.prototype.an = Assertion.prototype.a;
+  Assertion.prototype.includes = Assertion.prototype.include;
+  Assertion.prototype.contain = Assertion.prototype.include;
+  Assertion.prototype.contains = Assertion.prototype.include;
+  Assertion.prototype.length = Assertion.prototype.lengthOf;
+
+  const __buildResponse = (raw) => {
+    const headers = {};
+    Object.keys(raw.headers || {}).forEach((key) => { headers[key.toLowerCase()] = raw.headers[key]; });
+    const response = {
+      code: raw.code,
+      status: raw.status,
+      responseTime: raw.responseTime,
+      headers: {
+        get: (name) => headers[String(name).toLowerCase()],
+        has: (name) => Object.prototype.hasOwnProperty.call(headers, String(name).toLowerCase()),
+        toObject: () => Object.assign({}, headers),
+      },
+      text: () => raw.body,
+      json: () => JSON.parse(raw.body),
+    };
+    Object.defineProperty(response, 'to', { get() { return new Assertion(response); } });
+    __responses.add(response);
+    return response;
+  };
+
+  const pm = {
+    variables: __scope,
+    environment: __scope,
+    globals: __scope,
+    collectionVariables: __scope,
+    expect: (actual) => new Assertion(actual),
+    test: (name, fn) => {
+      try {
+        fn();
+        __tests.push({ name: String(name), passed: true });
+      } catch (e) {
+        __tests.push({ name: String(name), passed: false, error: e && e.message ? e.message : String(e) });
+      }
+    },
+    response: __context.response ? __buildResponse(__context.response) : undefined,
+  };
+  const console = { log() {}, info() {}, warn() {}, error() {} };
+`;
+
 export const runScript = async (
   script: string,
-  variables: Record<string, any>
+  variables: Record<string, any>,
+  context: ScriptContext = {}
 ): Promise<ScriptRunResult> => {
   if (!script) {
-    return { variables };
+    return { variables, tests: [] };
   }
 
   const isolate = new ivm.Isolate({ memoryLimit: 128 });
-  const context = await isolate.createContext();
-  const jail = context.global;
-
-  // Set a global 'pm' object similar to Postman
-  await jail.set('pm', new ivm.Reference(variables));
 
   try {
+    const isolateContext = await isolate.createContext();
+    await isolateContext.global.set('__variablesJson', JSON.stringify(variables));
+    await isolateContext.global.set('__contextJson', JSON.stringify(context));
+
+    // Tests recorded before a script error are kept, so the script body
+    // reports its own failure instead of discarding the whole run.
     const code = `
-      // The user script will run here
-      ${script}
-      // Return the modified 'pm' object
-      return pm;
+      ${SANDBOX_PRELUDE}
+      let __error;
+      try {
+        (function () {
+          // The user script will run here
+          ${script}
+        })();
+      } catch (e) {
+        __error = e && e.message ? e.message : String(e);
+      }
+      // Hand the (possibly modified) variables and the test results back to the host
+      JSON.stringify({ variables: __vars, tests: __tests, error: __error });
     `;
-    
-    const result = await context.eval(code, { timeout: 1000 });
-    const newVariables = await result.copy();
-    return { variables: newVariables };
+
+    const result = JSON.parse(await isolateContext.eval(code, { timeout: 1000 }));
+    return result.error
+      ? { variables, tests: result.tests, error: result.error }
+      : { variables: result.variables, tests: result.tests };
   } catch (err: any) {
     return {
       variables,
+      tests: [],
       error: err.message,
     };
   } finally {
@@ -41,4 +254,4 @@ export const runScript = async (
       isolate.dispose();
     }
   }
-}; 
\ No newline at end of file
+};
@@ -0,0 +1,59 @@
+import crypto from 'crypto';
+
+// Shown instead of a secret value in API responses. Sending it back unchanged
+// when updating a secret keeps the stored value.
+export const MASKED_VALUE = '********';
+
+// What substituted secrets are replaced with in run output
+export const REDACTED = '[REDACTED]';
+
+// Encrypted values are stored as enc:v1:<iv>:<auth tag>:<ciphertext>, base64 encoded
+const PREFIX = 'enc:v1:';
+
+// Secrets can only be stored or read when the server has an encryption key
+export const secretsConfigured = () => !!process.env.SECRETS_ENCRYPTION_KEY;
+
+// AES-256-GCM key derived from the server's SECRETS_ENCRYPTION_KEY
+const getKey = (): Buffer => {
+  const secret = process.env.SECRETS_ENCRYPTION_KEY;
+  if (!secret) throw new Error('SECRETS_ENCRYPTION_KEY is not set');
+  return crypto.createHash('sha256').update(secret).digest();
+};
+
+export const encryptSecret = (value: string): string => {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', getKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(value, 'utf8'), cipher.final()]);
+  return PREFIX + [iv, cipher.getAuthTag(), ciphertext].map(part => part.toString('base64')).join(':');
+};
+
+export const decryptSecret = (stored: string): string => {
+  if (!stored.startsWith(PREFIX)) return stored;
+  const [iv, tag, ciphertext] = stored.slice(PREFIX.length).split(':').map(part => Buffer.from(part, 'base64'));
+  const decipher = crypto.createDecipheriv('aes-256-gcm', getKey(), iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8');
+};
+
+// Plain value of a variables row, decrypting secrets
+export const readVariableValue = (row: { value: string; is_secret?: boolean }): string =>
+  row.is_secret ? decryptSecret(row.value) : row.value;
+
+// Copy of a variables row that is safe to return from the API
+export const maskVariable = <T extends { value?: string; is_secret?: boolean }>(row: T): T =>
+  row.is_secret ? { ...row, value: MASKED_VALUE } : row;
+
+// Replaces every occurrence of the secrets, as is and URL-encoded, in the text.
+// Longer secrets go first so one that contains another is redacted whole.
+export const redactSecrets = (text: string, secrets: string[]): string => {
+  if (!text || secrets.length === 0) return text;
+  const forms = new Set<string>();
+  for (const secret of secrets) {
+    if (!secret) continue;
+    forms.add(secret);
+    forms.add(encodeURIComponent(secret));
+  }
+  return [...forms]
+    .sort((a, b) => b.length - a.length)
+    .reduce((redacted, form) => redacted.split(form).join(REDACTED), text);
+};
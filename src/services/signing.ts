@@ -0,0 +1,201 @@
+import crypto from 'crypto';
+import { AxiosRequestConfig } from 'axios';
+import { findHeader } from './requestBody.js';
+
+// Request signatures cover the exact URL and body that go over the wire, so
+// both are settled here before signing instead of being left to axios.
+
+// encodeURIComponent leaves !'()* alone, RFC 3986 (and AWS) do not
+export const rfc3986 = (value: string) =>
+  encodeURIComponent(value).replace(/[!'()*]/g, c => '%' + c.charCodeAt(0).toString(16).toUpperCase());
+
+const sha256 = (data: string | Buffer) => crypto.createHash('sha256').update(data).digest('hex');
+
+const hmac = (key: string | Buffer, data: string) => crypto.createHmac('sha256', key).update(data).digest();
+
+// Folds config.params into the URL with a sorted, RFC 3986 encoded query string
+// and returns the final URL
+export const finalizeUrl = (config: AxiosRequestConfig): URL => {
+  const url = new URL(config.url!);
+  const pairs: [string, string][] = [...url.searchParams.entries()];
+  for (const [key, value] of Object.entries(config.params || {})) {
+    if (value === undefined || value === null) continue;
+    for (const item of Array.isArray(value) ? value : [value]) {
+      pairs.push([key, typeof item === 'object' ? JSON.stringify(item) : String(item)]);
+    }
+  }
+
+  pairs.sort(([a, av], [b, bv]) => (a === b ? (av < bv ? -1 : av > bv ? 1 : 0) : a < b ? -1 : 1));
+  url.search = pairs.map(([key, value]) => `${rfc3986(key)}=${rfc3986(value)}`).join('&');
+
+  config.url = url.toString();
+  config.params = undefined;
+  return url;
+};
+
+// Serializes the body the way axios would and stores the result on the config.
+// Returns the body bytes to sign.
+export const finalizeBody = (config: AxiosRequestConfig): string | Buffer => {
+  const headers = (config.headers || {}) as Record<string, any>;
+  const data = config.data;
+  let body: string | Buffer = '';
+
+  if (data === undefined || data === null) {
+    body = '';
+  } else if (typeof data === 'string' || Buffer.isBuffer(data)) {
+    body = data;
+  } else if (data instanceof URLSearchParams) {
+    body = data.toString();
+    if (!findHeader(headers, 'content-type')) headers['Content-Type'] = 'application/x-www-form-urlencoded';
+  } else {
+    body = JSON.stringify(data);
+    if (!findHeader(headers, 'content-type')) headers['Content-Type'] = 'application/json';
+  }
+
+  config.headers = headers;
+  if (data !== undefined && data !== null) config.data = body;
+  return body;
+};
+
+export interface AwsV4Input {
+  method: string;
+  url: URL;
+  headers: Record<string, any>;
+  body: string | Buffer;
+  accessKeyId: string;
+  secretAccessKey: string;
+  sessionToken?: string;
+  region: string;
+  service: string;
+  date?: Date;
+}
+
+// AWS Signature Version 4. Returns the headers to add to the request: the
+// signature signs host, content-type and every x-amz-* header.
+export const signAwsV4 = (input: AwsV4Input): Record<string, string> => {
+  const amzDate = (input.date || new Date()).toISOString().replace(/[:-]|\.\d{3}/g, '');
+  const day = amzDate.slice(0, 8);
+  const payloadHash = sha256(input.body);
+
+  const added: Record<string, string> = { 'X-Amz-Date': amzDate };
+  if (input.sessionToken) added['X-Amz-Security-Token'] = input.sessionToken;
+  // S3 requires the payload hash as a header
+  if (input.service === 's3') added['X-Amz-Content-Sha256'] = payloadHash;
+
+  const signed = new Map<string, string>([['host', input.url.host]]);
+  for (const [name, value] of Object.entries({ ...input.headers, ...added })) {
+    const lower = name.toLowerCase();
+    if (lower === 'content-type' || lower.startsWith('x-amz-')) {
+      signed.set(lower, String(value).trim().replace(/\s+/g, ' '));
+    }
+  }
+  const names = [...signed.keys()].sort();
+  const signedHeaders = names.join(';');
+
+  // Every service but S3 expects each path segment to be encoded a second time
+  const path = input.url.pathname || '/';
+  const canonicalUri = input.service === 's3' ? path : path.split('/').map(rfc3986).join('/');
+  const canonicalQuery = [...input.url.searchParams.entries()]
+    .map(([key, value]) => [rfc3986(key), rfc3986(value)])
+    .sort(([a, av], [b, bv]) => (a === b ? (av < bv ? -1 : 1) : a < b ? -1 : 1))
+    .map(([key, value]) => `${key}=${value}`)
+    .join('&');
+
+  const canonicalRequest = [
+    input.method.toUpperCase(),
+    canonicalUri,
+    canonicalQuery,
+    names.map(name => `${name}:${signed.get(name)}\n`).join(''),
+    signedHeaders,
+    payloadHash,
+  ].join('\n');
+
+  const scope = `${day}/${input.region}/${input.service}/aws4_request`;
+  const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256(canonicalRequest)].join('\n');
+
+  const signingKey = [day, input.region, input.service, 'aws4_request']
+    .reduce<Buffer>((key, part) => hmac(key, part), Buffer.from(`AWS4${input.secretAccessKey}`));
+  const signature = crypto.createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+  added.Authorization = `AWS4-HMAC-SHA256 Credential=${input.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`;
+  return added;
+};
+
+export interface HmacInput {
+  method: string;
+  url: URL;
+  body: string | Buffer;
+  secret: string;
+  algorithm?: 'sha1' | 'sha256' | 'sha512';
+  encoding?: 'hex' | 'base64';
+  timestamp?: string;
+}
+
+// Generic HMAC over "METHOD\n/path?query\n[timestamp\n]body"
+export const signHmac = (input: HmacInput): string => {
+  const parts = [input.method.toUpperCase(), input.url.pathname + input.url.search];
+  if (input.timestamp !== undefined) parts.push(input.timestamp);
+  return crypto
+    .createHmac(input.algorithm || 'sha256', input.secret)
+    .update(parts.join('\n') + '\n')
+    .update(input.body)
+    .digest(input.encoding || 'hex');
+};
+
+export type DigestChallenge = Record<string, string>;
+
+// Reads the Digest challenge out of a WWW-Authenticate header, or null when there is none
+export const parseDigestChallenge = (header: string | string[] | undefined): DigestChallenge | null => {
+  const value = (Array.isArray(header) ? header : [header || '']).find(h => /^\s*Digest\s/i.test(h));
+  if (!value) return null;
+
+  const challenge: DigestChallenge = {};
+  const param = /([\w-]+)\s*=\s*(?:"((?:[^"\\]|\\.)*)"|([^\s,]+))/g;
+  let match: RegExpExecArray | null;
+  while ((match = param.exec(value.replace(/^\s*Digest\s+/i, '')))) {
+    challenge[match[1].toLowerCase()] = match[2] !== undefined ? match[2].replace(/\\(.)/g, '$1') : match[3];
+  }
+  return challenge.nonce && challenge.realm !== undefined ? challenge : null;
+};
+
+export interface DigestInput {
+  username: string;
+  password: string;
+  method: string;
+  uri: string;
+  challenge: DigestChallenge;
+  // Number of requests sent with this nonce, this one included
+  nonceCount: number;
+  cnonce?: string;
+}
+
+// Authorization header answering a Digest challenge (RFC 7616), with qop=auth when offered
+export const digestAuthorization = (input: DigestInput): string => {
+  const { challenge } = input;
+  const algorithm = (challenge.algorithm || 'MD5').toUpperCase();
+  const hashName = algorithm.startsWith('SHA-256') ? 'sha256' : 'md5';
+  const hash = (data: string) => crypto.createHash(hashName).update(data).digest('hex');
+
+  const cnonce = input.cnonce || crypto.randomBytes(8).toString('hex');
+  const nc = input.nonceCount.toString(16).padStart(8, '0');
+  const qop = challenge.qop?.split(',').map(q => q.trim()).includes('auth') ? 'auth' : undefined;
+
+  let ha1 = hash(`${input.username}:${challenge.realm}:${input.password}`);
+  if (algorithm.endsWith('-SESS')) ha1 = hash(`${ha1}:${challenge.nonce}:${cnonce}`);
+  const ha2 = hash(`${input.method.toUpperCase()}:${input.uri}`);
+  const response = qop
+    ? hash(`${ha1}:${challenge.nonce}:${nc}:${cnonce}:${qop}:${ha2}`)
+    : hash(`${ha1}:${challenge.nonce}:${ha2}`);
+
+  const fields = [
+    `username="${input.username}"`,
+    `realm="${challenge.realm}"`,
+    `nonce="${challenge.nonce}"`,
+    `uri="${input.uri}"`,
+    `algorithm=${challenge.algorithm || 'MD5'}`,
+    `response="${response}"`,
+  ];
+  if (qop) fields.push(`qop=${qop}`, `nc=${nc}`, `cnonce="${cnonce}"`);
+  if (challenge.opaque !== undefined) fields.push(`opaque="${challenge.opaque}"`);
+  return `Digest ${fields.join(', ')}`;
+};
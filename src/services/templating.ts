@@ -0,0 +1,115 @@
+import { v4 as uuidv4 } from 'uuid';
+
+// Substitutes {{name}} placeholders. Besides plain variables a placeholder can hold:
+//   - a built-in dynamic variable: {{$guid}}, {{$timestamp}}, {{$isoTimestamp}}, {{$randomInt}}, {{$randomEmail}}
+//   - a dotted path into an object variable: {{user.address.city}}, {{items.0.id}}
+//   - filters applied left to right: {{token | base64}}, {{query | urlencode}}
+// Variable values may contain placeholders themselves, which are resolved in turn.
+
+// Nested references deeper than this are assumed to be a cycle
+const MAX_DEPTH = 10;
+
+const PLACEHOLDER = /\{\{\s*([^{}|]+?)\s*((?:\|\s*[\w-]+\s*)*)\}\}/g;
+
+const randomInt = (min: number, max: number) => Math.floor(Math.random() * (max - min + 1)) + min;
+
+// Each placeholder gets a fresh value, as in Postman
+const DYNAMIC_VARIABLES: Record<string, () => string> = {
+  $guid: () => uuidv4(),
+  $randomUUID: () => uuidv4(),
+  $timestamp: () => String(Math.floor(Date.now() / 1000)),
+  $isoTimestamp: () => new Date().toISOString(),
+  $randomInt: () => String(randomInt(0, 1000)),
+  $randomEmail: () => `user${randomInt(1000, 99999)}@example.com`,
+};
+
+const FILTERS: Record<string, (value: string) => string> = {
+  base64: value => Buffer.from(value, 'utf8').toString('base64'),
+  base64decode: value => Buffer.from(value, 'base64').toString('utf8'),
+  urlencode: value => encodeURIComponent(value),
+  urldecode: value => decodeURIComponent(value),
+  upper: value => value.toUpperCase(),
+  lower: value => value.toLowerCase(),
+  trim: value => value.trim(),
+};
+
+const toText = (value: any): string => (typeof value === 'object' ? JSON.stringify(value) : String(value));
+
+// Object variables often arrive as JSON text (stored variables are strings)
+const asObject = (value: any): any => {
+  if (typeof value !== 'string' || !/^\s*[[{]/.test(value)) return value;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+};
+
+const lookup = (name: string, variables: Record<string, any>): any => {
+  if (Object.prototype.hasOwnProperty.call(variables, name)) return variables[name];
+  if (DYNAMIC_VARIABLES[name]) return DYNAMIC_VARIABLES[name]();
+
+  const [root, ...path] = name.split('.');
+  if (path.length === 0 || !Object.prototype.hasOwnProperty.call(variables, root)) return undefined;
+
+  let current = asObject(variables[root]);
+  for (const segment of path) {
+    if (current === null || typeof current !== 'object' || !Object.prototype.hasOwnProperty.call(current, segment)) {
+      return undefined;
+    }
+    current = current[segment];
+  }
+  return current;
+};
+
+const render = (template: string, variables: Record<string, any>, warnings: Set<string>, stack: string[]): string =>
+  template.replace(PLACEHOLDER, (match, name: string, filterText: string) => {
+    const value = lookup(name, variables);
+    if (value === undefined || value === null) {
+      warnings.add(`Unresolved variable '${name}'`);
+      return match;
+    }
+
+    let text = toText(value);
+    if (text.includes('{{')) {
+      if (stack.includes(name) || stack.length >= MAX_DEPTH) {
+        warnings.add(`Variable '${name}' has a circular reference`);
+      } else {
+        text = render(text, variables, warnings, [...stack, name]);
+      }
+    }
+
+    const filters = filterText.split('|').map(filter => filter.trim()).filter(Boolean);
+    for (const filter of filters) {
+      if (!FILTERS[filter]) {
+        warnings.add(`Unknown filter '${filter}' on variable '${name}'`);
+        return match;
+      }
+      try {
+        text = FILTERS[filter](text);
+      } catch (error: any) {
+        warnings.add(`Filter '${filter}' failed on variable '${name}': ${error.message}`);
+        return match;
+      }
+    }
+    return text;
+  });
+
+// Renders a string. Placeholders that cannot be resolved stay as they are and
+// are reported through warnings.
+export const renderTemplate = (template: string, variables: Record<string, any>, warnings: Set<string> = new Set()): string => {
+  if (!template || typeof template !== 'string') return template;
+  return render(template, variables, warnings, []);
+};
+
+// Renders every string in a value, object keys included, keeping its structure
+export const renderValue = (value: any, variables: Record<string, any>, warnings: Set<string> = new Set()): any => {
+  if (typeof value === 'string') return renderTemplate(value, variables, warnings);
+  if (Array.isArray(value)) return value.map(item => renderValue(item, variables, warnings));
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [renderTemplate(key, variables, warnings), renderValue(item, variables, warnings)])
+    );
+  }
+  return value;
+};
@@ -0,0 +1,97 @@
+import pool from '../config/database.js';
+import { Environment } from './environments.js';
+import { MASKED_VALUE, readVariableValue } from './secrets.js';
+
+// Variable scopes from lowest to highest precedence. Global, collection and
+// environment values are stored; data rows come from iteration data and local
+// values are set while the run is in progress (scripts and extraction rules).
+export type VariableScope = 'global' | 'collection' | 'environment' | 'data' | 'local';
+
+export const SCOPE_PRECEDENCE: VariableScope[] = ['global', 'collection', 'environment', 'data', 'local'];
+
+export type VariableLayers = Partial<Record<VariableScope, Record<string, any>>>;
+
+export interface StoredScopes {
+  layers: VariableLayers;
+  // Plain values of the secret variables among them, to be kept out of run output
+  secrets: string[];
+}
+
+export interface ResolvedVariable {
+  key: string;
+  value: any;
+  scope: VariableScope;
+  // Values of the same key in lower scopes, highest first
+  overrides: { scope: VariableScope; value: any }[];
+}
+
+// Flattens the layers into the values a request sees
+export const mergeScopes = (layers: VariableLayers): Record<string, any> =>
+  Object.assign({}, ...SCOPE_PRECEDENCE.map(scope => layers[scope] || {}));
+
+// Explains where each effective value comes from and what it overrides. Values
+// listed in secrets are masked.
+export const resolveScopes = (layers: VariableLayers, secrets: string[] = []): ResolvedVariable[] => {
+  const resolved = new Map<string, ResolvedVariable>();
+  for (const scope of SCOPE_PRECEDENCE) {
+    for (const [key, plain] of Object.entries(layers[scope] || {})) {
+      const value = secrets.includes(plain) ? MASKED_VALUE : plain;
+      const previous = resolved.get(key);
+      resolved.set(key, {
+        key,
+        value,
+        scope,
+        overrides: previous ? [{ scope: previous.scope, value: previous.value }, ...previous.overrides] : [],
+      });
+    }
+  }
+  return [...resolved.values()].sort((a, b) => a.key.localeCompare(b.key));
+};
+
+// Loads the stored scopes for a run of the collection. Global variables are the
+// workspace's own (scope 'workspace'); the environment must already be loaded.
+// Secret values are decrypted so the runner can use them.
+export const loadVariableScopes = async (
+  workspaceId: number,
+  collectionId: number | string | null,
+  environment: Environment | null
+): Promise<StoredScopes> => {
+  const result = await pool.query(
+    `SELECT variable_key, value, is_secret, collection_id FROM variables
+     WHERE workspace_id = $1 AND environment_id IS NULL
+       AND ((scope = 'workspace' AND collection_id IS NULL) OR (scope = 'collection' AND collection_id = $2))`,
+    [workspaceId, collectionId]
+  );
+
+  const global: Record<string, any> = {};
+  const collection: Record<string, any> = {};
+  const secrets = (environment?.secrets || []).map(key => environment!.variables[key]);
+  for (const row of result.rows) {
+    const value = readVariableValue(row);
+    (row.collection_id === null ? global : collection)[row.variable_key] = value;
+    if (row.is_secret) secrets.push(value);
+  }
+
+  return {
+    layers: { global, collection, environment: environment?.variables || {} },
+    secrets,
+  };
+};
+
+// Records what a request changed as local values. Unsetting a variable only
+// drops its local value, so a stored value underneath becomes visible again.
+export const captureLocalChanges = (
+  local: Record<string, any>,
+  before: Record<string, any>,
+  after: Record<string, any>
+): Record<string, any> => {
+  const next = { ...local };
+  for (const key of Object.keys(before)) {
+    if (!(key in after)) delete next[key];
+  }
+  for (const [key, value] of Object.entries(after)) {
+    // Values pass through JSON in the script sandbox, so compare them the same way
+    if (!(key in before) || JSON.stringify(before[key]) !== JSON.stringify(value)) next[key] = value;
+  }
+  return next;
+};
@@ -0,0 +1,149 @@
+import crypto from 'crypto';
+import axios from 'axios';
+import { v4 as uuidv4 } from 'uuid';
+import pool from '../config/database.js';
+import { RequestResult, RunOutput } from './collectionRunner.js';
+import { RunMetadata } from './runHistory.js';
+
+export type WebhookEvent = 'run.finished' | 'run.failed' | 'run.recovered';
+
+export const WEBHOOK_EVENTS: WebhookEvent[] = ['run.finished', 'run.failed', 'run.recovered'];
+
+// Delivery attempts per webhook and the delay before the first retry (doubled each time)
+const MAX_ATTEMPTS = 4;
+const RETRY_DELAY = 1000;
+const DELIVERY_TIMEOUT = 10000;
+
+interface WebhookRow {
+  id: number;
+  url: string;
+  secret: string;
+  events: WebhookEvent[];
+}
+
+export const generateWebhookSecret = () => crypto.randomBytes(24).toString('hex');
+
+// Receivers verify deliveries by recomputing this over `${timestamp}.${body}`
+export const signPayload = (secret: string, timestamp: string, body: string) =>
+  'sha256=' + crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+
+// Failing requests without their response bodies, which can be large and are kept in run history
+const failingResults = (results: RequestResult[]) =>
+  results
+    .filter(r => r.status === 'failed' || r.assertions.some(a => !a.passed) || r.scriptErrors)
+    .map(({ response, extracted, ...result }) => ({
+      ...result,
+      response: response && { status: response.status, statusText: response.statusText },
+    }));
+
+// A run recovers when it succeeds right after a failed run of the same collection
+const isRecovery = async (run: RunOutput, collectionId: number) => {
+  if (run.status !== 'completed') return false;
+  const previous = await pool.query(
+    `SELECT status FROM collection_runs
+     WHERE collection_id = $1 AND id <> $2 AND status IN ('completed', 'failed')
+     ORDER BY started_at DESC LIMIT 1`,
+    [collectionId, run.runId]
+  );
+  return previous.rows[0]?.status === 'failed';
+};
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Posts the payload, retrying network errors, 429 and 5xx responses with
+// exponential backoff. Every attempt is written to the delivery log.
+const deliver = async (webhook: WebhookRow, event: WebhookEvent, runId: string, payload: object) => {
+  const body = JSON.stringify(payload);
+  const deliveryId = uuidv4();
+
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    const timestamp = String(Math.floor(Date.now() / 1000));
+    const startTime = Date.now();
+    let statusCode: number | null = null;
+    let error: string | null = null;
+
+    try {
+      const response = await axios.post(webhook.url, body, {
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'GETapi-Webhooks/1.0',
+          'X-GETapi-Event': event,
+          'X-GETapi-Delivery': deliveryId,
+          'X-GETapi-Timestamp': timestamp,
+          'X-GETapi-Signature': signPayload(webhook.secret, timestamp, body),
+        },
+        timeout: DELIVERY_TIMEOUT,
+        validateStatus: () => true,
+      });
+      statusCode = response.status;
+      if (statusCode < 200 || statusCode >= 300) {
+        error = `Receiver responded with ${statusCode}`;
+      }
+    } catch (err: any) {
+      error = err.message;
+    }
+
+    const success = error === null;
+    const retryable = !success && (statusCode === null || statusCode === 429 || statusCode >= 500);
+
+    await pool.query(
+      `INSERT INTO webhook_deliveries
+         (webhook_id, delivery_id, run_id, event, attempt, status_code, success, error, duration, payload)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)`,
+      [webhook.id, deliveryId, runId, event, attempt, statusCode, success, error, Date.now() - startTime, body]
+    );
+
+    if (success || !retryable || attempt === MAX_ATTEMPTS) return;
+    await wait(RETRY_DELAY * 2 ** (attempt - 1));
+  }
+};
+
+// Notifies the workspace's and collection's webhooks about a finished run. Each
+// webhook gets one delivery per run, for the most specific event it subscribes
+// to: run.failed or run.recovered before run.finished. Cancelled runs are not reported.
+export const dispatchRunWebhooks = async (run: RunOutput, metadata: RunMetadata) => {
+  if (run.status !== 'completed' && run.status !== 'failed') return;
+
+  const webhooksResult = await pool.query(
+    `SELECT id, url, secret, events FROM webhooks
+     WHERE workspace_id = $1 AND enabled = true AND (collection_id IS NULL OR collection_id = $2)`,
+    [metadata.workspaceId, metadata.collectionId]
+  );
+  if (webhooksResult.rows.length === 0) return;
+
+  const runEvents: WebhookEvent[] = [];
+  if (run.status === 'failed') runEvents.push('run.failed');
+  if (await isRecovery(run, metadata.collectionId)) runEvents.push('run.recovered');
+  runEvents.push('run.finished');
+
+  const collectionResult = await pool.query('SELECT id, name FROM collections WHERE id = $1', [metadata.collectionId]);
+  const collection = collectionResult.rows[0] || { id: metadata.collectionId, name: null };
+
+  await Promise.all(webhooksResult.rows.map(async (webhook: WebhookRow) => {
+    const event = runEvents.find(e => webhook.events.includes(e));
+    if (!event) return;
+
+    const payload = {
+      event,
+      timestamp: new Date().toISOString(),
+      workspaceId: metadata.workspaceId,
+      collection,
+      run: {
+        runId: run.runId,
+        status: run.status,
+        environment: metadata.environment,
+        monitorId: metadata.monitorId || null,
+        startedAt: run.startedAt,
+        finishedAt: run.finishedAt,
+        summary: run.summary,
+        failures: failingResults(run.results),
+      },
+    };
+
+    try {
+      await deliver(webhook, event, run.runId, payload);
+    } catch (error) {
+      console.error(`Webhook ${webhook.id} delivery error:`, error);
+    }
+  }));
+};
@@ -0,0 +1,49 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { RequestData } from '../src/services/collectionRunner.js';
+import { generateCodeSnippet, SNIPPET_LANGUAGES } from '../src/services/codeSnippets.js';
+
+const request = {
+  id: 1,
+  name: 'Create order',
+  method: 'POST',
+  url: '{{baseUrl}}/orders',
+  headers: { 'X-Trace': '{{trace}}' },
+  params: { dry: 'true' },
+  body_mode: 'json',
+  body: { sku: 'A1' },
+  auth: { type: 'bearer', token: '{{token}}' },
+} as RequestData;
+
+const variables = { baseUrl: 'https://shop.test', trace: 't-1', token: 'secret-token' };
+
+test('curl snippets carry method, URL, headers, auth and body', () => {
+  const { snippet, warnings } = generateCodeSnippet(request, 'curl', variables);
+  assert.deepEqual(warnings, []);
+  assert.match(snippet, /--request POST/);
+  assert.match(snippet, /--url 'https:\/\/shop\.test\/orders\?dry=true'/);
+  assert.match(snippet, /--header 'X-Trace: t-1'/);
+  assert.match(snippet, /--header 'Authorization: Bearer secret-token'/);
+  assert.match(snippet, /--header 'Content-Type: application\/json'/);
+  assert.match(snippet, /--data-raw '\{\n {2}"sku": "A1"\n\}'/);
+});
+
+test('without variables the placeholders are kept', () => {
+  const { snippet } = generateCodeSnippet(request, 'python', null);
+  assert.match(snippet, /url = "\{\{baseUrl\}\}\/orders\?dry=true"/);
+  assert.match(snippet, /"Authorization": "Bearer \{\{token\}\}"/);
+});
+
+test('every language renders, and unresolved variables are reported', () => {
+  for (const language of SNIPPET_LANGUAGES) {
+    const { snippet, warnings } = generateCodeSnippet(request, language, { baseUrl: 'https://shop.test' });
+    assert.ok(snippet.includes('https://shop.test/orders'), language);
+    assert.ok(warnings.includes("Unresolved variable 'token'"), language);
+  }
+});
+
+test('an Authorization header on the request wins over its auth', () => {
+  const { snippet } = generateCodeSnippet({ ...request, headers: { authorization: 'Token mine' } }, 'go', variables);
+  assert.match(snippet, /req\.Header\.Add\("authorization", "Token mine"\)/);
+  assert.equal(snippet.includes('secret-token'), false);
+});
@@ -0,0 +1,47 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'node:http';
+import { AddressInfo } from 'node:net';
+import { sendRequest, RequestData } from '../src/services/collectionRunner.js';
+
+const SECRET = 's3cr3t-token';
+
+let server: http.Server;
+let baseUrl: string;
+
+// Echoes the Authorization header back, as token introspection endpoints do
+before(async () => {
+  server = http.createServer((req, res) => {
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ token: String(req.headers.authorization).replace('Bearer ', ''), user: { id: 7 } }));
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => {
+  server.close();
+});
+
+test('secrets are redacted from the response and from extracted values, but not from variables', async () => {
+  const { result, variables } = await sendRequest(
+    {
+      id: 1,
+      name: 'introspect',
+      method: 'GET',
+      url: `${baseUrl}/introspect`,
+      auth: { type: 'bearer', token: '{{token}}' },
+      extractions: [
+        { variable: 'echoed', source: 'jsonpath', expression: '$.token' },
+        { variable: 'user', source: 'jsonpath', expression: '$.user' },
+      ],
+    } as RequestData,
+    { token: SECRET },
+    { secrets: [SECRET] }
+  );
+
+  assert.equal(result.error, undefined);
+  assert.equal(JSON.stringify(result).includes(SECRET), false);
+  assert.deepEqual(result.extracted, { echoed: '[REDACTED]', user: { id: 7 } });
+  assert.equal(variables.echoed, SECRET);
+});
@@ -0,0 +1,65 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseCurlCommand } from '../src/services/formats/curl.js';
+
+test('a copied command becomes a request named after its method and path', () => {
+  const { request, warnings } = parseCurlCommand(`curl 'https://api.test/items?page=2' \\
+    -H 'Authorization: Bearer abc' -H 'Cookie: a=1' -H 'cookie: b=2' \\
+    -d 'a=1&b=two%20words' --compressed -sSL`);
+  assert.equal(request.name, 'POST /items');
+  assert.equal(request.method, 'POST');
+  assert.equal(request.url, 'https://api.test/items');
+  assert.deepEqual(request.params, { page: '2' });
+  assert.deepEqual(request.headers, { Authorization: 'Bearer abc', Cookie: 'a=1; b=2' });
+  assert.equal(request.body_mode, 'urlencoded');
+  assert.deepEqual(request.body, [{ key: 'a', value: '1' }, { key: 'b', value: 'two words' }]);
+  assert.deepEqual(warnings, []);
+});
+
+test('shell quoting is undone', () => {
+  const { request } = parseCurlCommand(`$ curl -X PUT "https://api.test/a b" --data-raw $'line\\none' -H "X-Quote: \\"q\\""`);
+  assert.equal(request.method, 'PUT');
+  assert.equal(request.url, 'https://api.test/a b');
+  assert.equal(request.headers['X-Quote'], '"q"');
+  assert.deepEqual(request.body, { content: 'line\none', contentType: 'application/x-www-form-urlencoded' });
+});
+
+test('--json, -u, -G and -F map onto body modes and auth', () => {
+  const json = parseCurlCommand(`curl https://api.test/items --json '{"name":"x"}' -u user:pass`).request;
+  assert.equal(json.body_mode, 'json');
+  assert.deepEqual(json.body, { name: 'x' });
+  assert.deepEqual(json.headers, { 'Content-Type': 'application/json', Accept: 'application/json' });
+  assert.deepEqual(json.auth, { type: 'basic', username: 'user', password: 'pass' });
+
+  const get = parseCurlCommand('curl -G -d q=cats api.test/search').request;
+  assert.equal(get.method, 'GET');
+  assert.equal(get.url, 'http://api.test/search');
+  assert.deepEqual(get.params, { q: 'cats' });
+
+  const { request: form, warnings } = parseCurlCommand(`curl -F 'file=@photo.png;type=image/png' -F name=rex https://api.test/upload`);
+  assert.equal(form.body_mode, 'formdata');
+  assert.deepEqual(form.body, [
+    { key: 'file', type: 'file', data: '', filename: 'photo.png', contentType: 'image/png' },
+    { key: 'name', value: 'rex' },
+  ]);
+  assert.deepEqual(warnings, ["Form field 'file' uploads photo.png; attach the file's contents to the request"]);
+});
+
+test('commands that are not cURL commands are rejected', () => {
+  assert.throws(() => parseCurlCommand('wget https://api.test'), /must start with curl/);
+  assert.throws(() => parseCurlCommand('curl -s'), /has no URL/);
+  assert.throws(() => parseCurlCommand(`curl 'https://api.test`), /unterminated single quote/);
+});
+
+test('data read from a file still makes the request a POST', () => {
+  const { request, warnings } = parseCurlCommand('curl -d @body.json https://api.test/items');
+  assert.equal(request.method, 'POST');
+  assert.equal(request.body_mode, 'none');
+  assert.deepEqual(warnings, ['The body is read from body.json; it was left out']);
+  assert.equal(parseCurlCommand('curl -F file=@a.txt https://api.test/upload').request.method, 'POST');
+});
+
+test('methods that do not fit the requests table are rejected', () => {
+  assert.throws(() => parseCurlCommand('curl -X SUBSCRIBE-ALL https://api.test'), /Unsupported request method 'SUBSCRIBE-ALL'/);
+  assert.equal(parseCurlCommand(`curl https://api.test/${'a'.repeat(300)}`).request.name.length, 255);
+});
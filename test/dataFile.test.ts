@@ -0,0 +1,31 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { MAX_DATA_ROWS, parseDataFile } from '../src/services/dataFile.js';
+
+test('CSV rows follow RFC 4180 quoting', () => {
+  const rows = parseDataFile('\uFEFFname,note\r\n"Smith, J","said ""hi""\nthen left"\r\n\r\nDoe,\n');
+  assert.deepEqual(rows, [
+    { name: 'Smith, J', note: 'said "hi"\nthen left' },
+    { name: 'Doe', note: '' },
+  ]);
+});
+
+test('text starting with [ is read as JSON, parsed arrays are taken as they are', () => {
+  assert.deepEqual(parseDataFile(' [{"id": 1}]'), [{ id: 1 }]);
+  assert.deepEqual(parseDataFile([{ id: 2 }]), [{ id: 2 }]);
+  assert.deepEqual(parseDataFile('id\n3', 'csv'), [{ id: '3' }]);
+});
+
+test('malformed data is rejected with a readable message', () => {
+  assert.throws(() => parseDataFile('a,b\n1'), /Row 2 has 1 fields, expected 2/);
+  assert.throws(() => parseDataFile('a,\n1,2'), /Every CSV column needs a header/);
+  assert.throws(() => parseDataFile('a\n"open'), /Unterminated quoted field/);
+  assert.throws(() => parseDataFile('[1]'), /Item 0 is not an object/);
+  assert.throws(() => parseDataFile('{"a": 1}'), /JSON data must be an array/);
+  assert.throws(() => parseDataFile('[{'), /Invalid JSON/);
+});
+
+test('data is limited to MAX_DATA_ROWS rows', () => {
+  const rows = Array.from({ length: MAX_DATA_ROWS + 1 }, (_, id) => ({ id }));
+  assert.throws(() => parseDataFile(rows), /maximum is 1000/);
+});
@@ -0,0 +1,57 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { applyExtractions, validateExtractions } from '../src/services/extractor.js';
+
+const response = {
+  headers: { 'X-Request-Id': 'req-42', 'content-type': 'application/json' },
+  data: { items: [{ id: 1, 'full name': 'Ann' }, { id: 2, 'full name': 'Bob' }], token: 'abc.def' },
+};
+
+test('JSONPath rules read fields, indexes, quoted names and wildcards', async () => {
+  const { values, warnings } = await applyExtractions([
+    { variable: 'last', source: 'jsonpath', expression: '$.items[-1].id' },
+    { variable: 'name', source: 'jsonpath', expression: "$.items[0]['full name']" },
+    { variable: 'ids', source: 'jsonpath', expression: '$.items[*].id' },
+  ], response);
+  assert.deepEqual(values, { last: 2, name: 'Ann', ids: [1, 2] });
+  assert.deepEqual(warnings, []);
+});
+
+test('header rules match names case-insensitively', async () => {
+  const { values } = await applyExtractions([{ variable: 'requestId', source: 'header', expression: 'x-request-id' }], response);
+  assert.deepEqual(values, { requestId: 'req-42' });
+});
+
+test('regex rules return the first group unless another is asked for', async () => {
+  const { values } = await applyExtractions([
+    { variable: 'head', source: 'regex', expression: '"token":"(\\w+)\\.(\\w+)"' },
+    { variable: 'tail', source: 'regex', expression: '"token":"(\\w+)\\.(\\w+)"', group: 2 },
+    { variable: 'whole', source: 'regex', expression: 'abc\\.\\w+' },
+  ], response);
+  assert.deepEqual(values, { head: 'abc', tail: 'def', whole: 'abc.def' });
+});
+
+test('rules that find nothing leave a warning instead of a value', async () => {
+  const { values, warnings } = await applyExtractions([{ variable: 'missing', source: 'jsonpath', expression: '$.nope' }], response);
+  assert.deepEqual(values, {});
+  assert.match(warnings[0], /found no value/);
+});
+
+test('a pattern that backtracks catastrophically is stopped', async () => {
+  const { values, warnings } = await applyExtractions(
+    [{ variable: 'slow', source: 'regex', expression: '^(a+)+$' }],
+    { headers: {}, data: `${'a'.repeat(40)}!` }
+  );
+  assert.deepEqual(values, {});
+  assert.deepEqual(warnings, ["Extraction of 'slow' failed: the pattern took longer than 1000 ms to match"]);
+});
+
+test('malformed rules are rejected', () => {
+  assert.equal(validateExtractions([{ variable: 'id', source: 'jsonpath', expression: '$.id' }]), null);
+  assert.match(validateExtractions({})!, /must be an array/);
+  assert.match(validateExtractions([{ variable: 'bad name', source: 'regex', expression: 'x' }])!, /variable name/);
+  assert.match(validateExtractions([{ variable: 'id', source: 'xpath', expression: 'x' }])!, /source must be one of/);
+  assert.match(validateExtractions([{ variable: 'id', source: 'jsonpath', expression: 'id' }])!, /must start with \$/);
+  assert.match(validateExtractions([{ variable: 'id', source: 'regex', expression: '(' }])!, /Extraction 0/);
+  assert.match(validateExtractions([{ variable: 'id', source: 'regex', expression: 'x', group: -1 }])!, /group/);
+});
@@ -0,0 +1,73 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { exportNativeCollection, NATIVE_FORMAT, parseNativeCollection } from '../src/services/formats/native.js';
+import { PortableCollection } from '../src/services/formats/types.js';
+
+const collection: PortableCollection = {
+  name: 'Shop',
+  description: 'Shop API',
+  auth: { type: 'bearer', token: '{{token}}' },
+  variables: [{ key: 'baseUrl', value: 'https://shop.test', secret: false }],
+  requests: [
+    {
+      name: 'Create order',
+      folder: 'Orders',
+      method: 'POST',
+      url: '{{baseUrl}}/orders',
+      headers: { 'X-Trace': '1' },
+      params: {},
+      body_mode: 'json',
+      body: { sku: 'A1' },
+      auth: null,
+      pre_request_script: 'pm.variables.set("a", 1);',
+      post_request_script: null,
+      extractions: [{ variable: 'orderId', source: 'jsonpath', expression: '$.id' }],
+      source_ref: null,
+    },
+  ],
+};
+
+test('an export imports back into the same collection', () => {
+  const document = JSON.parse(JSON.stringify(exportNativeCollection(collection)));
+  assert.equal(document.format, NATIVE_FORMAT);
+  const { collection: imported, warnings } = parseNativeCollection(document);
+  assert.deepEqual(imported, collection);
+  assert.deepEqual(warnings, []);
+});
+
+test('bundles that do not hold up are rejected as a whole', () => {
+  const document = exportNativeCollection(collection);
+  assert.throws(() => parseNativeCollection({ ...document, format: 'other' }), /Not a GETapi collection export/);
+  assert.throws(() => parseNativeCollection({ ...document, version: 99 }), /Unsupported export version 99/);
+  assert.throws(() => parseNativeCollection({ ...document, variables: [{ key: 'a', value: '1' }, { key: 'a', value: '2' }] }), /must not repeat a key/);
+  assert.throws(
+    () => parseNativeCollection({ ...document, requests: [{ ...collection.requests[0], body_mode: 'nope' }] }),
+    /^Error: Request 1: /
+  );
+});
+
+test('values that do not fit the requests table are rejected', () => {
+  const document = exportNativeCollection(collection);
+  const [request] = collection.requests;
+  assert.throws(
+    () => parseNativeCollection({ ...document, requests: [{ ...request, method: 'SUBSCRIBE-ALL' }] }),
+    /^Error: Request 1: Unsupported request method 'SUBSCRIBE-ALL'/
+  );
+  assert.throws(
+    () => parseNativeCollection({ ...document, requests: [{ ...request, name: 'x'.repeat(256) }] }),
+    /^Error: Request 1: Request names must have 1 to 255 characters/
+  );
+  assert.throws(() => parseNativeCollection({ ...document, variables: [{ key: 'k'.repeat(256), value: '' }] }), /Variable keys/);
+});
+
+test('credentials are replaced with variables', () => {
+  const bundle = exportNativeCollection({
+    ...collection,
+    auth: { type: 'oauth2', grantType: 'client_credentials', tokenUrl: 'https://auth.test/token', clientId: 'app', clientSecret: 'shh' },
+    requests: [{ ...collection.requests[0], auth: { type: 'basic', username: 'root', password: 'hunter2' } }],
+  });
+  assert.equal(bundle.collection.auth?.type === 'oauth2' && bundle.collection.auth.clientSecret, '{{clientSecret}}');
+  assert.deepEqual(bundle.requests[0].auth, { type: 'basic', username: 'root', password: '{{password}}' });
+  assert.deepEqual(bundle.notes, ['Credentials were left out of the export; define {{clientSecret}}, {{password}} before sending.']);
+  assert.equal(JSON.stringify(bundle).includes('hunter2'), false);
+});
@@ -0,0 +1,145 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { exportOpenApiDocument, operationRef, parseOpenApiSpec } from '../src/services/formats/openapi.js';
+import { PortableCollection } from '../src/services/formats/types.js';
+
+const spec = {
+  openapi: '3.0.3',
+  info: { title: 'Pets', version: '1' },
+  servers: [{ url: 'https://api.example.com/v1' }],
+  components: { securitySchemes: { key: { type: 'apiKey', in: 'header', name: 'X-Api-Key' } } },
+  security: [{ key: [] }],
+  paths: {
+    '/pets/{petId}': {
+      parameters: [{ name: 'petId', in: 'path', required: true, schema: { type: 'integer' } }],
+      get: {
+        summary: 'Get a pet',
+        tags: ['pets'],
+        parameters: [{ name: 'fields', in: 'query', required: true, schema: { type: 'string', example: 'name' } }],
+      },
+    },
+    '/pets': {
+      post: {
+        summary: 'Create a pet',
+        tags: ['pets'],
+        requestBody: { content: { 'application/json': { example: { name: 'Rex' } } } },
+      },
+    },
+  },
+};
+
+test('operations become requests under the server variable', () => {
+  const { collection } = parseOpenApiSpec(spec);
+  assert.equal(collection.name, 'Pets');
+  assert.deepEqual(collection.requests.map(r => [r.folder, r.name, r.method, r.url, r.source_ref]), [
+    ['pets', 'Get a pet', 'GET', '{{baseUrl}}/pets/{{petId}}', 'GET /pets/{petId}'],
+    ['pets', 'Create a pet', 'POST', '{{baseUrl}}/pets', 'POST /pets'],
+  ]);
+  assert.deepEqual(collection.variables.find(v => v.key === 'baseUrl'), { key: 'baseUrl', value: 'https://api.example.com/v1', secret: false });
+  assert.deepEqual(collection.requests[0].params, { fields: 'name' });
+  assert.equal(collection.requests[1].body_mode, 'json');
+  assert.deepEqual(collection.requests[1].body, { name: 'Rex' });
+});
+
+test('security schemes become auth that reads its credentials from variables', () => {
+  const { collection, warnings } = parseOpenApiSpec(spec);
+  assert.deepEqual(collection.auth, { type: 'apikey', key: 'X-Api-Key', value: '{{apiKey}}', in: 'header' });
+  assert.ok(warnings.some(warning => warning.includes('{{apiKey}}')));
+});
+
+test('Swagger 2.0 documents are read too', () => {
+  const { collection } = parseOpenApiSpec({
+    swagger: '2.0',
+    info: { title: 'Legacy', version: '2' },
+    host: 'legacy.test',
+    basePath: '/api',
+    schemes: ['https'],
+    paths: {
+      '/users': {
+        post: {
+          operationId: 'createUser',
+          consumes: ['application/json'],
+          parameters: [{ name: 'user', in: 'body', schema: { type: 'object', properties: { name: { type: 'string', example: 'Ann' } } } }],
+        },
+      },
+    },
+  });
+  assert.equal(collection.variables.find(v => v.key === 'baseUrl')?.value, 'https://legacy.test/api');
+  const [request] = collection.requests;
+  assert.equal(request.method, 'POST');
+  assert.equal(request.url, '{{baseUrl}}/users');
+  assert.deepEqual(request.body, { name: 'Ann' });
+});
+
+test('documents that are not specifications are rejected', () => {
+  assert.throws(() => parseOpenApiSpec('openapi'), /must be an object/);
+  assert.throws(() => parseOpenApiSpec({ openapi: '4.0.0', paths: {} }), /Only OpenAPI 3\.x and Swagger 2\.0/);
+  assert.throws(() => parseOpenApiSpec({ openapi: '3.1.0', info: {} }), /no paths/);
+});
+
+test('long summaries are shortened to fit the requests table', () => {
+  const { collection } = parseOpenApiSpec({
+    openapi: '3.0.3',
+    info: { title: 'Long' },
+    paths: { '/a': { get: { summary: 's'.repeat(300) } } },
+  });
+  assert.equal(collection.requests[0].name.length, 255);
+});
+
+test('operationRef names an operation by method and path', () => {
+  assert.equal(operationRef('get', '/pets/{petId}'), 'GET /pets/{petId}');
+});
+
+const collection: PortableCollection = {
+  name: 'Pets',
+  description: '',
+  auth: { type: 'bearer', token: '{{token}}' },
+  variables: [{ key: 'baseUrl', value: 'https://api.example.com/v1', secret: false }],
+  requests: [
+    {
+      name: 'Get a pet',
+      folder: 'pets',
+      method: 'GET',
+      url: '{{baseUrl}}/pets/{{petId}}',
+      headers: {},
+      params: { fields: 'name' },
+      body_mode: 'none',
+      body: {},
+      auth: null,
+      pre_request_script: null,
+      post_request_script: null,
+      extractions: [],
+      responses: [
+        { status: 200, statusText: 'OK', headers: { 'Content-Type': 'application/json' }, body: { id: 1, name: 'Rex', tags: ['good'] } },
+        { status: 404, statusText: 'Not Found', headers: { 'content-type': 'application/json' }, body: { error: 'Not found' } },
+      ],
+    },
+  ],
+};
+
+test('exports describe paths, parameters and security', () => {
+  const document: any = exportOpenApiDocument(collection);
+  assert.equal(document.openapi, '3.0.3');
+  assert.deepEqual(document.servers, [{ url: 'https://api.example.com/v1' }]);
+  const operation = document.paths['/pets/{petId}'].get;
+  assert.equal(operation.summary, 'Get a pet');
+  assert.deepEqual(operation.tags, ['pets']);
+  assert.deepEqual(operation.parameters.map((p: any) => [p.name, p.in, !!p.required]), [['petId', 'path', true], ['fields', 'query', false]]);
+  assert.deepEqual(document.security, [{ bearerAuth: [] }]);
+  assert.equal(document.components.securitySchemes.bearerAuth.scheme, 'bearer');
+});
+
+test('response schemas are inferred from recorded responses', () => {
+  const { responses } = (exportOpenApiDocument(collection) as any).paths['/pets/{petId}'].get;
+  assert.deepEqual(Object.keys(responses), ['200', '404']);
+  assert.deepEqual(responses['200'].content['application/json'].schema, {
+    type: 'object',
+    properties: { id: { type: 'integer' }, name: { type: 'string' }, tags: { type: 'array', items: { type: 'string' } } },
+    required: ['id', 'name', 'tags'],
+  });
+});
+
+test('an export imports back into the same operations', () => {
+  const { collection: imported } = parseOpenApiSpec(exportOpenApiDocument(collection));
+  assert.deepEqual(imported.requests.map(r => [r.method, r.url, r.source_ref]), [['GET', '{{baseUrl}}/pets/{{petId}}', 'GET /pets/{petId}']]);
+});
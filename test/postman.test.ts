@@ -0,0 +1,168 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { exportPostmanCollection, parsePostmanCollection } from '../src/services/formats/postman.js';
+import { PortableCollection } from '../src/services/formats/types.js';
+
+const SCHEMA = 'https://schema.getpostman.com/json/collection/v2.1.0/collection.json';
+
+const document = {
+  info: { name: 'Shop', schema: SCHEMA, description: { content: 'Shop API' } },
+  auth: { type: 'bearer', bearer: [{ key: 'token', value: '{{token}}' }] },
+  event: [{ listen: 'prerequest', script: { exec: ['pm.variables.set("a", 1);'] } }],
+  variable: [
+    { key: 'baseUrl', value: 'https://shop.test' },
+    { key: 'apiKey', value: 'k', type: 'secret' },
+    { key: 'old', value: 'x', disabled: true },
+  ],
+  item: [
+    {
+      name: 'Admin',
+      auth: { type: 'basic', basic: [{ key: 'username', value: 'root' }, { key: 'password', value: 'pw' }] },
+      item: [
+        {
+          name: 'Get order',
+          request: {
+            method: 'GET',
+            header: [{ key: 'Accept', value: 'application/json' }, { key: 'X-Debug', value: '1', disabled: true }],
+            url: {
+              raw: 'https://shop.test/orders/:id?expand=items',
+              query: [{ key: 'expand', value: 'items' }],
+              variable: [{ key: 'id' }],
+            },
+          },
+        },
+      ],
+    },
+    {
+      name: 'Create order',
+      request: {
+        method: 'POST',
+        url: '{{baseUrl}}/orders',
+        body: { mode: 'raw', raw: '{"sku": "A1"}', options: { raw: { language: 'json' } } },
+        auth: { type: 'inherit' },
+      },
+      event: [{ listen: 'test', script: { exec: 'pm.test("ok", () => {});' } }],
+    },
+    { name: 'Odd', request: { method: 'PROPFIND', url: 'https://shop.test/dav' } },
+  ],
+};
+
+test('requests, folders and bodies are converted', () => {
+  const { collection } = parsePostmanCollection(document);
+  assert.equal(collection.name, 'Shop');
+  assert.equal(collection.description, 'Shop API');
+  assert.deepEqual(collection.requests.map(r => [r.folder, r.name, r.method, r.url]), [
+    ['Admin', 'Get order', 'GET', 'https://shop.test/orders/{{id}}'],
+    [null, 'Create order', 'POST', '{{baseUrl}}/orders'],
+    [null, 'Odd', 'GET', 'https://shop.test/dav'],
+  ]);
+
+  const [get, create] = collection.requests;
+  assert.deepEqual(get.headers, { Accept: 'application/json' });
+  assert.deepEqual(get.params, { expand: 'items' });
+  assert.equal(create.body_mode, 'json');
+  assert.deepEqual(create.body, { sku: 'A1' });
+});
+
+test('folder auth and collection scripts reach the requests below them', () => {
+  const { collection } = parsePostmanCollection(document);
+  const [get, create] = collection.requests;
+  assert.deepEqual(collection.auth, { type: 'bearer', token: '{{token}}' });
+  assert.deepEqual(get.auth, { type: 'basic', username: 'root', password: 'pw' });
+  assert.equal(create.auth, null);
+  assert.equal(create.pre_request_script, 'pm.variables.set("a", 1);');
+  assert.equal(create.post_request_script, 'pm.test("ok", () => {});');
+});
+
+test('variables keep their secret flag, and what is left out is reported', () => {
+  const { collection, warnings } = parsePostmanCollection({ collection: document });
+  assert.deepEqual(collection.variables, [
+    { key: 'baseUrl', value: 'https://shop.test', secret: false },
+    { key: 'apiKey', value: 'k', secret: true },
+  ]);
+  assert.ok(warnings.includes("Variable 'old' is disabled and was left out"));
+  assert.ok(warnings.includes("Request 'Admin / Get order': disabled headers were left out: X-Debug"));
+  assert.ok(warnings.includes("Request 'Odd': method PROPFIND is not supported, GET was used instead"));
+  assert.ok(warnings.includes('Collection scripts were copied into each request'));
+});
+
+test('only v2.1 collections are accepted', () => {
+  assert.throws(() => parsePostmanCollection({ info: { name: 'x', schema: SCHEMA.replace('v2.1.0', 'v2.0.0') }, item: [] }), /v2\.1/);
+  assert.throws(() => parsePostmanCollection({ name: 'x' }), /Not a Postman collection/);
+});
+
+const collection: PortableCollection = {
+  name: 'Shop',
+  description: 'Shop API',
+  auth: null,
+  variables: [{ key: 'baseUrl', value: 'https://shop.test', secret: false }],
+  requests: [
+    {
+      name: 'Get order',
+      folder: 'Admin / Orders',
+      method: 'GET',
+      url: '{{baseUrl}}/orders/1?expand=items',
+      headers: { Accept: 'application/json' },
+      params: { page: '2' },
+      body_mode: 'none',
+      body: {},
+      auth: null,
+      pre_request_script: null,
+      post_request_script: 'pm.test("ok", () => {});',
+      extractions: [],
+    },
+    {
+      name: 'Upload',
+      folder: 'Admin',
+      method: 'POST',
+      url: '{{baseUrl}}/files',
+      headers: {},
+      params: {},
+      body_mode: 'formdata',
+      body: [{ key: 'note', value: 'hi' }, { key: 'file', type: 'file', data: 'aGk=', filename: 'a.txt' }],
+      auth: { type: 'hmac', secret: '{{hmacSecret}}' },
+      pre_request_script: null,
+      post_request_script: null,
+      extractions: [],
+    },
+  ],
+};
+
+test('exports nest folders and keep the whole query in one list', () => {
+  const document = exportPostmanCollection(collection);
+  assert.equal(document.info.schema, SCHEMA);
+  const [admin] = document.item;
+  assert.equal(admin.name, 'Admin');
+  const [orders, upload] = admin.item;
+  assert.equal(orders.name, 'Orders');
+  assert.deepEqual(orders.item[0].request.url, {
+    raw: '{{baseUrl}}/orders/1?expand=items&page=2',
+    query: [{ key: 'expand', value: 'items' }, { key: 'page', value: '2' }],
+  });
+  assert.match(upload.request.description, /file 'file' is not part of the export/);
+  assert.match(upload.request.description, /HMAC auth has no Postman equivalent/);
+});
+
+test('an export imports back into the same requests', () => {
+  const { collection: imported } = parsePostmanCollection(exportPostmanCollection(collection));
+  assert.deepEqual(imported.variables, collection.variables);
+  assert.deepEqual(imported.requests.map(r => [r.folder, r.name, r.method, r.url, r.params, r.post_request_script]), [
+    ['Admin / Orders', 'Get order', 'GET', '{{baseUrl}}/orders/1', { expand: 'items', page: '2' }, 'pm.test("ok", () => {});'],
+    ['Admin', 'Upload', 'POST', '{{baseUrl}}/files', {}, null],
+  ]);
+  assert.deepEqual(imported.requests[1].body[0], { key: 'note', value: 'hi' });
+});
+
+test('credentials are replaced with variables and noted', () => {
+  const document = exportPostmanCollection({
+    ...collection,
+    auth: { type: 'bearer', token: 'live-token' },
+    requests: [{ ...collection.requests[0], folder: null, auth: { type: 'apikey', key: 'X-Key', value: 'k-123' } }],
+  });
+  assert.deepEqual(document.auth, { type: 'bearer', bearer: [{ key: 'token', value: '{{bearerToken}}', type: 'string' }] });
+  assert.match(document.info.description!, /define \{\{bearerToken\}\} before sending/);
+  const [item] = document.item;
+  assert.equal(item.request.auth.apikey.find((a: any) => a.key === 'value').value, '{{apiKey}}');
+  assert.match(item.request.description, /define \{\{apiKey\}\} before sending/);
+  assert.equal(JSON.stringify(document).includes('live-token') || JSON.stringify(document).includes('k-123'), false);
+});
@@ -0,0 +1,74 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { RunOutput } from '../src/services/collectionRunner.js';
+import { buildJsonReport, JSON_REPORT_SCHEMA_VERSION, renderHtmlReport, renderJUnitReport, RunReportInput } from '../src/services/runReport.js';
+
+const summary = { total: 2, completed: 1, failed: 1, assertionsPassed: 1, assertionsFailed: 1, totalDuration: 1500 };
+
+const run: RunOutput = {
+  runId: 'run-1',
+  status: 'completed',
+  startedAt: '2026-01-01T00:00:00.000Z',
+  finishedAt: '2026-01-01T00:00:01.500Z',
+  summary,
+  iterations: [{ iteration: 0, summary }],
+  results: [
+    {
+      requestId: 1,
+      iteration: 0,
+      name: 'List <users>',
+      method: 'GET',
+      url: 'https://api.test/users?a=1&b=2',
+      status: 'completed',
+      response: { status: 200, statusText: 'OK', data: { users: [] }, headers: {} },
+      assertions: [
+        { name: 'status is 200', passed: true },
+        { name: 'has "users"', passed: false, error: 'expected [] not to be empty' },
+      ],
+      attempts: 1,
+      duration: 1000,
+      timestamp: '2026-01-01T00:00:00.000Z',
+    },
+    {
+      requestId: 2,
+      iteration: 0,
+      name: 'Create user',
+      method: 'POST',
+      url: 'https://api.test/users',
+      status: 'failed',
+      error: 'connect ECONNREFUSED',
+      assertions: [],
+      attempts: 3,
+      duration: 500,
+      timestamp: '2026-01-01T00:00:01.000Z',
+    },
+  ],
+};
+
+const input: RunReportInput = { run, collection: { id: 9, name: 'Users & Co' }, environment: 'staging' };
+
+test('JUnit reports a test case per request with failures and errors', () => {
+  const xml = renderJUnitReport(input);
+  assert.match(xml, /^<\?xml version="1\.0" encoding="UTF-8"\?>/);
+  assert.match(xml, /<testsuite name="Users &amp; Co" tests="2" failures="1" errors="1" time="1\.500"/);
+  assert.match(xml, /<testcase name="GET List &lt;users&gt;" classname="Users &amp; Co"/);
+  assert.match(xml, /<failure type="AssertionFailure" message="has &quot;users&quot;: expected \[\] not to be empty">/);
+  assert.match(xml, /<error[^>]*>[^<]*ECONNREFUSED/);
+});
+
+test('the JSON report has a versioned layout without response bodies', () => {
+  const report = buildJsonReport(input);
+  assert.equal(report.schemaVersion, JSON_REPORT_SCHEMA_VERSION);
+  assert.deepEqual(report.run.collection, { id: 9, name: 'Users & Co' });
+  assert.equal(report.run.environment, 'staging');
+  assert.deepEqual(report.requests.map(r => [r.name, r.statusCode, r.attempts]), [['List <users>', 200, 1], ['Create user', null, 3]]);
+  assert.equal(JSON.stringify(report).includes('"users":[]'), false);
+});
+
+test('the HTML report escapes what it shows', () => {
+  const html = renderHtmlReport(input);
+  assert.match(html, /<title>Users &amp; Co &ndash; run report<\/title>/);
+  assert.match(html, /List &lt;users&gt;/);
+  assert.match(html, /https:\/\/api\.test\/users\?a=1&amp;b=2/);
+  assert.equal(html.includes('<users>'), false);
+});
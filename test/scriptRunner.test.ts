@@ -0,0 +1,65 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { runScript } from '../src/services/scriptRunner.js';
+
+test('scripts read and change variables', async () => {
+  const { variables, error } = await runScript(`
+    pm.variables.set('count', pm.variables.get('count') + 1);
+    pm.environment.unset('old');
+  `, { count: 1, old: 'x' });
+  assert.equal(error, undefined);
+  assert.deepEqual(variables, { count: 2 });
+});
+
+test('a script that throws reports its error', async () => {
+  const { error } = await runScript("throw new Error('boom')", {});
+  assert.match(error!, /boom/);
+});
+
+test('a script that never ends is stopped', async () => {
+  const { error } = await runScript('while (true) {}', {});
+  assert.ok(error);
+});
+
+const results = async (script: string) => (await runScript(script, {})).tests;
+
+test('pm.test records passing and failing assertions', async () => {
+  const tests = await results(`
+    pm.test('passes', () => pm.expect(1 + 1).to.equal(2));
+    pm.test('fails', () => pm.expect('a').to.be.a('number'));
+  `);
+  assert.deepEqual(tests.map(t => [t.name, t.passed]), [['passes', true], ['fails', false]]);
+  assert.match(tests[1].error!, /number/);
+});
+
+test('pm.response can be asserted on', async () => {
+  const response = { code: 201, status: 'Created', headers: { 'Content-Type': 'application/json' }, body: '{"id":7}', responseTime: 12 };
+  const { tests } = await runScript(`
+    pm.test('status', () => pm.response.to.have.status(201));
+    pm.test('header', () => pm.expect(pm.response.headers.get('content-type')).to.include('json'));
+    pm.test('body', () => pm.expect(pm.response.json().id).to.equal(7));
+  `, {}, { response });
+  for (const result of tests) {
+    assert.equal(result.passed, true, `${result.name}: ${result.error}`);
+  }
+});
+
+test('.deep.equal compares objects by value', async () => {
+  const [deep, strict] = await results(`
+    pm.test('deep', () => pm.expect({ a: 1 }).to.deep.equal({ a: 1 }));
+    pm.test('strict', () => pm.expect({ a: 1 }).to.equal({ a: 1 }));
+  `);
+  assert.equal(deep.passed, true, deep.error);
+  assert.equal(strict.passed, false);
+});
+
+test('.deep applies to include and property', async () => {
+  const tests = await results(`
+    pm.test('include', () => pm.expect([{ id: 1 }]).to.deep.include({ id: 1 }));
+    pm.test('property', () => pm.expect({ user: { id: 1 } }).to.have.deep.property('user', { id: 1 }));
+    pm.test('negated', () => pm.expect({ a: 1 }).to.not.deep.equal({ a: 2 }));
+  `);
+  for (const result of tests) {
+    assert.equal(result.passed, true, `${result.name}: ${result.error}`);
+  }
+});
@@ -0,0 +1,170 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'node:crypto';
+import http from 'node:http';
+import { AddressInfo } from 'node:net';
+import { sendRequest, RequestData } from '../src/services/collectionRunner.js';
+import { signAwsV4 } from '../src/services/signing.js';
+
+const AWS_KEY = { accessKeyId: 'AKIDEXAMPLE', secretAccessKey: 'wJalrXUtnFEMI/K7MDENG+bPxRfiCYEXAMPLEKEY' };
+const HMAC_SECRET = 'hmac-secret';
+const DIGEST_USER = { username: 'alice', password: 'wonderland' };
+const REALM = 'verifier';
+
+const sha256 = (data: string | Buffer) => crypto.createHash('sha256').update(data).digest('hex');
+const md5 = (data: string) => crypto.createHash('md5').update(data).digest('hex');
+const hmac = (key: string | Buffer, data: string) => crypto.createHmac('sha256', key).update(data).digest();
+
+// Recomputes the signature from what arrived on the wire, the way AWS does
+const verifyAwsV4 = (req: http.IncomingMessage, body: Buffer): boolean => {
+  const match = /^AWS4-HMAC-SHA256 Credential=([^/]+)\/([^,]+), SignedHeaders=([^,]+), Signature=(\w+)$/.exec(req.headers.authorization || '');
+  if (!match || match[1] !== AWS_KEY.accessKeyId) return false;
+  const [, , scope, signedHeaders, signature] = match;
+  const [day, region, service] = scope.split('/');
+
+  const url = new URL(req.url!, 'http://verifier');
+  const query = [...url.searchParams.entries()]
+    .map(([key, value]) => `${encodeURIComponent(key)}=${encodeURIComponent(value)}`)
+    .sort()
+    .join('&');
+  const headers = signedHeaders.split(';').map(name => `${name}:${String(req.headers[name]).trim()}\n`).join('');
+  const canonical = [req.method, url.pathname, query, headers, signedHeaders, sha256(body)].join('\n');
+  const stringToSign = ['AWS4-HMAC-SHA256', req.headers['x-amz-date'], scope, sha256(canonical)].join('\n');
+  const key = [day, region, service, 'aws4_request'].reduce<Buffer>((k, part) => hmac(k, part), Buffer.from(`AWS4${AWS_KEY.secretAccessKey}`));
+  return hmac(key, stringToSign).toString('hex') === signature;
+};
+
+const verifyHmac = (req: http.IncomingMessage, body: Buffer): boolean => {
+  const timestamp = String(req.headers['x-timestamp']);
+  const expected = crypto.createHmac('sha256', HMAC_SECRET)
+    .update(`${req.method}\n${req.url}\n${timestamp}\n`)
+    .update(body)
+    .digest('hex');
+  return req.headers['x-signature'] === `sig=${expected}`;
+};
+
+// Each nonce count may only be used once per client nonce, as servers with replay protection require
+const usedNonceCounts = new Set<string>();
+let nonce = crypto.randomBytes(8).toString('hex');
+
+const verifyDigest = (req: http.IncomingMessage): boolean => {
+  const header = req.headers.authorization || '';
+  if (!header.startsWith('Digest ')) return false;
+  const fields = Object.fromEntries([...header.matchAll(/(\w+)=(?:"([^"]*)"|([^\s,]+))/g)].map(m => [m[1], m[2] ?? m[3]]));
+  if (fields.username !== DIGEST_USER.username || fields.nonce !== nonce || fields.uri !== req.url) return false;
+  const replay = `${fields.cnonce}:${fields.nc}`;
+  if (usedNonceCounts.has(replay)) return false;
+  usedNonceCounts.add(replay);
+
+  const ha1 = md5(`${DIGEST_USER.username}:${REALM}:${DIGEST_USER.password}`);
+  const ha2 = md5(`${req.method}:${req.url}`);
+  return fields.response === md5(`${ha1}:${nonce}:${fields.nc}:${fields.cnonce}:auth:${ha2}`);
+};
+
+let server: http.Server;
+let baseUrl: string;
+// Requests to /flaky fail with a 503 the first time each is seen
+const flaky = new Set<string>();
+
+before(async () => {
+  server = http.createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => {
+      const body = Buffer.concat(chunks);
+      const path = new URL(req.url!, 'http://verifier').pathname;
+      let verified = false;
+      if (path.startsWith('/aws')) verified = verifyAwsV4(req, body);
+      if (path.startsWith('/hmac')) verified = verifyHmac(req, body);
+      if (path.startsWith('/digest')) {
+        verified = verifyDigest(req);
+        if (!verified) {
+          res.writeHead(401, { 'WWW-Authenticate': `Digest realm="${REALM}", nonce="${nonce}", qop="auth"` });
+          return res.end();
+        }
+      }
+      if (verified && path.endsWith('/flaky') && !flaky.has(req.url!)) {
+        flaky.add(req.url!);
+        res.writeHead(503);
+        return res.end();
+      }
+      res.writeHead(verified ? 200 : 403);
+      res.end();
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => {
+  server.close();
+});
+
+const send = async (request: Partial<RequestData>, retries = 0) => {
+  const { result } = await sendRequest(
+    { id: 1, name: 'signed', method: 'GET', ...request } as RequestData,
+    {},
+    retries ? { retry: { retries, backoff: 1, retryOnStatus: [503] } } : {}
+  );
+  assert.equal(result.error, undefined);
+  return result;
+};
+
+test('signAwsV4 matches the get-vanilla vector of the AWS test suite', () => {
+  const headers = signAwsV4({
+    method: 'GET',
+    url: new URL('https://example.amazonaws.com/'),
+    headers: {},
+    body: '',
+    ...AWS_KEY,
+    region: 'us-east-1',
+    service: 'service',
+    date: new Date('2015-08-30T12:36:00Z'),
+  });
+  assert.equal(
+    headers.Authorization,
+    'AWS4-HMAC-SHA256 Credential=AKIDEXAMPLE/20150830/us-east-1/service/aws4_request, SignedHeaders=host;x-amz-date, Signature=5fa00fa31553b73ebf1942676e86291e8372ff2a2260956d9b8aae1d763fbf31'
+  );
+});
+
+test('AWS Signature V4 requests verify', async () => {
+  const result = await send({
+    method: 'POST',
+    url: `${baseUrl}/aws/items`,
+    params: { b: '2', a: 'x y' },
+    body_mode: 'json',
+    body: { name: 'widget' },
+    auth: { type: 'awsv4', region: 'eu-west-1', service: 'execute-api', ...AWS_KEY },
+  });
+  assert.equal(result.response?.status, 200);
+});
+
+test('HMAC requests verify, with a timestamp header', async () => {
+  const result = await send({
+    method: 'PUT',
+    url: `${baseUrl}/hmac/items?id=7`,
+    body_mode: 'raw',
+    body: { content: 'payload' },
+    auth: { type: 'hmac', secret: HMAC_SECRET, prefix: 'sig=', timestampHeader: 'X-Timestamp' },
+  });
+  assert.equal(result.response?.status, 200);
+});
+
+test('Digest requests answer the challenge', async () => {
+  const result = await send({
+    url: `${baseUrl}/digest/items?page=2`,
+    auth: { type: 'digest', ...DIGEST_USER },
+  });
+  assert.equal(result.response?.status, 200);
+});
+
+test('retries are signed again instead of replaying the first attempt', async () => {
+  nonce = crypto.randomBytes(8).toString('hex');
+  const digest = await send({ url: `${baseUrl}/digest/flaky`, auth: { type: 'digest', ...DIGEST_USER } }, 2);
+  assert.equal(digest.response?.status, 200);
+  assert.equal(digest.attempts, 2);
+
+  const aws = await send({ url: `${baseUrl}/aws/flaky`, auth: { type: 'awsv4', region: 'eu-west-1', service: 'execute-api', ...AWS_KEY } }, 2);
+  assert.equal(aws.response?.status, 200);
+  assert.equal(aws.attempts, 2);
+});
@@ -0,0 +1,40 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { renderTemplate, renderValue } from '../src/services/templating.js';
+
+test('filters apply left to right', () => {
+  assert.equal(renderTemplate('{{ creds | base64 }}', { creds: 'user:pass' }), 'dXNlcjpwYXNz');
+  assert.equal(renderTemplate('{{q|urlencode}}', { q: 'a b&c' }), 'a%20b%26c');
+  assert.equal(renderTemplate('{{name | trim | upper}}', { name: '  ann ' }), 'ANN');
+  assert.equal(renderTemplate('{{encoded | base64decode}}', { encoded: 'aGk=' }), 'hi');
+});
+
+test('dotted paths read into objects and JSON text', () => {
+  const variables = { user: '{"address": {"city": "Oslo"}}', items: [{ id: 'a1' }] };
+  assert.equal(renderTemplate('{{user.address.city}}/{{items.0.id}}', variables), 'Oslo/a1');
+});
+
+test('values holding placeholders are resolved in turn, cycles are reported', () => {
+  assert.equal(renderTemplate('{{url}}', { url: '{{host}}/v1', host: 'api.test' }), 'api.test/v1');
+
+  const warnings = new Set<string>();
+  renderTemplate('{{a}}', { a: '{{b}}', b: '{{a}}' }, warnings);
+  assert.deepEqual([...warnings], ["Variable 'a' has a circular reference"]);
+});
+
+test('unresolved variables and unknown filters stay in place with a warning', () => {
+  const warnings = new Set<string>();
+  assert.equal(renderTemplate('{{missing}} {{x | shout}}', { x: 'hi' }, warnings), '{{missing}} {{x | shout}}');
+  assert.deepEqual([...warnings], ["Unresolved variable 'missing'", "Unknown filter 'shout' on variable 'x'"]);
+});
+
+test('dynamic variables give a fresh value each time', () => {
+  const [first, second] = renderTemplate('{{$guid}} {{$guid}}', {}).split(' ');
+  assert.match(first, /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/);
+  assert.notEqual(first, second);
+  assert.match(renderTemplate('{{$timestamp}}', {}), /^\d{10}$/);
+});
+
+test('renderValue renders keys and nested values', () => {
+  assert.deepEqual(renderValue({ '{{k}}': ['{{v}}', 1, null] }, { k: 'key', v: 'value' }), { key: ['value', 1, null] });
+});